@@ -0,0 +1,77 @@
+/*
+ * Hanko verification, batch against fast aggregate, for boards of 5, 50 and 500 signers:
+ *
+ *   bun run bench
+ *
+ * `batch` is one pairing per signer (`verifyAggregate`). `fast` sums the signers' keys and checks one
+ * pairing (`verifyFastAggregate`). `cached` is `verifyHanko` once the board's summed key is cached,
+ * which is the cost of every COMMIT after the first from the same signers.
+ */
+import { bufToHex, hexToBuf } from '../codec/rlp';
+import { aggregateSignerKey, verifyHanko } from '../core/hanko';
+import {
+	aggregate,
+	aggregatePublicKeys,
+	deriveAddress,
+	getPublicKey,
+	provePossession,
+	randomPriv,
+	sign,
+	verifyAggregate,
+	verifyFastAggregate,
+} from '../crypto/bls';
+import type { Hex, Quorum } from '../types';
+
+const BOARD_SIZES = [5, 50, 500];
+const RUNS = 3;
+const MESSAGE: Hex = `0x${'42'.repeat(32)}`;
+
+/** Mean milliseconds of `RUNS` calls of `fn`, which must return true for the timing to count. */
+const time = (fn: () => boolean): number => {
+	const start = performance.now();
+	const valid = Array.from({ length: RUNS }, fn).every(Boolean);
+	if (!valid) console.error('  verification failed');
+	return (performance.now() - start) / RUNS;
+};
+
+const bench = (size: number) => {
+	const privs = Array.from({ length: size }, () => randomPriv());
+	const publicKeys = privs.map(getPublicKey);
+	const hanko = aggregate(privs.map(privateKey => sign({ message: hexToBuf(MESSAGE), privateKey })));
+	const quorum: Quorum = {
+		threshold: BigInt(size),
+		members: Object.fromEntries(
+			privs.map((privateKey, i) => [
+				deriveAddress(publicKeys[i]),
+				{
+					nonce: 0n,
+					shares: 1n,
+					publicKey: bufToHex(Buffer.from(publicKeys[i])),
+					pop: provePossession(privateKey),
+				},
+			]),
+		),
+	};
+	const signers = publicKeys.map(deriveAddress);
+
+	const batch = time(() => verifyAggregate({ hanko, messageHash: MESSAGE, publicKeys }));
+	const fast = time(() =>
+		verifyFastAggregate({ hanko, messageHash: MESSAGE, aggregateKey: aggregatePublicKeys(publicKeys) }),
+	);
+	aggregateSignerKey(quorum, signers);
+	const cached = time(() => verifyHanko({ quorum, signers, hanko, messageHash: MESSAGE }));
+
+	console.log(
+		[
+			String(size).padStart(7),
+			batch.toFixed(1).padStart(10),
+			fast.toFixed(1).padStart(9),
+			cached.toFixed(1).padStart(10),
+			`${(batch / cached).toFixed(1)}x`.padStart(10),
+		].join(''),
+	);
+};
+
+console.log(`Hanko verification, mean ms of ${RUNS} runs`);
+console.log('signers  batch ms  fast ms  cached ms  speed-up');
+BOARD_SIZES.forEach(bench);
@@ -1,15 +1,76 @@
 import { keccak_256 as keccak } from '@noble/hashes/sha3';
 import * as rlp from 'rlp';
-import {
-	COMMAND_FIELD_COUNT,
-	DUMMY_SIGNATURE,
-	FRAME_FIELD_COUNT,
-	INPUT_FIELD_COUNT,
-	SERVER_FRAME_FIELD_COUNT,
-	TRANSACTION_FIELD_COUNT,
-} from '../constants';
-import type { Command, Frame, Hex, Input, Result, Transaction, TxKind, UInt64 } from '../types';
+import type {
+	AccountAckTx,
+	AccountFrame,
+	AccountFrameTx,
+	AccountMachine,
+	AccountOp,
+	AccountProposeTx,
+	AccountSide,
+	AccountState,
+	AddMemberTx,
+	Address,
+	Board,
+	BurnTx,
+	ChatTx,
+	Command,
+	EntityState,
+	Frame,
+	Hex,
+	HtlcLock,
+	Input,
+	InvoiceTx,
+	LockedFrame,
+	LowerCreditLimitTx,
+	Mempool,
+	MintTx,
+	Nonce,
+	PaymentRecord,
+	Proposal,
+	ProposalAction,
+	ProposalStatus,
+	ProposeTx,
+	ProposedFrame,
+	Quorum,
+	RemoveMemberTx,
+	Replica,
+	ReplicaAddr,
+	Result,
+	ServerFrame,
+	SetCreditLimitTx,
+	SetSharesTx,
+	SetThresholdTx,
+	SignerRecord,
+	Transaction,
+	TransferTx,
+	TxKind,
+	TxReceipt,
+	UInt64,
+	Vote,
+	VoteTx,
+} from '../types';
 import { err, ok } from '../types';
+import {
+	type Codec,
+	type Item,
+	bool,
+	dynamic,
+	hex,
+	int,
+	list,
+	map,
+	num,
+	oneOf,
+	optional,
+	record,
+	refine,
+	str,
+	struct,
+	uint,
+	union,
+} from './schema';
+import { type PayloadKind, open, seal } from './version';
 
 /** RFC 8785-style canonical JSON (only what we need) */
 export const canonical = (value: unknown): string => {
@@ -47,237 +108,358 @@ export const hexToBuf = (hex: Hex): Buffer => Buffer.from(hex.startsWith('0x') ?
 
 export const bufToHex = (buf: Buffer): Hex => `0x${buf.toString('hex')}`;
 
-type RLPDecodedValue = Buffer | RLPDecodedValue[];
-
-const asBuffer = (value: RLPDecodedValue): Result<Buffer> => {
-	if (!Buffer.isBuffer(value)) {
-		return err('Expected Buffer but got array');
-	}
-	return ok(value);
-};
-
 export const convertBigIntToBuffer = (n: UInt64) => {
 	if (n === 0n) return Buffer.alloc(0);
 	const hex = n.toString(16);
 	// make even length
 	return Buffer.from(hex.length % 2 ? '0' + hex : hex, 'hex');
 };
-const convertBufferToBigInt = (buffer: Buffer): UInt64 =>
-	buffer.length === 0 ? 0n : BigInt(`0x${buffer.toString('hex')}`);
+/**
+ * Typed binary encoding of any plain value: what every consensus hash (frames, Merkle leaves, account
+ * states, tx payloads) is taken over, so every runtime hashes the same bytes.
+ */
+export const encodeValue = (value: unknown): Buffer => Buffer.from(rlp.encode(dynamic.encode(value)));
 
-export const encodeTransaction = (tx: Transaction): Buffer =>
+/**
+ * Canonical signing payload of a transaction to the entity at `addrKey`: that key, then everything
+ * except `sig`, RLP-encoded. The key keeps a tx signed for one entity from applying in another.
+ */
+export const encodeTxPayload = (addrKey: string, tx: Omit<Transaction, 'sig'>): Buffer =>
 	Buffer.from(
-		rlp.encode([
-			tx.kind,
-			convertBigIntToBuffer(tx.nonce),
-			hexToBuf(tx.from),
-			Buffer.from(canonical(tx.body)),
-			hexToBuf(tx.sig),
-		]),
+		rlp.encode([addrKey, tx.kind, convertBigIntToBuffer(tx.nonce), hexToBuf(tx.from), dynamic.encode(tx.body)]),
 	);
-export const decodeTransaction = (buffer: Buffer): Result<Transaction> => {
-	const decoded = rlp.decode(buffer) as RLPDecodedValue;
-	if (Buffer.isBuffer(decoded)) {
-		return err('Expected array for transaction');
-	}
-	if (decoded.length !== TRANSACTION_FIELD_COUNT) {
-		return err(`Transaction must have exactly ${TRANSACTION_FIELD_COUNT} fields`);
-	}
 
-	const results = decoded.reduce<Buffer[]>((acc, item) => {
-		const result = asBuffer(item);
-		if (!result.ok) return acc; // Skip on error
-		return acc.concat([result.value]);
-	}, []);
-
-	// Check if all items were converted successfully
-	if (results.length !== decoded.length) {
-		return err('Failed to convert all transaction fields to buffers');
-	}
-	const [kindBuf, nonceBuf, fromBuf, bodyBuf, sigBuf] = results;
-	try {
-		return ok({
-			kind: kindBuf.toString() as TxKind,
-			nonce: convertBufferToBigInt(nonceBuf),
-			from: bufToHex(fromBuf),
-			body: JSON.parse(bodyBuf.toString()) as { message: string },
-			sig: bufToHex(sigBuf),
-		});
-	} catch (e) {
-		return err(`Failed to parse transaction: ${String(e)}`);
-	}
-};
-
-export const encodeFrame = <S>(frame: Frame<S>): Buffer =>
+/**
+ * Message a member signs to ask for `view` at `height` of the entity at `addrKey`, naming the hash of
+ * the frame it signed at that height, if any.
+ */
+export const encodeViewChangePayload = (addrKey: string, height: UInt64, view: number, lockedHash?: Hex): Buffer =>
 	Buffer.from(
 		rlp.encode([
-			convertBigIntToBuffer(frame.height),
-			convertBigIntToBuffer(BigInt(frame.ts)),
-			frame.txs.map(encodeTransaction),
-			Buffer.from(canonical(frame.state)),
+			'VIEW_CHANGE',
+			addrKey,
+			convertBigIntToBuffer(height),
+			view,
+			...(lockedHash ? [hexToBuf(lockedHash)] : []),
 		]),
 	);
-export const decodeFrame = <S>(buffer: Buffer): Result<Frame<S>> => {
-	const decoded = rlp.decode(buffer) as RLPDecodedValue;
-	if (Buffer.isBuffer(decoded)) {
-		return err('Expected array for frame');
-	}
-	if (decoded.length !== FRAME_FIELD_COUNT) {
-		return err('Invalid frame structure');
-	}
 
-	const heightResult = asBuffer(decoded[0]);
-	const timestampResult = asBuffer(decoded[1]);
-	const stateResult = asBuffer(decoded[3]);
+/* ─── Typed RLP layouts of everything a command carries ─── */
 
-	if (!heightResult.ok) return err(heightResult.error);
-	if (!timestampResult.ok) return err(timestampResult.error);
-	if (!stateResult.ok) return err(stateResult.error);
+const address: Codec<Address> = hex;
+const side = oneOf<AccountSide>(['left', 'right']);
 
-	const transactions = decoded[2];
-	if (Buffer.isBuffer(transactions)) {
-		return err('Expected array for transactions');
-	}
+const replicaAddr = struct<ReplicaAddr>({ jurisdiction: str, entityId: str, signerId: optional(str) });
+
+const signerRecord = struct<SignerRecord>({ nonce: uint, shares: int, publicKey: hex, pop: hex });
+const quorum = struct<Quorum>({ threshold: int, members: record(address, signerRecord) });
+const board = struct<Board>({
+	threshold: int,
+	members: record(address, struct<Board['members'][Address]>({ shares: int, publicKey: hex, pop: hex })),
+});
+
+const htlcLock = struct<HtlcLock>({
+	sender: side,
+	asset: str,
+	amount: int,
+	hashlock: hex,
+	expiresAt: num,
+	route: optional(list(replicaAddr)),
+});
+
+const accountOp = union<AccountOp, 'kind'>('kind', {
+	deposit: struct({ asset: str, amount: int }),
+	pay: struct({ asset: str, amount: int }),
+	creditLimit: struct({ asset: str, limit: int }),
+	lock: struct<Omit<HtlcLock, 'sender'>>({
+		asset: str,
+		amount: int,
+		hashlock: hex,
+		expiresAt: num,
+		route: optional(list(replicaAddr)),
+	}),
+	settle: struct({ hashlock: hex, preimage: hex }),
+	refund: struct({ hashlock: hex }),
+	cancel: struct({ hashlock: hex }),
+});
+
+const sideAmounts = record(side, int);
+const accountState = struct<AccountState>({
+	left: replicaAddr,
+	right: replicaAddr,
+	height: uint,
+	ts: num,
+	balances: record(str, sideAmounts),
+	creditLimits: record(str, sideAmounts),
+	locks: record(hex, htlcLock),
+});
+const accountFrame = struct<AccountFrame>({
+	height: uint,
+	ts: num,
+	proposer: side,
+	ops: list(accountOp),
+	state: accountState,
+});
+const accountMachine = struct<AccountMachine>({
+	state: accountState,
+	sigs: record(side, hex) as Codec<AccountMachine['sigs']>,
+	pending: optional(accountFrame),
+	peerBoard: optional(board),
+	funder: optional(address),
+});
 
-	const txResults = transactions.map(tx => {
-		const txBufferResult = asBuffer(tx);
-		if (!txBufferResult.ok) return txBufferResult;
-		return decodeTransaction(txBufferResult.value);
+/** Bodies by tx kind; a proposal action reuses the body of the tx kind it stands for. */
+const TX_BODIES = {
+	chat: struct<ChatTx['body']>({ message: str }),
+	addMember: struct<AddMemberTx['body']>({ address, publicKey: hex, pop: hex, shares: int }),
+	removeMember: struct<RemoveMemberTx['body']>({ address }),
+	setShares: struct<SetSharesTx['body']>({ address, shares: int }),
+	setThreshold: struct<SetThresholdTx['body']>({ threshold: int }),
+	transfer: struct<TransferTx['body']>({ to: address, asset: str, amount: int }),
+	mint: struct<MintTx['body']>({ address, asset: str, amount: int }),
+	burn: struct<BurnTx['body']>({ address, asset: str, amount: int }),
+	vote: struct<VoteTx['body']>({ proposalId: hex, vote: oneOf<Vote>(['yes', 'no']) }),
+	accountPropose: struct<AccountProposeTx['body']>({ counterparty: replicaAddr, ops: list(accountOp) }),
+	accountFrame: struct<AccountFrameTx['body']>({ frame: accountFrame, board }),
+	accountAck: struct<AccountAckTx['body']>({
+		account: str,
+		height: uint,
+		stateHash: hex,
+		board,
+	}),
+	setCreditLimit: struct<SetCreditLimitTx['body']>({ counterparty: replicaAddr, asset: str, limit: int }),
+	lowerCreditLimit: struct<LowerCreditLimitTx['body']>({ counterparty: replicaAddr, asset: str, limit: int }),
+	invoice: struct<InvoiceTx['body']>({ preimage: hex }),
+};
+
+const action = <B>(body: Codec<B>) => struct<{ body: B }>({ body });
+const proposalAction = union<ProposalAction, 'kind'>('kind', {
+	collectiveMessage: action(struct({ message: str })),
+	addMember: action(TX_BODIES.addMember),
+	removeMember: action(TX_BODIES.removeMember),
+	setShares: action(TX_BODIES.setShares),
+	setThreshold: action(TX_BODIES.setThreshold),
+	mint: action(TX_BODIES.mint),
+	burn: action(TX_BODIES.burn),
+});
+
+const signed = <B>(body: Codec<B>) =>
+	struct<{ nonce: Nonce; from: Address; body: B; sig: Hex }>({
+		nonce: uint,
+		from: address,
+		body,
+		sig: hex,
+	});
+/** An account message, sealed by a hanko of the sending board's `signers` rather than one signature. */
+const sealed = <B>(body: Codec<B>) =>
+	struct<{ nonce: Nonce; from: Address; body: B; signers: Address[]; sig: Hex }>({
+		nonce: uint,
+		from: address,
+		body,
+		signers: list(address),
+		sig: hex,
 	});
+const transaction = union<Transaction, 'kind'>('kind', {
+	chat: signed(TX_BODIES.chat),
+	addMember: signed(TX_BODIES.addMember),
+	removeMember: signed(TX_BODIES.removeMember),
+	setShares: signed(TX_BODIES.setShares),
+	setThreshold: signed(TX_BODIES.setThreshold),
+	propose: signed(struct<ProposeTx['body']>({ action: proposalAction, expiresAt: uint })),
+	vote: signed(TX_BODIES.vote),
+	transfer: signed(TX_BODIES.transfer),
+	mint: signed(TX_BODIES.mint),
+	burn: signed(TX_BODIES.burn),
+	accountPropose: signed(TX_BODIES.accountPropose),
+	accountFrame: sealed(TX_BODIES.accountFrame),
+	accountAck: sealed(TX_BODIES.accountAck),
+	setCreditLimit: signed(TX_BODIES.setCreditLimit),
+	lowerCreditLimit: signed(TX_BODIES.lowerCreditLimit),
+	invoice: signed(TX_BODIES.invoice),
+});
+const transactionOf = <K extends TxKind>(kind: K) =>
+	refine(transaction, (tx): tx is Extract<Transaction, { kind: K }> => tx.kind === kind, `Expected a ${kind} tx`);
 
-	// Check for any errors
-	const firstError = txResults.find(r => !r.ok);
-	if (firstError && !firstError.ok) {
-		return err(firstError.error);
-	}
+const receipt = struct<TxReceipt>({
+	txHash: hex,
+	from: address,
+	nonce: uint,
+	status: oneOf<TxReceipt['status']>(['applied', 'rejected']),
+	reason: optional(str),
+});
 
-	const txs = txResults.filter((r): r is Result<Transaction, never> & { ok: true } => r.ok).map(r => r.value);
+const proposal = struct<Proposal>({
+	id: hex,
+	proposer: address,
+	action: proposalAction,
+	votes: record(address, oneOf<Vote>(['yes', 'no'])),
+	status: oneOf<ProposalStatus>(['pending', 'executed', 'rejected', 'expired']),
+	expiresAt: uint,
+});
 
-	try {
-		return ok({
-			height: convertBufferToBigInt(heightResult.value),
-			ts: Number(convertBufferToBigInt(timestampResult.value)),
-			txs,
-			state: JSON.parse(stateResult.value.toString()) as S,
-		});
-	} catch (e) {
-		return err(`Failed to decode frame: ${String(e)}`);
-	}
+const entityState = struct<EntityState>({
+	address: replicaAddr,
+	quorum,
+	chat: list(struct<EntityState['chat'][number]>({ from: address, msg: str, ts: num })),
+	proposals: record(hex, proposal),
+	balances: record(address, record(str, int)),
+	accounts: record(str, accountMachine),
+	payments: record(hex, struct<PaymentRecord>({ preimage: optional(hex), forwarded: optional(str) })),
+});
+
+const frameFields = {
+	height: uint,
+	ts: num,
+	txs: list(transaction),
+	receipts: list(receipt),
+	state: entityState,
+	root: optional(hex),
 };
+const entityFrame = struct<Frame<EntityState>>(frameFields);
+const proposedFrame = struct<ProposedFrame<EntityState>>({
+	...frameFields,
+	sigs: map(address, hex),
+	hash: hex,
+	view: num,
+});
+
+const lockedFrame = struct<LockedFrame>({ view: num, frame: entityFrame });
+
+const replica = struct<Replica>({
+	address: replicaAddr,
+	proposer: address,
+	isAwaitingSignatures: bool,
+	mempool: struct<Mempool>({ queues: record(address, list(transaction)), inbound: list(transaction) }),
+	last: entityFrame,
+	proposal: optional(proposedFrame),
+	view: num,
+	viewVotes: record(address, num),
+	locked: optional(lockedFrame),
+	pendingSince: optional(num),
+});
 
-const encodeCommand = (command: Command): Buffer[] => {
-	const replacer = (_key: string, value: unknown) => (typeof value === 'bigint' ? value.toString() : value);
-	return [Buffer.from(command.type), Buffer.from(JSON.stringify(command, replacer))];
+/** Every command as its type followed by its fields, each in a fixed binary layout. */
+const command = union<Command, 'type'>('type', {
+	IMPORT: struct({ replica }),
+	ADD_TX: struct({ addrKey: str, tx: transaction }),
+	RELAY: struct({ addrKey: str, tx: transaction }),
+	PROPOSE: struct({ addrKey: str, ts: num }),
+	SIGN: struct({ addrKey: str, signer: address, view: num, frameHash: hex, sig: hex }),
+	COMMIT: struct({ addrKey: str, hanko: hex, frame: entityFrame, signers: list(address) }),
+	ACCOUNT_PROPOSE: struct({ addrKey: str, tx: transactionOf('accountFrame') }),
+	ACCOUNT_ACK: struct({ addrKey: str, tx: transactionOf('accountAck') }),
+	VIEW_CHANGE: struct<Omit<Extract<Command, { type: 'VIEW_CHANGE' }>, 'type'>>({
+		addrKey: str,
+		signer: address,
+		height: uint,
+		view: num,
+		locked: optional(lockedFrame),
+		sig: hex,
+	}),
+});
+
+const inputCodec = struct<Input>({ from: address, to: address, cmd: command });
+
+/** Unsigned timestamp of a frame or server frame, laid out like `uint`. */
+const timestamp: Codec<number> = {
+	encode: value => uint.encode(BigInt(value)),
+	decode: item => {
+		const n = uint.decode(item);
+		if (!n.ok) return n;
+		return n.value <= BigInt(Number.MAX_SAFE_INTEGER) ? ok(Number(n.value)) : err('Number out of safe range');
+	},
 };
-const decodeCommand = (arr: RLPDecodedValue[]): Result<Command> => {
-	const reviver = (key: string, value: unknown) => {
-		// Detect numeric strings that should be BigInt (nonce, height, etc)
-		if (typeof value === 'string' && /^\d+$/.test(value) && (key === 'nonce' || key === 'height' || key === 'ts')) {
-			return BigInt(value);
-		}
-		return value;
-	};
-	if (arr.length !== COMMAND_FIELD_COUNT) {
-		return err('Invalid command structure');
-	}
-	const cmdDataResult = asBuffer(arr[1]);
-	if (!cmdDataResult.ok) return err(cmdDataResult.error);
 
+/** A value held as the bytes of its own RLP encoding rather than in place. */
+const embedded = <T>(codec: Codec<T>): Codec<T> => ({
+	encode: value => Buffer.from(rlp.encode(codec.encode(value))),
+	decode: item => (Array.isArray(item) ? err('Expected bytes but got list') : codec.decode(rlp.decode(item) as Item)),
+});
+
+const frameCodec = <S>() =>
+	struct<Frame<S>>({
+		height: uint,
+		ts: timestamp,
+		txs: list(transaction),
+		state: dynamic as Codec<S>,
+		receipts: list(receipt),
+		root: optional(hex),
+	});
+
+/** Inputs stay nested encodings, so a server frame's hash is the same as before versions existed. */
+const serverFrameBody = struct<Omit<ServerFrame, 'hash'>>({
+	height: uint,
+	ts: timestamp,
+	inputs: list(embedded(inputCodec)),
+	root: hex,
+	parent: hex,
+});
+
+/**
+ * Decode a `kind` payload of any supported wire version: the version byte picks the migrations that
+ * bring it to the current layout, which `codec` then reads with nothing left over.
+ */
+const decodeWith = <T>(codec: Codec<T>, buffer: Buffer, kind: PayloadKind, what: string): Result<T> => {
 	try {
-		return ok(JSON.parse(cmdDataResult.value.toString(), reviver) as Command);
+		const item = open(kind, buffer);
+		if (!item.ok) return err(`Invalid ${what}: ${item.error}`);
+		const decoded = codec.decode(item.value);
+		return decoded.ok ? decoded : err(`Invalid ${what}: ${decoded.error}`);
 	} catch (e) {
-		return err(`Failed to parse command: ${String(e)}`);
+		return err(`Failed to decode ${what}: ${String(e)}`);
 	}
 };
 
-export const encodeInput = (input: Input): Buffer =>
-	Buffer.from(rlp.encode([hexToBuf(input.from), hexToBuf(input.to), encodeCommand(input.cmd)]));
-export const decodeInput = (buffer: Buffer): Result<Input> => {
-	const decoded = rlp.decode(buffer) as RLPDecodedValue;
-	if (Buffer.isBuffer(decoded)) {
-		return err('Expected array for input');
-	}
-	if (decoded.length !== INPUT_FIELD_COUNT) {
-		return err('Invalid input structure');
-	}
+export const encodeTransaction = (tx: Transaction): Buffer => seal(transaction.encode(tx));
+export const decodeTransaction = (buffer: Buffer): Result<Transaction> =>
+	decodeWith(transaction, buffer, 'transaction', 'transaction');
 
-	const fromResult = asBuffer(decoded[0]);
-	const toResult = asBuffer(decoded[1]);
-	if (!fromResult.ok) return err(fromResult.error);
-	if (!toResult.ok) return err(toResult.error);
+export const encodeFrame = <S>(frame: Frame<S>): Buffer => seal(frameCodec<S>().encode(frame));
+export const decodeFrame = <S>(buffer: Buffer): Result<Frame<S>> =>
+	decodeWith(frameCodec<S>(), buffer, 'frame', 'frame');
 
-	const cmdArr = decoded[2];
-	if (Buffer.isBuffer(cmdArr)) {
-		return err('Expected array for command');
-	}
-
-	const cmdResult = decodeCommand(cmdArr);
-	if (!cmdResult.ok) return err(cmdResult.error);
-
-	return ok({
-		from: bufToHex(fromResult.value),
-		to: bufToHex(toResult.value),
-		cmd: cmdResult.value,
-	});
+/** JSON reviver for the `{"$bigint": "..."}` and `{"$map": [...]}` tags `tag` writes. */
+const taggedReviver = (_key: string, value: unknown): unknown => {
+	if (!value || typeof value !== 'object' || Array.isArray(value)) return value;
+	const tagged = value as { $bigint?: string; $map?: [unknown, unknown][] };
+	const keys = Object.keys(value);
+	if (keys.length !== 1) return value;
+	if (typeof tagged.$bigint === 'string') return BigInt(tagged.$bigint);
+	if (Array.isArray(tagged.$map)) return new Map(tagged.$map);
+	return value;
 };
 
-export const encodeServerFrame = (frame: import('../types').ServerFrame): Buffer =>
-	Buffer.from(
-		rlp.encode([
-			convertBigIntToBuffer(frame.height),
-			convertBigIntToBuffer(BigInt(frame.ts)),
-			frame.inputs.map(encodeInput),
-			hexToBuf(frame.root),
-			hexToBuf(frame.parent),
-		]),
-	);
-export const decodeServerFrame = (buffer: Buffer): Result<import('../types').ServerFrame> => {
-	const decoded = rlp.decode(buffer) as RLPDecodedValue;
-	if (Buffer.isBuffer(decoded)) {
-		return err('Expected array for server frame');
-	}
-	if (decoded.length !== SERVER_FRAME_FIELD_COUNT) {
-		return err('Invalid server frame structure');
-	}
-	const heightResult = asBuffer(decoded[0]);
-	const timestampResult = asBuffer(decoded[1]);
-	const inputs = decoded[2];
-	const rootResult = asBuffer(decoded[3]);
-	const parentResult = asBuffer(decoded[4]);
-
-	if (!heightResult.ok) return err(heightResult.error);
-	if (!timestampResult.ok) return err(timestampResult.error);
-	if (!rootResult.ok) return err(rootResult.error);
-	if (!parentResult.ok) return err(parentResult.error);
-
-	if (Buffer.isBuffer(inputs)) {
-		return err('Expected array for inputs');
+/**
+ * JSON that survives a round trip of what plain JSON loses: bigints (nonces, shares, amounts) and
+ * Maps (proposal signatures), tagged as `{"$bigint": "..."}` and `{"$map": [...]}`.
+ */
+const tag = (value: unknown): unknown => {
+	if (typeof value === 'bigint') return { $bigint: value.toString() };
+	if (value instanceof Map) return { $map: [...value.entries()].map(([k, v]) => [tag(k), tag(v)]) };
+	if (Array.isArray(value)) return value.map(tag);
+	if (value && typeof value === 'object') {
+		return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, tag(v)]));
 	}
+	return value;
+};
 
-	const inputResults = inputs.map(input => {
-		const inputBufferResult = asBuffer(input);
-		if (!inputBufferResult.ok) return inputBufferResult;
-		return decodeInput(inputBufferResult.value);
-	});
+/** `canonical` JSON that keeps bigints and Maps tagged, so `parseTagged` restores the value exactly. */
+export const canonicalTagged = (value: unknown): string => canonical(tag(value));
 
-	// Check for any errors
-	const firstError = inputResults.find(r => !r.ok);
-	if (firstError && !firstError.ok) {
-		return err(firstError.error);
-	}
+export const parseTagged = <T>(text: string): T => JSON.parse(text, taggedReviver) as T;
 
-	const decodedInputs = inputResults.filter((r): r is Result<Input, never> & { ok: true } => r.ok).map(r => r.value);
+export const encodeInput = (input: Input): Buffer => seal(inputCodec.encode(input));
+export const decodeInput = (buffer: Buffer): Result<Input> => decodeWith(inputCodec, buffer, 'input', 'input');
 
-	const frameWithoutHash: import('../types').ServerFrame = {
-		height: convertBufferToBigInt(heightResult.value),
-		ts: Number(convertBufferToBigInt(timestampResult.value)),
-		inputs: decodedInputs,
-		root: bufToHex(rootResult.value),
-		parent: bufToHex(parentResult.value),
-		hash: DUMMY_SIGNATURE,
-	};
-	return ok({
-		...frameWithoutHash,
-		hash: bufToHex(Buffer.from(keccak(encodeServerFrame(frameWithoutHash)))),
-	});
+/**
+ * Hash of a server frame, over its fields without the version byte so re-encoding a frame in a newer
+ * wire version keeps the links of the chain it is part of.
+ */
+export const hashServerFrame = (frame: Omit<ServerFrame, 'hash'>): Hex =>
+	bufToHex(Buffer.from(keccak(rlp.encode(serverFrameBody.encode(frame)))));
+
+export const encodeServerFrame = (frame: ServerFrame): Buffer => seal(serverFrameBody.encode(frame));
+export const decodeServerFrame = (buffer: Buffer): Result<ServerFrame> => {
+	const decoded = decodeWith(serverFrameBody, buffer, 'serverFrame', 'server frame');
+	return decoded.ok ? ok({ ...decoded.value, hash: hashServerFrame(decoded.value) }) : decoded;
 };
@@ -0,0 +1,338 @@
+import type { Hex, Result } from '../types';
+import { err, ok } from '../types';
+
+/** What `rlp.encode` takes and `rlp.decode` gives back: byte strings and lists of them. */
+export type Item = Uint8Array | Item[];
+
+/**
+ * Typed RLP layout of one value. `decode` is strict: it accepts exactly the items `encode` produces
+ * for some value, so every value has one encoding and decodes back to an equal value.
+ */
+export interface Codec<T> {
+	encode: (value: T) => Item;
+	decode: (item: Item) => Result<T>;
+}
+
+const bytesOf = (item: Item): Result<Buffer> =>
+	Array.isArray(item) ? err('Expected bytes but got list') : ok(Buffer.from(item));
+
+const listOf = (item: Item): Result<Item[]> => (Array.isArray(item) ? ok(item) : err('Expected list but got bytes'));
+
+/** Decode a list of items with one codec each, stopping at the first failure. */
+const decodeAll = <T>(items: Item[], decodeItem: (item: Item, index: number) => Result<T>): Result<T[]> =>
+	items.reduce<Result<T[]>>((acc, item, i) => {
+		if (!acc.ok) return acc;
+		const result = decodeItem(item, i);
+		return result.ok ? ok([...acc.value, result.value]) : result;
+	}, ok([]));
+
+const within = <T>(label: string, result: Result<T>): Result<T> =>
+	result.ok ? result : err(`${label}: ${result.error}`);
+
+export const bytes: Codec<Buffer> = { encode: value => value, decode: bytesOf };
+
+export const hex: Codec<Hex> = {
+	encode: value => Buffer.from(value.slice(2), 'hex'),
+	decode: item => {
+		const buffer = bytesOf(item);
+		return buffer.ok ? ok<Hex>(`0x${buffer.value.toString('hex')}`) : buffer;
+	},
+};
+
+export const str: Codec<string> = {
+	encode: value => Buffer.from(value),
+	decode: item => {
+		const buffer = bytesOf(item);
+		if (!buffer.ok) return buffer;
+		const text = buffer.value.toString();
+		return Buffer.from(text).equals(buffer.value) ? ok(text) : err('Invalid UTF-8 string');
+	},
+};
+
+/** Unsigned integer as minimal big-endian bytes; zero is the empty string. */
+export const uint: Codec<bigint> = {
+	encode: value => {
+		const digits = value.toString(16);
+		return value === 0n ? Buffer.alloc(0) : Buffer.from(digits.length % 2 ? `0${digits}` : digits, 'hex');
+	},
+	decode: item => {
+		const buffer = bytesOf(item);
+		if (!buffer.ok) return buffer;
+		if (buffer.value[0] === 0) return err('Integer with leading zero');
+		return ok(buffer.value.length === 0 ? 0n : BigInt(`0x${buffer.value.toString('hex')}`));
+	},
+};
+
+/** Signed integer, zigzag-mapped onto `uint` so small magnitudes of either sign stay short. */
+export const int: Codec<bigint> = {
+	encode: value => uint.encode(value >= 0n ? value * 2n : -value * 2n - 1n),
+	decode: item => {
+		const n = uint.decode(item);
+		if (!n.ok) return n;
+		return ok(n.value % 2n === 0n ? n.value / 2n : -(n.value + 1n) / 2n);
+	},
+};
+
+/** A JS number that holds an integer, such as a timestamp or a view. */
+export const num: Codec<number> = {
+	encode: value => int.encode(BigInt(value)),
+	decode: item => {
+		const n = int.decode(item);
+		if (!n.ok) return n;
+		return n.value <= BigInt(Number.MAX_SAFE_INTEGER) && n.value >= BigInt(Number.MIN_SAFE_INTEGER)
+			? ok(Number(n.value))
+			: err('Number out of safe range');
+	},
+};
+
+export const bool: Codec<boolean> = {
+	encode: value => (value ? Buffer.from([1]) : Buffer.alloc(0)),
+	decode: item => {
+		const n = uint.decode(item);
+		if (!n.ok) return n;
+		return n.value <= 1n ? ok(n.value === 1n) : err('Invalid boolean');
+	},
+};
+
+/** One of a fixed set of strings. */
+export const oneOf = <T extends string>(values: readonly T[]): Codec<T> => ({
+	encode: value => str.encode(value),
+	decode: item => {
+		const text = str.decode(item);
+		if (!text.ok) return text;
+		return values.includes(text.value as T) ? ok(text.value as T) : err(`Unexpected value '${text.value}'`);
+	},
+});
+
+/** An absent value is the empty list, a present one a list holding it. */
+export const optional = <T>(codec: Codec<T>): Codec<T | undefined> => ({
+	encode: value => (value === undefined ? [] : [codec.encode(value)]),
+	decode: item => {
+		const list = listOf(item);
+		if (!list.ok) return list;
+		if (list.value.length > 1) return err('Optional value with more than one item');
+		return list.value.length === 0 ? ok(undefined) : codec.decode(list.value[0]);
+	},
+});
+
+export const list = <T>(codec: Codec<T>): Codec<T[]> => ({
+	encode: values => values.map(codec.encode),
+	decode: item => {
+		const items = listOf(item);
+		return items.ok ? decodeAll(items.value, (entry, i) => within(`[${i}]`, codec.decode(entry))) : items;
+	},
+});
+
+const pair = <K, V>(key: Codec<K>, value: Codec<V>): Codec<[K, V]> => ({
+	encode: ([k, v]) => [key.encode(k), value.encode(v)],
+	decode: item => {
+		const items = listOf(item);
+		if (!items.ok) return items;
+		if (items.value.length !== 2) return err('Expected a key and a value');
+		const k = key.decode(items.value[0]);
+		if (!k.ok) return k;
+		const v = within(String(k.value), value.decode(items.value[1]));
+		return v.ok ? ok([k.value, v.value]) : v;
+	},
+});
+
+/**
+ * A plain object used as a dictionary. Its entries are sorted by key, so the order keys were added in
+ * never changes the bytes, and a decoder refuses entries out of order or repeated.
+ */
+export const record = <K extends string, V>(key: Codec<K>, value: Codec<V>): Codec<Record<K, V>> => {
+	const entries = list(pair(key, value));
+	return {
+		encode: values =>
+			// eslint-disable-next-line fp/no-mutating-methods
+			entries.encode([...(Object.keys(values) as K[])].sort().map(k => [k, values[k]])),
+		decode: item => {
+			const decoded = entries.decode(item);
+			if (!decoded.ok) return decoded;
+			const keys = decoded.value.map(([k]) => k);
+			if (keys.some((k, i) => i > 0 && keys[i - 1] >= k)) return err('Record keys not strictly ascending');
+			return ok(Object.fromEntries(decoded.value) as Record<K, V>);
+		},
+	};
+};
+
+/** A Map keeps its insertion order, which is part of its value; keys may not repeat. */
+export const map = <K, V>(key: Codec<K>, value: Codec<V>): Codec<Map<K, V>> => {
+	const entries = list(pair(key, value));
+	return {
+		encode: values => entries.encode([...values.entries()]),
+		decode: item => {
+			const decoded = entries.decode(item);
+			if (!decoded.ok) return decoded;
+			const result = new Map(decoded.value);
+			return result.size === decoded.value.length ? ok(result) : err('Duplicate map key');
+		},
+	};
+};
+
+/** Codec of every field of `T`, optional ones included, in the order they are encoded. */
+export type Fields<T> = { [K in keyof T]-?: Codec<T[K]> };
+
+/**
+ * An object as the list of its fields in the order `fields` names them. Optional fields that are
+ * absent stay absent after decoding rather than coming back as `undefined`.
+ */
+export const struct = <T>(fields: Fields<T>): Codec<T> => {
+	const names = Object.keys(fields) as (keyof T & string)[];
+	return {
+		encode: value => names.map(name => fields[name].encode(value[name])),
+		decode: item => {
+			const items = listOf(item);
+			if (!items.ok) return items;
+			if (items.value.length !== names.length) {
+				return err(`Expected ${names.length} fields but got ${items.value.length}`);
+			}
+			const decoded = decodeAll(items.value, (entry, i) => within(names[i], fields[names[i]].decode(entry)));
+			if (!decoded.ok) return decoded;
+			return ok(
+				names.reduce(
+					(acc, name, i) => (decoded.value[i] === undefined ? acc : { ...acc, [name]: decoded.value[i] }),
+					{} as T,
+				),
+			);
+		},
+	};
+};
+
+/** The fields of the members of union `T` whose `tag` is `K`, without the tag itself. */
+export type Variant<T, Tag extends keyof T, K> = T extends unknown ? (K extends T[Tag] ? Omit<T, Tag> : never) : never;
+
+/**
+ * A union discriminated by its `tag` field, as the tag followed by the fields of its variant. An
+ * unknown tag is refused.
+ */
+export const union = <T, Tag extends keyof T & string>(
+	tag: Tag,
+	variants: { [K in T[Tag] & string]: Codec<Variant<T, Tag, K>> },
+): Codec<T> => {
+	const cases = variants as Record<string, Codec<unknown>>;
+	return {
+		encode: value => {
+			const kind = value[tag] as string;
+			// eslint-disable-next-line @typescript-eslint/no-unused-vars
+			const { [tag]: _, ...rest } = value;
+			return [str.encode(kind), cases[kind].encode(rest)];
+		},
+		decode: item => {
+			const items = listOf(item);
+			if (!items.ok) return items;
+			if (items.value.length !== 2) return err(`Expected ${tag} and fields`);
+			const kind = str.decode(items.value[0]);
+			if (!kind.ok) return kind;
+			if (!Object.hasOwn(cases, kind.value)) return err(`Unknown ${tag} '${kind.value}'`);
+			const rest = within(kind.value, cases[kind.value].decode(items.value[1]));
+			return rest.ok ? ok({ [tag]: kind.value, ...(rest.value as object) } as T) : rest;
+		},
+	};
+};
+
+/** Narrow a codec's values, refusing decoded ones that fail `check`. */
+export const refine = <T, U extends T>(
+	codec: Codec<T>,
+	check: (value: T) => value is U,
+	message: string,
+): Codec<U> => ({
+	encode: codec.encode,
+	decode: item => {
+		const decoded = codec.decode(item);
+		if (!decoded.ok) return decoded;
+		return check(decoded.value) ? ok(decoded.value) : err(message);
+	},
+});
+
+/** Defer to a codec that is only defined further down, for layouts that contain themselves. */
+const lazy = <T>(get: () => Codec<T>): Codec<T> => ({
+	encode: value => get().encode(value),
+	decode: item => get().decode(item),
+});
+
+const nothing: Codec<null> = {
+	encode: () => Buffer.alloc(0),
+	decode: item => {
+		const buffer = bytesOf(item);
+		if (!buffer.ok) return buffer;
+		return buffer.value.length === 0 ? ok(null) : err('Expected empty bytes for null');
+	},
+};
+
+/** IEEE 754 double, big-endian; negative zero is written as zero and only one NaN is accepted. */
+const doubleBytes = (value: number): Buffer => {
+	const buffer = Buffer.alloc(8);
+	buffer.writeDoubleBE(value === 0 ? 0 : value);
+	return buffer;
+};
+
+const float: Codec<number> = {
+	encode: doubleBytes,
+	decode: item => {
+		const buffer = bytesOf(item);
+		if (!buffer.ok) return buffer;
+		if (buffer.value.length !== 8) return err('Expected 8 bytes for a number');
+		const value = buffer.value.readDoubleBE();
+		return doubleBytes(value).equals(buffer.value) ? ok(value) : err('Non-canonical number');
+	},
+};
+
+const plainObject: Codec<Record<string, unknown>> = {
+	encode: value =>
+		record(str, dynamic).encode(Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined))),
+	decode: item => record(str, dynamic).decode(item),
+};
+
+interface DynamicKind {
+	is: (value: unknown) => boolean;
+	codec: Codec<unknown>;
+}
+
+const kind = <T>(is: (value: unknown) => value is T, codec: Codec<T>): DynamicKind => ({
+	is,
+	codec: codec as unknown as Codec<unknown>,
+});
+
+/** The position of a kind is its tag, so appending is the only change that keeps old encodings valid. */
+const DYNAMIC_KINDS: readonly DynamicKind[] = [
+	kind((value): value is null => value === null || value === undefined, nothing),
+	kind((value): value is boolean => typeof value === 'boolean', bool),
+	kind((value): value is number => typeof value === 'number', float),
+	kind((value): value is bigint => typeof value === 'bigint', int),
+	kind((value): value is string => typeof value === 'string', str),
+	kind(
+		(value): value is unknown[] => Array.isArray(value),
+		lazy(() => list(dynamic)),
+	),
+	kind(
+		(value): value is Map<unknown, unknown> => value instanceof Map,
+		lazy(() => map(dynamic, dynamic)),
+	),
+	kind((value): value is Record<string, unknown> => typeof value === 'object', plainObject),
+];
+
+/**
+ * Any plain data as its type tag followed by its value, for values whose type no layout fixes, such
+ * as a frame's state or a Merkle leaf. A bigint, a string and a number that read alike never share an
+ * encoding, Maps keep their entries, and objects are sorted by key with `undefined` fields left out.
+ * `undefined` elsewhere, functions and symbols are written as null.
+ */
+export const dynamic: Codec<unknown> = {
+	encode: value => {
+		const tag = Math.max(
+			0,
+			DYNAMIC_KINDS.findIndex(entry => entry.is(value)),
+		);
+		return [uint.encode(BigInt(tag)), DYNAMIC_KINDS[tag].codec.encode(value)];
+	},
+	decode: item => {
+		const items = listOf(item);
+		if (!items.ok) return items;
+		if (items.value.length !== 2) return err('Expected a type tag and a value');
+		const tag = uint.decode(items.value[0]);
+		if (!tag.ok) return tag;
+		const entry = tag.value < BigInt(DYNAMIC_KINDS.length) ? DYNAMIC_KINDS[Number(tag.value)] : undefined;
+		return entry ? entry.codec.decode(items.value[1]) : err(`Unknown type tag ${tag.value}`);
+	},
+};
@@ -0,0 +1,195 @@
+import * as rlp from 'rlp';
+import { WIRE_VERSION } from '../constants';
+import type { Result, TxReceipt } from '../types';
+import { err, ok } from '../types';
+import { type Codec, type Item, dynamic, hex, oneOf, optional, str, struct, uint } from './schema';
+
+/** Payloads that are written to disk or sent to peers, each with its own layout history. */
+export type PayloadKind = 'transaction' | 'frame' | 'input' | 'serverFrame';
+
+/** Upgrade the RLP items of a payload from one wire version to the next. */
+export type Migration = (item: Item) => Result<Item>;
+
+/**
+ * Every RLP list starts with a byte from 0xc0 up, so a payload starting lower carries a version byte
+ * and one starting at or above it was written before payloads had one (version 0).
+ */
+const RLP_LIST_PREFIX = 0xc0;
+
+const unchanged: Migration = item => ok(item);
+
+const nested = (item: Item): Result<Item> =>
+	Array.isArray(item) ? err('Expected nested encoding but got list') : ok(rlp.decode(item) as Item);
+
+/** Receipt layout as version 1 introduced it; frozen so the migration keeps producing exactly that. */
+const receiptV1: Codec<TxReceipt> = struct<TxReceipt>({
+	txHash: hex,
+	from: hex,
+	nonce: uint,
+	status: oneOf<TxReceipt['status']>(['applied', 'rejected']),
+	reason: optional(str),
+});
+
+/**
+ * Version 0 frames held each tx as a nested encoding and the receipts as canonical JSON, and had no
+ * root. Version 1 lays txs and receipts out in place and adds the optional root.
+ */
+const frameV0: Migration = item => {
+	if (!Array.isArray(item) || item.length !== 5) return err('Expected 5 frame fields');
+	const [height, ts, txs, state, receipts] = item;
+	if (!Array.isArray(txs) || Array.isArray(receipts)) return err('Invalid frame structure');
+	const inline = txs.map(nested);
+	const failed = inline.find(tx => !tx.ok);
+	if (failed) return failed;
+	// canonical JSON writes bigints as strings, and a receipt's only bigint is its nonce
+	const parsed = JSON.parse(Buffer.from(receipts).toString(), (key: string, value: unknown) =>
+		key === 'nonce' && typeof value === 'string' ? BigInt(value) : value,
+	) as TxReceipt[];
+	return ok([height, ts, inline.flatMap(tx => (tx.ok ? [tx.value] : [])), state, parsed.map(receiptV1.encode), []]);
+};
+
+/** Version 1 frames held the state as canonical JSON; version 2 writes it with `dynamic`. */
+const frameV1: Migration = item => {
+	if (!Array.isArray(item) || item.length !== 6) return err('Expected 6 frame fields');
+	const [height, ts, txs, state, receipts, root] = item;
+	if (Array.isArray(state)) return err('Invalid frame structure');
+	return ok([height, ts, txs, dynamic.encode(JSON.parse(Buffer.from(state).toString())), receipts, root]);
+};
+
+/**
+ * Version 3 records a BLS public key with every quorum member, `addMember` body and account message.
+ * A key cannot be made up: a version 2 tx or command holding any of those fails to decode. The rest
+ * carries over.
+ */
+const memberKeysV2: Migration = unchanged;
+
+/** Version 4 adds each key's proof of possession to the same records, which cannot be made up either. */
+const memberPopsV3: Migration = unchanged;
+
+/**
+ * A frame's state is written untyped, so it would decode without the records `missing` names rather
+ * than fail. Refuse a frame whose state has quorum members, the way a tx or command holding one is.
+ */
+const frameMembersBefore =
+	(missing: string): Migration =>
+	item => {
+		if (!Array.isArray(item) || item.length !== 6) return err('Expected 6 frame fields');
+		const state = dynamic.decode(item[3]);
+		if (!state.ok) return state;
+		const { quorum } = (state.value ?? {}) as { quorum?: { members?: object } };
+		return quorum?.members && Object.keys(quorum.members).length > 0
+			? err(`Quorum members predate ${missing}`)
+			: ok(item);
+	};
+
+/*
+ * Version 5 binds each account to the counterparty's board: account messages carry that board and a
+ * hanko of its signers, and an account records its time, the bound board and who funded its deposits.
+ * Proposals and SIGN requests carry their view, replicas and VIEW_CHANGE requests the frame a member
+ * signed. None of that can be made up, so a version 4 payload holding any of it is refused, and the
+ * rest decodes unchanged, which keeps the hash of a server frame it was chained by. Version 5 also
+ * signs txs over the entity's address key, so a version 4 tx still decodes but no longer verifies.
+ */
+
+/** Tag of a union item, the tx kind or command type its fields follow. */
+const tagOf = (item: Item): Result<string> =>
+	Array.isArray(item) && item.length === 2 ? str.decode(item[0]) : err('Expected a tag and fields');
+
+const ACCOUNT_MESSAGES = ['accountFrame', 'accountAck'];
+
+const txV4: Migration = item => {
+	const kind = tagOf(item);
+	if (!kind.ok) return kind;
+	return ACCOUNT_MESSAGES.includes(kind.value) ? err('Account messages predate account boards') : ok(item);
+};
+
+const txsV4 = (txs: Item): Result<Item> =>
+	Array.isArray(txs) ? (txs.map(txV4).find(result => !result.ok) ?? ok(txs)) : err('Expected a list of txs');
+
+/** A state holding accounts, whose layout version 5 changed. */
+const hasAccounts = (accounts: unknown): boolean =>
+	Array.isArray(accounts) ? accounts.length > 0 : accounts !== undefined && Object.keys(accounts ?? {}).length > 0;
+
+const frameV4: Migration = item => {
+	if (!Array.isArray(item) || item.length !== 6) return err('Expected 6 frame fields');
+	const txs = txsV4(item[2]);
+	if (!txs.ok) return txs;
+	const state = dynamic.decode(item[3]);
+	if (!state.ok) return state;
+	return hasAccounts((state.value as { accounts?: object } | null)?.accounts)
+		? err('Accounts predate account boards')
+		: ok(item);
+};
+
+/** Commands whose every version 4 encoding lacks what version 5 added, by the reason they are refused. */
+const REFUSED_COMMANDS: Record<string, string> = {
+	IMPORT: 'Replicas predate proposal views and locked frames',
+	SIGN: 'SIGN predates proposal views',
+	VIEW_CHANGE: 'VIEW_CHANGE predates locked frames',
+	ACCOUNT_PROPOSE: 'Account messages predate account boards',
+	ACCOUNT_ACK: 'Account messages predate account boards',
+};
+
+const inputV4: Migration = item => {
+	if (!Array.isArray(item) || item.length !== 3) return err('Expected 3 input fields');
+	const type = tagOf(item[2]);
+	if (!type.ok) return type;
+	if (Object.hasOwn(REFUSED_COMMANDS, type.value)) return err(REFUSED_COMMANDS[type.value]);
+
+	const fields = (item[2] as Item[])[1];
+	if (!Array.isArray(fields)) return err('Expected command fields');
+	if (type.value === 'ADD_TX') {
+		const tx = txV4(fields[1]);
+		return tx.ok ? ok(item) : tx;
+	}
+	if (type.value !== 'COMMIT') return ok(item);
+	// a COMMIT frame holds its txs third and its typed state fifth, whose accounts come sixth
+	const frame = fields[2];
+	if (!Array.isArray(frame) || !Array.isArray(frame[4])) return err('Expected a COMMIT frame');
+	const txs = txsV4(frame[2]);
+	if (!txs.ok) return txs;
+	return hasAccounts(frame[4][5]) ? err('Accounts predate account boards') : ok(item);
+};
+
+/** Check each input a server frame embeds, leaving the bytes its hash covers as they are. */
+const serverFrameV4: Migration = item => {
+	if (!Array.isArray(item) || item.length !== 5 || !Array.isArray(item[2]))
+		return err('Expected 5 server frame fields');
+	const refused = item[2]
+		.map(input => {
+			const decoded = nested(input);
+			return decoded.ok ? inputV4(decoded.value) : decoded;
+		})
+		.find(input => !input.ok);
+	return refused ?? ok(item);
+};
+
+/**
+ * Migrations by payload kind, where entry `v` upgrades version `v` to `v + 1`. Bumping
+ * `WIRE_VERSION` takes one more entry for every kind, even if only to leave it `unchanged`.
+ */
+export const MIGRATIONS: Record<PayloadKind, readonly Migration[]> = {
+	transaction: [unchanged, unchanged, memberKeysV2, memberPopsV3, txV4],
+	frame: [frameV0, frameV1, frameMembersBefore('public keys'), frameMembersBefore('proofs of possession'), frameV4],
+	input: [unchanged, unchanged, memberKeysV2, memberPopsV3, inputV4],
+	serverFrame: [unchanged, unchanged, memberKeysV2, memberPopsV3, serverFrameV4],
+};
+
+/** Prefix the RLP encoding of `item` with the current wire version. */
+export const seal = (item: Item): Buffer => Buffer.concat([Buffer.from([WIRE_VERSION]), Buffer.from(rlp.encode(item))]);
+
+/**
+ * Read the version of a `kind` payload and bring its items up to the current layout. Throws where
+ * `rlp.decode` does, so callers decode inside their own error handling.
+ */
+export const open = (kind: PayloadKind, buffer: Buffer): Result<Item> => {
+	if (buffer.length === 0) return err('Empty payload');
+	const versioned = buffer[0] < RLP_LIST_PREFIX;
+	const version = versioned ? buffer[0] : 0;
+	if (versioned && (version === 0 || version > WIRE_VERSION)) return err(`Unsupported wire version ${version}`);
+
+	const item = rlp.decode(versioned ? buffer.subarray(1) : buffer) as Item;
+	return MIGRATIONS[kind]
+		.slice(version)
+		.reduce<Result<Item>>((acc, migrate) => (acc.ok ? migrate(acc.value) : acc), ok(item));
+};
@@ -3,24 +3,53 @@ export const TOTAL_SIGNERS = 5;
 export const DEFAULT_SHARES_PER_SIGNER = 1;
 
 export const TICK_INTERVAL_MS = 100;
+/** How long a replica waits on pending work before asking to replace the proposer. */
+export const VIEW_CHANGE_TIMEOUT_MS = 1_000;
 export const INITIAL_HEIGHT = 0n;
+/** Past server states a runtime keeps in memory for stepping back through them. */
+export const HISTORY_LIMIT = 256;
+
+/** Most txs one member may have waiting in a replica's mempool, future nonces included. */
+export const MEMPOOL_SENDER_LIMIT = 16;
+/** Most nonces a queued member tx may run ahead of the next one its sender's queue is waiting for. */
+export const MEMPOOL_NONCE_GAP = 4;
+/** Most txs a replica's mempool holds across all senders and inbound account messages. */
+export const MEMPOOL_LIMIT = 256;
 
 export const BLS_SIGNATURE_LENGTH = 96;
 export const ADDRESS_LENGTH = 20;
 export const DUMMY_SIGNATURE = `0x${'00'.repeat(BLS_SIGNATURE_LENGTH)}` as const;
+/** Aggregated signer keys a process keeps, one per board and set of signers that sealed a hanko. */
+export const HANKO_KEY_CACHE_LIMIT = 1_024;
+
+/** scrypt cost of the key an encrypted keystore file is sealed under; each file records its own. */
+export const KEYSTORE_SCRYPT_N = 2 ** 14;
+
+/** Seed the demo members' keys derive from, so their addresses are the same on every run. */
+export const DEMO_SEED = `0x${'58'.repeat(32)}` as const;
 
 export const DEMO_JURISDICTION = 'demo';
 export const DEMO_ENTITY_ID = 'chat';
 
 export const HASH_DISPLAY_LENGTH = 10;
 
-export const TRANSACTION_FIELD_COUNT = 5;
-export const FRAME_FIELD_COUNT = 4;
-export const COMMAND_FIELD_COUNT = 2;
-export const INPUT_FIELD_COUNT = 3;
-export const SERVER_FRAME_FIELD_COUNT = 5;
+/**
+ * Version byte that encoded transactions, frames, inputs and server frames start with. Bumping it
+ * takes a migration for every payload kind in `src/codec/version.ts`; it must stay below 0xc0.
+ */
+export const WIRE_VERSION = 5;
 
 export const DEMO_WAIT_MS = 100;
 export const TIMESTAMP_BIGINT_THRESHOLD = 15;
 
+/** Upper bound of any single ledger balance (uint256, as settled on-chain). */
+export const MAX_BALANCE = 2n ** 256n - 1n;
+
+/** Furthest a counterparty's account frame may lag behind our own frame time for us to accept it. */
+export const ACCOUNT_FRAME_SKEW_MS = 5_000;
+/** Timeout margin each hop of a routed payment keeps over the next, so it can still settle upstream. */
+export const HTLC_HOP_TIMEOUT_MS = 10_000;
+/** Ticks `pay` drives the runtime for before reporting hops that are still in flight. */
+export const MAX_PAYMENT_TICKS = 1_000;
+
 export const EMPTY_HASH = `0x${'00'.repeat(64)}` as const;
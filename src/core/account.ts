@@ -0,0 +1,181 @@
+import { keccak_256 as keccak } from '@noble/hashes/sha3';
+import { encodeValue, hexToBuf } from '../codec/rlp';
+import { MAX_BALANCE } from '../constants';
+import type {
+	AccountOp,
+	AccountSide,
+	AccountState,
+	AssetId,
+	CreditLine,
+	Hex,
+	HtlcLock,
+	ReplicaAddr,
+	Result,
+	TS,
+} from '../types';
+import { err, getAddrKey, ok } from '../types';
+
+/** Fresh account between two entities, sides ordered by address key. */
+export const createAccount = (a: ReplicaAddr, b: ReplicaAddr): AccountState => {
+	const [left, right] = getAddrKey(a) < getAddrKey(b) ? [a, b] : [b, a];
+	return {
+		left: { jurisdiction: left.jurisdiction, entityId: left.entityId },
+		right: { jurisdiction: right.jurisdiction, entityId: right.entityId },
+		height: 0n,
+		ts: 0,
+		balances: {},
+		creditLimits: {},
+		locks: {},
+	};
+};
+
+/** Which side of the account an entity is on, if any. */
+export const accountSide = (account: AccountState, entity: ReplicaAddr): AccountSide | undefined =>
+	getAddrKey(account.left) === getAddrKey(entity)
+		? 'left'
+		: getAddrKey(account.right) === getAddrKey(entity)
+			? 'right'
+			: undefined;
+
+export const otherSide = (side: AccountSide): AccountSide => (side === 'left' ? 'right' : 'left');
+
+export const hashAccountState = (account: AccountState): Hex =>
+	`0x${Buffer.from(keccak(encodeValue(account))).toString('hex')}`;
+
+export const getAccountBalance = (account: AccountState, side: AccountSide, asset: AssetId): bigint =>
+	account.balances[asset]?.[side] ?? 0n;
+
+const setAccountBalance = (account: AccountState, side: AccountSide, asset: AssetId, amount: bigint) => ({
+	...account,
+	balances: {
+		...account.balances,
+		[asset]: { ...(account.balances[asset] ?? { left: 0n, right: 0n }), [side]: amount },
+	},
+});
+
+/** Credit `side` extends to its counterparty: the limit and how much of it the counterparty draws. */
+export const getCreditLine = (account: AccountState, side: AccountSide, asset: AssetId): CreditLine => {
+	const peerBalance = getAccountBalance(account, otherSide(side), asset);
+	return { limit: account.creditLimits[asset]?.[side] ?? 0n, used: peerBalance < 0n ? -peerBalance : 0n };
+};
+
+/** Most `side` can lock or pay right now: its balance plus the credit its counterparty extends. */
+export const getSendCapacity = (account: AccountState, side: AccountSide, asset: AssetId): bigint =>
+	getAccountBalance(account, side, asset) + getCreditLine(account, otherSide(side), asset).limit;
+
+/** Hashlock a preimage releases: keccak256 of its bytes. */
+export const hashlockOf = (preimage: Hex): Hex => `0x${Buffer.from(keccak(hexToBuf(preimage))).toString('hex')}`;
+
+/** Our locks on an account whose timeout has passed at `now`, ordered by hashlock. */
+export const expiredLocks = (account: AccountState, side: AccountSide, now: TS): HtlcLock[] =>
+	// eslint-disable-next-line fp/no-mutating-methods
+	Object.values(account.locks)
+		.filter(lock => lock.sender === side && now >= lock.expiresAt)
+		.sort((a, b) => a.hashlock.localeCompare(b.hashlock));
+
+const credit = (account: AccountState, side: AccountSide, asset: AssetId, amount: bigint): Result<AccountState> => {
+	if (amount <= 0n) return err('Amount must be positive');
+	const next = getAccountBalance(account, side, asset) + amount;
+	return next > MAX_BALANCE ? err('Balance overflow') : ok(setAccountBalance(account, side, asset, next));
+};
+
+/** Take `amount` from a side, which may go negative down to the credit its counterparty extends. */
+const debit = (account: AccountState, side: AccountSide, asset: AssetId, amount: bigint): Result<AccountState> => {
+	if (amount <= 0n) return err('Amount must be positive');
+	const next = getAccountBalance(account, side, asset) - amount;
+	return next < -getCreditLine(account, otherSide(side), asset).limit
+		? err('Insufficient account balance')
+		: ok(setAccountBalance(account, side, asset, next));
+};
+
+const withLocks = (account: AccountState, locks: Record<Hex, HtlcLock>): AccountState => ({ ...account, locks });
+
+const withoutLock = (account: AccountState, hashlock: Hex): AccountState =>
+	withLocks(account, Object.fromEntries(Object.entries(account.locks).filter(([key]) => key !== hashlock)));
+
+const applyAccountOp = (account: AccountState, side: AccountSide, op: AccountOp, ts: TS): Result<AccountState> => {
+	switch (op.kind) {
+		case 'deposit':
+			// funds behind a side's own balance would sit in a ledger its counterparty cannot see
+			return credit(account, otherSide(side), op.asset, op.amount);
+		case 'pay': {
+			const debited = debit(account, side, op.asset, op.amount);
+			return debited.ok ? credit(debited.value, otherSide(side), op.asset, op.amount) : debited;
+		}
+		case 'creditLimit':
+			if (op.limit < 0n || op.limit > MAX_BALANCE) return err('Invalid credit limit');
+			if (op.limit < getCreditLine(account, side, op.asset).used) return err('Credit limit below used credit');
+			return ok({
+				...account,
+				creditLimits: {
+					...account.creditLimits,
+					[op.asset]: { ...(account.creditLimits[op.asset] ?? { left: 0n, right: 0n }), [side]: op.limit },
+				},
+			});
+		case 'lock': {
+			const { asset, amount, hashlock, expiresAt, route } = op;
+			if (account.locks[hashlock]) return err('Duplicate lock');
+			if (expiresAt <= ts) return err('Lock already expired');
+			const debited = debit(account, side, asset, amount);
+			return debited.ok
+				? ok(
+						withLocks(debited.value, {
+							...account.locks,
+							[hashlock]: { sender: side, asset, amount, hashlock, expiresAt, ...(route ? { route } : {}) },
+						}),
+					)
+				: debited;
+		}
+		case 'settle': {
+			const lock = account.locks[op.hashlock] as HtlcLock | undefined;
+			if (!lock || lock.sender === side) return err('Unknown lock');
+			if (ts >= lock.expiresAt) return err('Lock expired');
+			if (hashlockOf(op.preimage) !== lock.hashlock) return err('Invalid preimage');
+			return credit(withoutLock(account, lock.hashlock), side, lock.asset, lock.amount);
+		}
+		case 'refund': {
+			const lock = account.locks[op.hashlock] as HtlcLock | undefined;
+			if (!lock || lock.sender !== side) return err('Unknown lock');
+			if (ts < lock.expiresAt) return err('Lock not expired');
+			return credit(withoutLock(account, lock.hashlock), side, lock.asset, lock.amount);
+		}
+		case 'cancel': {
+			const lock = account.locks[op.hashlock] as HtlcLock | undefined;
+			if (!lock || lock.sender === side) return err('Unknown lock');
+			return credit(withoutLock(account, lock.hashlock), lock.sender, lock.asset, lock.amount);
+		}
+	}
+};
+
+/**
+ * The first settle or lock among `ops` whose lock has expired at `now`. A receiver checks a frame's
+ * locks against its own clock as well as the frame's, so a backdated frame cannot settle a lock late.
+ */
+export const checkLockExpiry = (account: AccountState, ops: AccountOp[], now: TS): Result<void> => {
+	const expired = ops.find(op => {
+		if (op.kind === 'lock') return op.expiresAt <= now;
+		if (op.kind !== 'settle') return false;
+		const lock = account.locks[op.hashlock] ?? ops.find(o => o.kind === 'lock' && o.hashlock === op.hashlock);
+		return lock !== undefined && now >= lock.expiresAt;
+	});
+	return expired ? err(expired.kind === 'lock' ? 'Lock already expired' : 'Lock expired') : ok(undefined);
+};
+
+/**
+ * Apply one side's ops to an account at frame time `ts` and advance its frame height and time. Both
+ * entities run this same function on the same input, so their copies of the account stay byte-identical.
+ */
+export const applyAccountOps = (
+	account: AccountState,
+	side: AccountSide,
+	ops: AccountOp[],
+	ts: TS,
+): Result<AccountState> => {
+	if (ops.length === 0) return err('Empty account frame');
+	if (ts < account.ts) return err('Account frame older than the last');
+	const applied = ops.reduce<Result<AccountState>>(
+		(result, op) => (result.ok ? applyAccountOp(result.value, side, op, ts) : result),
+		ok(account),
+	);
+	return applied.ok ? ok({ ...applied.value, height: account.height + 1n, ts }) : applied;
+};
@@ -1,23 +1,56 @@
 import { keccak_256 as keccak } from '@noble/hashes/sha3';
-import { canonical } from '../codec/rlp';
-import { DUMMY_SIGNATURE } from '../constants';
-import { type PubKey, verifyAggregate } from '../crypto/bls';
+import { encodeTxPayload, encodeValue, encodeViewChangePayload, hexToBuf } from '../codec/rlp';
+import { ACCOUNT_FRAME_SKEW_MS, DUMMY_SIGNATURE, HTLC_HOP_TIMEOUT_MS } from '../constants';
+import { deriveAddress, verify, verifyPossession } from '../crypto/bls';
 import type {
+	AccountAckTx,
+	AccountFrameTx,
+	AccountMachine,
+	AccountOp,
 	Address,
+	Balances,
+	Board,
 	Command,
 	EntityState,
 	Frame,
+	GovernanceAction,
+	GovernanceTx,
 	Hex,
+	HtlcLock,
 	Input,
+	MemberKey,
+	PaymentRecord,
+	Proposal,
 	ProposedFrame,
 	Quorum,
 	Replica,
+	ReplicaAddr,
 	Result,
+	SupplyAction,
 	TS,
 	Transaction,
+	TxAdmission,
+	TxKind,
+	TxReceipt,
+	UInt64,
+	Vote,
 } from '../types';
-import { err, ok } from '../types';
-import { ADDR_TO_PUB } from './runtime';
+import { err, getAccountKey, getAddrKey, ok } from '../types';
+import {
+	accountSide,
+	applyAccountOps,
+	checkLockExpiry,
+	createAccount,
+	expiredLocks,
+	getCreditLine,
+	hashAccountState,
+	hashlockOf,
+	otherSide,
+} from './account';
+import { verifyHanko } from './hanko';
+import { credit, debit, move } from './ledger';
+import { admitInboundTx, admitMemberTx, dropTxs, mempoolTxs, pruneStaleTxs, readyTxs, restoreTxs } from './mempool';
+import { entityRoot } from './merkle';
 
 export interface ValidateCommitParams {
 	frame: Frame<EntityState>;
@@ -30,6 +63,8 @@ export interface ApplyTxParams {
 	state: EntityState;
 	transaction: Transaction;
 	timestamp: TS;
+	/** Height of the frame being built. */
+	height: UInt64;
 }
 
 export interface ExecFrameParams {
@@ -46,16 +81,29 @@ export interface ApplyCommandParams {
 export interface ApplyCommandResult {
 	replica: Replica;
 	outbox: Input[];
+	/** How the replica's mempool took the tx of an ADD_TX, for the submitter. */
+	admission?: TxAdmission;
 }
 
-export const calculateQuorumPower = (quorum: Quorum, signers: Address[] | Map<Address, Hex>): bigint => {
+export const calculateQuorumPower = (quorum: Board, signers: Address[] | Map<Address, Hex>): bigint => {
 	const addresses = Array.isArray(signers) ? signers : [...signers.keys()];
 	return addresses.reduce((sum, addr) => sum + (quorum.members[addr]?.shares ?? 0n), 0n);
 };
 
-/** Compute canonical hash of a frame's content using keccak256. */
-export const hashFrame = <T>(frame: Frame<T>): Hex => {
-	return `0x${Buffer.from(keccak(canonical(frame))).toString('hex')}`;
+/**
+ * Hash of a transaction's signing payload for the entity at `addrKey`; also identifies the proposal a
+ * `propose` tx opens.
+ */
+export const hashTx = (addrKey: string, tx: Transaction): Hex =>
+	`0x${Buffer.from(keccak(encodeTxPayload(addrKey, tx))).toString('hex')}`;
+
+/**
+ * Keccak256 of a frame's `encodeValue` bytes. The state enters only through its Merkle root,
+ * recomputed here rather than taken from `frame.root`, so the hash still binds the full state.
+ */
+export const hashFrame = (frame: Frame<EntityState>): Hex => {
+	const { height, ts, txs, receipts, state } = frame;
+	return `0x${Buffer.from(keccak(encodeValue({ height, ts, txs, receipts, root: entityRoot(state) }))).toString('hex')}`;
 };
 
 const sortTransaction = (a: Transaction, b: Transaction): number =>
@@ -66,17 +114,23 @@ type Validator<T> = (params: T) => Result<T>;
 const checkHeight: Validator<ValidateCommitParams> = params =>
 	params.frame.height === params.prev.height + 1n ? ok(params) : err('Height mismatch');
 
-const checkStateReplay: Validator<ValidateCommitParams> = params => {
-	const replayResult = execFrame({
-		prev: params.prev,
-		transactions: params.frame.txs,
-		timestamp: params.frame.ts,
-	});
+/**
+ * Re-execute `frame`'s txs over `prev` and hash the frame that yields. Rejected txs travel in the
+ * frame too, so the replay re-checks every receipt, rejections included, before members evict them.
+ */
+export const replayFrame = (prev: Frame<EntityState>, frame: Frame<EntityState>): Result<Hex> => {
+	const replayResult = execFrame({ prev, transactions: frame.txs, timestamp: frame.ts });
 	if (!replayResult.ok) return err('Failed to replay frame');
+	if (!encodeValue(frame.receipts).equals(encodeValue(replayResult.value.receipts))) return err('Receipt mismatch');
 
-	const replayHash = hashFrame(replayResult.value);
-	const frameHash = hashFrame(params.frame);
-	return replayHash === frameHash ? ok(params) : err('State hash mismatch');
+	if (frame.root !== entityRoot(frame.state)) return err('State root mismatch');
+	return ok(hashFrame(replayResult.value));
+};
+
+const checkStateReplay: Validator<ValidateCommitParams> = params => {
+	const replayHash = replayFrame(params.prev, params.frame);
+	if (!replayHash.ok) return replayHash;
+	return replayHash.value === hashFrame(params.frame) ? ok(params) : err('State hash mismatch');
 };
 
 const checkSigningPower: Validator<ValidateCommitParams> = params => {
@@ -86,19 +140,21 @@ const checkSigningPower: Validator<ValidateCommitParams> = params => {
 	return totalPower >= quorum.threshold ? ok(params) : err(`Insufficient power: ${totalPower} < ${quorum.threshold}`);
 };
 
+/** Signers' keys come from the quorum the replica last committed, never from the COMMIT itself. */
 const checkSignatures: Validator<ValidateCommitParams> = params => {
+	const { quorum } = params.prev.state;
 	const uniqueSigners = [...new Set(params.signers)];
-	const pubKeys = uniqueSigners.map(addr => ADDR_TO_PUB.get(addr)).filter((key): key is PubKey => key !== undefined);
 
-	if (pubKeys.length !== uniqueSigners.length) {
+	if (uniqueSigners.some(addr => !quorum.members[addr])) {
 		return err('Missing public keys for some signers');
 	}
 
 	try {
-		const isValid = verifyAggregate({
+		const isValid = verifyHanko({
+			quorum,
+			signers: uniqueSigners,
 			hanko: params.hanko,
 			messageHash: hashFrame(params.frame),
-			publicKeys: pubKeys,
 		});
 		return isValid ? ok(params) : err('Invalid aggregate signature');
 	} catch (e) {
@@ -111,76 +167,731 @@ const compose =
 	params =>
 		validators.reduce<Result<T>>((result, validator) => (result.ok ? validator(result.value) : result), ok(params));
 
+/**
+ * Verdicts on COMMITs already checked, by the frame they commit. Every replica of an entity is sent
+ * the same frame object on top of the same shared `last`, so only the first one replays the frame
+ * and checks its hanko; the others reuse that verdict, which the checks would reproduce exactly.
+ */
+const commitVerdicts = new WeakMap<Frame<EntityState>, { params: ValidateCommitParams; ok: boolean }>();
+
+const isSameCommit = (a: ValidateCommitParams, b: ValidateCommitParams): boolean =>
+	a.prev === b.prev && a.hanko === b.hanko && a.signers.join() === b.signers.join();
+
 /** Validate an incoming COMMIT frame against our current state */
 const validateCommit = (params: ValidateCommitParams): boolean => {
+	const cached = commitVerdicts.get(params.frame);
+	if (cached && isSameCommit(cached.params, params)) return cached.ok;
+
 	const validator = compose(checkHeight, checkStateReplay, checkSigningPower, checkSignatures);
 
 	const result = validator(params);
 	if (!result.ok) console.error(`Commit validation failed: ${result.error}`);
+	commitVerdicts.set(params.frame, { params, ok: result.ok });
 	return result.ok;
 };
 
-/** Apply a single chat transaction to the entity state (assuming nonce and membership are valid). */
-export const applyTx = ({ state, transaction: tx, timestamp }: ApplyTxParams): Result<EntityState> => {
-	if (tx.kind !== 'chat') return err('Unknown tx kind');
+const isKeyOf = (address: Address, publicKey: Hex): boolean => deriveAddress(hexToBuf(publicKey)) === address;
+
+/** Key of the account an inbound account message belongs to. */
+const inboundAccountKey = (tx: AccountFrameTx | AccountAckTx): string =>
+	tx.kind === 'accountAck' ? tx.body.account : getAccountKey(tx.body.frame.state.left, tx.body.frame.state.right);
 
+/**
+ * Check the hanko of an inbound account message over its tx hash. Signing power counts only in the
+ * board the account is bound to, so only that board at its threshold can move the account on, or
+ * rebind it to the board the message carries. A message opening the account binds its own board.
+ */
+const verifyAccountHanko = (state: EntityState, tx: AccountFrameTx | AccountAckTx): Result<Transaction> => {
+	const carried = validateQuorum(tx.body.board);
+	if (!carried.ok) return carried;
+	const bound = state.accounts[inboundAccountKey(tx)]?.peerBoard ?? carried.value;
+
+	const signers = [...new Set(tx.signers)];
+	if (signers.length !== tx.signers.length) return err('Duplicate signers');
+	const power = calculateQuorumPower(bound, signers);
+	if (power < bound.threshold) return err(`Insufficient power: ${power} < ${bound.threshold}`);
+	// members the carried board adds may sign along, but only with the keys it proved
+	const keys = { ...carried.value.members, ...bound.members };
+	if (signers.some(address => !keys[address])) return err('Signer not bound to this account');
+
+	try {
+		const messageHash = hashTx(getAddrKey(state.address), tx);
+		return verifyHanko({ quorum: { ...bound, members: keys }, signers, hanko: tx.sig, messageHash })
+			? ok(tx)
+			: err('Invalid aggregate signature');
+	} catch {
+		return err('Invalid aggregate signature');
+	}
+};
+
+/**
+ * Verify a transaction's signature for `state`'s entity: a member tx against the key `state` holds
+ * for its sender, an inbound account message by its hanko.
+ */
+export const verifyTxSignature = (state: EntityState, tx: Transaction): Result<Transaction> => {
+	if (isInboundAccountTx(tx)) return verifyAccountHanko(state, tx);
+	const record = state.quorum.members[tx.from];
+	if (!record) return err('Unknown signer key');
+
+	try {
+		const message = encodeTxPayload(getAddrKey(state.address), tx);
+		return verify({ message, signature: tx.sig, publicKey: hexToBuf(record.publicKey) })
+			? ok(tx)
+			: err('Invalid signature');
+	} catch {
+		return err('Invalid signature');
+	}
+};
+
+interface TxContext {
+	timestamp: TS;
+	height: UInt64;
+}
+
+type TxHandler = (state: EntityState, tx: Transaction, ctx: TxContext) => Result<EntityState>;
+
+const totalShares = (quorum: Board): bigint =>
+	Object.values(quorum.members).reduce((sum, record) => sum + record.shares, 0n);
+
+/**
+ * Keys and proofs of possession already checked. A proof holds or fails the same way every time, so
+ * every replica importing or replaying the same board pays for each pairing only once.
+ */
+const provenKeys = new Set<string>();
+
+/**
+ * Check a key before it enters a quorum: the member's address must derive from it, and its proof of
+ * possession must hold, so that no member can register a rogue key against the others'.
+ */
+const checkMemberKey = (address: Address, { publicKey, pop }: MemberKey): Result<void> => {
+	if (!isKeyOf(address, publicKey)) return err(`Address ${address} does not match its public key`);
+	const isProven =
+		provenKeys.has(`${publicKey}:${pop}`) ||
+		(() => {
+			try {
+				return verifyPossession(hexToBuf(publicKey), pop);
+			} catch {
+				return false;
+			}
+		})();
+	if (!isProven) return err(`Member ${address} has no valid proof of possession`);
+	// eslint-disable-next-line functional/immutable-data
+	provenKeys.add(`${publicKey}:${pop}`);
+	return ok(undefined);
+};
+
+const checkThreshold = <B extends Board>(quorum: B): Result<B> => {
+	if (quorum.threshold <= 0n) return err('Threshold must be positive');
+	if (totalShares(quorum) < quorum.threshold) return err('Threshold exceeds total shares');
+	return ok(quorum);
+};
+
+/**
+ * Check a board before it is imported or an account binds it: its threshold must be reachable and
+ * every member's key admissible.
+ */
+export const validateQuorum = <B extends Board>(quorum: B): Result<B> => {
+	const reachable = checkThreshold(quorum);
+	if (!reachable.ok) return reachable;
+	const rejected = Object.entries(quorum.members)
+		.map(([address, record]) => checkMemberKey(address as Address, record))
+		.find(result => !result.ok);
+	return rejected && !rejected.ok ? err(rejected.error) : ok(quorum);
+};
+
+/** Install a new quorum, rejecting boards that could never reach their own threshold. */
+const withQuorum = (state: EntityState, quorum: Quorum): Result<EntityState> => {
+	const reachable = checkThreshold(quorum);
+	return reachable.ok ? ok({ ...state, quorum }) : reachable;
+};
+
+/** Apply a board change, either directly from a governance tx or from an approved proposal. */
+const applyGovernance = (state: EntityState, action: GovernanceAction): Result<EntityState> => {
+	const { members } = state.quorum;
+	switch (action.kind) {
+		case 'addMember': {
+			const { address, publicKey, pop, shares } = action.body;
+			if (members[address]) return err('Already a member');
+			if (shares <= 0n) return err('Shares must be positive');
+			const admissible = checkMemberKey(address, action.body);
+			if (!admissible.ok) return admissible;
+			return withQuorum(state, {
+				...state.quorum,
+				members: { ...members, [address]: { nonce: 0n, shares, publicKey, pop } },
+			});
+		}
+		case 'removeMember': {
+			const { address } = action.body;
+			if (!members[address]) return err('Not a member');
+			const remaining = Object.fromEntries(
+				Object.entries(members).filter(([addr]) => addr !== address),
+			) as Quorum['members'];
+			return withQuorum(state, { ...state.quorum, members: remaining });
+		}
+		case 'setShares': {
+			const { address, shares } = action.body;
+			const record = members[address];
+			if (!record) return err('Not a member');
+			if (shares <= 0n) return err('Shares must be positive');
+			return withQuorum(state, { ...state.quorum, members: { ...members, [address]: { ...record, shares } } });
+		}
+		case 'setThreshold':
+			return withQuorum(state, { ...state.quorum, threshold: action.body.threshold });
+	}
+};
+
+const isGovernanceTx = (tx: Transaction): tx is GovernanceTx =>
+	tx.kind === 'addMember' || tx.kind === 'removeMember' || tx.kind === 'setShares' || tx.kind === 'setThreshold';
+
+const applyChat: TxHandler = (state, tx, { timestamp }) =>
+	tx.kind === 'chat'
+		? ok({ ...state, chat: [...state.chat, { from: tx.from, msg: tx.body.message, ts: timestamp }] })
+		: err('Unknown tx kind');
+
+/** As with supply, a single member may change the board directly only if their shares alone meet the threshold. */
+const applyGovernanceTx: TxHandler = (state, tx) => {
+	if (!isGovernanceTx(tx)) return err('Unknown tx kind');
+	if (calculateQuorumPower(state.quorum, [tx.from]) < state.quorum.threshold) return err('Requires quorum approval');
+	return applyGovernance(state, tx);
+};
+
+const withBalances = (state: EntityState, balances: Result<Balances>): Result<EntityState> =>
+	balances.ok ? ok({ ...state, balances: balances.value }) : balances;
+
+/** Mint into or burn from a holder's balance; callers must have established quorum approval. */
+const applySupply = (state: EntityState, action: SupplyAction): Result<EntityState> => {
+	const entry = { balances: state.balances, ...action.body };
+	return withBalances(state, action.kind === 'mint' ? credit(entry) : debit(entry));
+};
+
+const applyTransfer: TxHandler = (state, tx) =>
+	tx.kind === 'transfer'
+		? withBalances(state, move({ balances: state.balances, from: tx.from, ...tx.body }))
+		: err('Unknown tx kind');
+
+/** A single member may change supply directly only if their shares alone meet the threshold. */
+const applySupplyTx: TxHandler = (state, tx) => {
+	if (tx.kind !== 'mint' && tx.kind !== 'burn') return err('Unknown tx kind');
+	if (calculateQuorumPower(state.quorum, [tx.from]) < state.quorum.threshold) return err('Requires quorum approval');
+	return applySupply(state, tx);
+};
+
+const withProposal = (state: EntityState, proposal: Proposal): EntityState => ({
+	...state,
+	proposals: { ...state.proposals, [proposal.id]: proposal },
+});
+
+/** Open a proposal identified by its tx hash; the proposer's own vote counts as yes. */
+const applyPropose: TxHandler = (state, tx, { height }) => {
+	if (tx.kind !== 'propose') return err('Unknown tx kind');
+	if (tx.body.expiresAt < height) return err('Proposal already expired');
+
+	const id = hashTx(getAddrKey(state.address), tx);
+	if (state.proposals[id]) return err('Duplicate proposal');
+
+	return ok(
+		withProposal(state, {
+			id,
+			proposer: tx.from,
+			action: tx.body.action,
+			votes: { [tx.from]: 'yes' },
+			status: 'pending',
+			expiresAt: tx.body.expiresAt,
+		}),
+	);
+};
+
+const applyVote: TxHandler = (state, tx, { height }) => {
+	if (tx.kind !== 'vote') return err('Unknown tx kind');
+
+	const proposal = state.proposals[tx.body.proposalId];
+	if (!proposal) return err('Unknown proposal');
+	if (proposal.status !== 'pending' || height > proposal.expiresAt) return err('Proposal not pending');
+	if (proposal.votes[tx.from]) return err('Already voted');
+
+	return ok(withProposal(state, { ...proposal, votes: { ...proposal.votes, [tx.from]: tx.body.vote } }));
+};
+
+const withAccount = (state: EntityState, key: string, machine: AccountMachine): EntityState => ({
+	...state,
+	accounts: { ...state.accounts, [key]: machine },
+});
+
+const withPayment = (state: EntityState, hashlock: Hex, record: PaymentRecord): EntityState => ({
+	...state,
+	payments: { ...state.payments, [hashlock]: { ...state.payments[hashlock], ...record } },
+});
+
+/** Stage ops on our side of an account; they take effect once the counterparty acknowledges the frame. */
+const stageAccountOps = (
+	state: EntityState,
+	counterparty: ReplicaAddr,
+	ops: AccountOp[],
+	ts: TS,
+): Result<EntityState> => {
+	if (getAddrKey(counterparty) === getAddrKey(state.address)) return err('Account requires two entities');
+
+	const key = getAccountKey(state.address, counterparty);
+	const machine = state.accounts[key] ?? { state: createAccount(state.address, counterparty), sigs: {} };
+	if (machine.pending) return err('Account frame pending');
+
+	const side = accountSide(machine.state, state.address);
+	if (!side) return err('Not a counterparty of this account');
+	const next = applyAccountOps(machine.state, side, ops, ts);
+	if (!next.ok) return next;
+	return ok(
+		withAccount(state, key, {
+			...machine,
+			pending: { height: next.value.height, ts, proposer: side, ops, state: next.value },
+		}),
+	);
+};
+
+/** Debit a member's ledger balance by the deposits among `ops`, or credit them back with `entry = credit`. */
+const fundDeposits = (balances: Balances, holder: Address, ops: AccountOp[], entry: typeof debit): Result<Balances> =>
+	ops.reduce<Result<Balances>>(
+		(acc, op) =>
+			acc.ok && op.kind === 'deposit'
+				? entry({ balances: acc.value, address: holder, asset: op.asset, amount: op.amount })
+				: acc,
+		ok(balances),
+	);
+
+/** Stage a member's ops; the deposits among them are paid out of that member's ledger balance. */
+const applyAccountPropose: TxHandler = (state, tx, { timestamp }) => {
+	if (tx.kind !== 'accountPropose') return err('Unknown tx kind');
+	const { counterparty, ops } = tx.body;
+	const funded = fundDeposits(state.balances, tx.from, ops, debit);
+	if (!funded.ok) return funded;
+
+	const staged = stageAccountOps({ ...state, balances: funded.value }, counterparty, ops, timestamp);
+	if (!staged.ok || !ops.some(op => op.kind === 'deposit')) return staged;
+	const key = getAccountKey(state.address, counterparty);
+	return ok(withAccount(staged.value, key, { ...staged.value.accounts[key], funder: tx.from }));
+};
+
+/** Change the credit we extend to a counterparty; the new limit reaches them as an account frame. */
+const applyCreditLimit: TxHandler = (state, tx, { timestamp }) => {
+	if (tx.kind !== 'setCreditLimit' && tx.kind !== 'lowerCreditLimit') return err('Unknown tx kind');
+	const { counterparty, asset, limit } = tx.body;
+
+	const account = state.accounts[getAccountKey(state.address, counterparty)]?.state;
+	const side = account ? accountSide(account, state.address) : undefined;
+	const current = account && side ? getCreditLine(account, side, asset).limit : 0n;
+	if (tx.kind === 'setCreditLimit' && limit < current) return err('Credit limit can only be raised');
+	if (tx.kind === 'lowerCreditLimit' && limit >= current) return err('Credit limit can only be lowered');
+
+	return stageAccountOps(state, counterparty, [{ kind: 'creditLimit', asset, limit }], timestamp);
+};
+
+/**
+ * Accept a counterparty frame after replaying its ops on our copy of the account at the frame's time.
+ * The frame may lag our own frame time by `ACCOUNT_FRAME_SKEW_MS` at most, and its locks must still
+ * hold at our time, so a backdated frame settles nothing late. If both sides
+ * proposed the same height, the left side's frame wins: the left ignores the right's frame, and the
+ * right rebases its own pending ops onto the accepted state (dropping them if they no longer apply).
+ */
+const applyAccountFrame: TxHandler = (state, tx, { timestamp }) => {
+	if (tx.kind !== 'accountFrame') return err('Unknown tx kind');
+	const { frame } = tx.body;
+	const side = accountSide(frame.state, state.address);
+	if (!side || side === frame.proposer) return err('Not a counterparty of this account');
+
+	const key = getAccountKey(frame.state.left, frame.state.right);
+	const machine = state.accounts[key] ?? { state: createAccount(frame.state.left, frame.state.right), sigs: {} };
+	if (frame.height !== machine.state.height + 1n) return err('Account height mismatch');
+	if (frame.ts > timestamp) return err('Account frame from the future');
+	if (frame.ts < timestamp - ACCOUNT_FRAME_SKEW_MS) return err('Account frame too old');
+	if (machine.pending && side === 'left') return ok(state);
+
+	const replayed = applyAccountOps(machine.state, frame.proposer, frame.ops, frame.ts);
+	if (!replayed.ok) return replayed;
+	const current = checkLockExpiry(machine.state, frame.ops, timestamp);
+	if (!current.ok) return current;
+	if (hashAccountState(replayed.value) !== hashAccountState(frame.state)) return err('Account state mismatch');
+
+	const ownOps = machine.pending?.ops ?? [];
+	const rebased = ownOps.length > 0 ? applyAccountOps(frame.state, side, ownOps, timestamp) : undefined;
+	// dropped ops return what their deposits took from the member who funded them
+	const refunded =
+		rebased && !rebased.ok && machine.funder ? fundDeposits(state.balances, machine.funder, ownOps, credit) : undefined;
+	const accepted = withAccount(refunded?.ok ? { ...state, balances: refunded.value } : state, key, {
+		state: frame.state,
+		sigs: { [frame.proposer]: tx.sig },
+		peerBoard: tx.body.board,
+		...(rebased?.ok
+			? {
+					pending: { height: rebased.value.height, ts: timestamp, proposer: side, ops: ownOps, state: rebased.value },
+					funder: machine.funder,
+				}
+			: {}),
+	});
+	// a settled lock of ours reveals the preimage we need to settle the payment upstream
+	return ok(
+		frame.ops.reduce(
+			(acc, op) => (op.kind === 'settle' ? withPayment(acc, op.hashlock, { preimage: op.preimage }) : acc),
+			accepted,
+		),
+	);
+};
+
+/** Finalize our pending frame once the counterparty acknowledges exactly that state. */
+const applyAccountAck: TxHandler = (state, tx) => {
+	if (tx.kind !== 'accountAck') return err('Unknown tx kind');
+	const { account, height, stateHash } = tx.body;
+	const pending = state.accounts[account]?.pending;
+	if (!pending || pending.height !== height || hashAccountState(pending.state) !== stateHash) {
+		return err('No matching pending account frame');
+	}
+	return ok(
+		withAccount(state, account, {
+			state: pending.state,
+			sigs: { [otherSide(pending.proposer)]: tx.sig },
+			peerBoard: tx.body.board,
+		}),
+	);
+};
+
+const applyInvoice: TxHandler = (state, tx) =>
+	tx.kind === 'invoice'
+		? ok(withPayment(state, hashlockOf(tx.body.preimage), { preimage: tx.body.preimage }))
+		: err('Unknown tx kind');
+
+const isInboundAccountTx = (tx: Transaction): tx is AccountFrameTx | AccountAckTx =>
+	tx.kind === 'accountFrame' || tx.kind === 'accountAck';
+
+const txHandlers: Record<TxKind, TxHandler> = {
+	chat: applyChat,
+	addMember: applyGovernanceTx,
+	removeMember: applyGovernanceTx,
+	setShares: applyGovernanceTx,
+	setThreshold: applyGovernanceTx,
+	propose: applyPropose,
+	vote: applyVote,
+	transfer: applyTransfer,
+	mint: applySupplyTx,
+	burn: applySupplyTx,
+	accountPropose: applyAccountPropose,
+	accountFrame: applyAccountFrame,
+	accountAck: applyAccountAck,
+	setCreditLimit: applyCreditLimit,
+	lowerCreditLimit: applyCreditLimit,
+	invoice: applyInvoice,
+};
+
+/**
+ * Apply a single transaction to the entity state, checking membership, nonce and signature.
+ * Governance kinds change `quorum` for the next frame only: the frame carrying them is still
+ * signed and validated against the quorum of the previous frame.
+ * Inbound account messages come from the counterparty's signers, so only their signature is checked,
+ * against the keys the account is bound to.
+ */
+export const applyTx = ({ state, transaction: tx, timestamp, height }: ApplyTxParams): Result<EntityState> => {
+	const handler = txHandlers[tx.kind] as TxHandler | undefined;
+	if (!handler) return err('Unknown tx kind');
+
+	if (isInboundAccountTx(tx)) {
+		const sigResult = verifyTxSignature(state, tx);
+		return sigResult.ok ? handler(state, tx, { timestamp, height }) : sigResult;
+	}
+
+	const authorized = authorizeTx(state, tx);
+	return authorized.ok ? handler(authorized.value, tx, { timestamp, height }) : authorized;
+};
+
+/** Check a member tx's signer, nonce and signature, and use up its nonce. */
+const authorizeTx = (state: EntityState, tx: Transaction): Result<EntityState> => {
 	const record = state.quorum.members[tx.from];
 	if (!record) return err('Signer not in quorum');
 	if (tx.nonce !== record.nonce) return err('Bad nonce');
 
+	const sigResult = verifyTxSignature(state, tx);
+	if (!sigResult.ok) return sigResult;
+
 	return ok({
+		...state,
 		quorum: {
 			...state.quorum,
-			members: {
-				...state.quorum.members,
-				[tx.from]: { nonce: record.nonce + 1n, shares: record.shares },
-			},
+			members: { ...state.quorum.members, [tx.from]: { ...record, nonce: record.nonce + 1n } },
 		},
-		chat: [...state.chat, { from: tx.from, msg: tx.body.message, ts: timestamp }],
 	});
 };
 
-/** Execute a batch of transactions on the previous frame's state to produce a new Frame. */
+/**
+ * State after a tx fails. A member tx that its sender did sign, at the sender's next nonce, still uses
+ * that nonce up, so the sender's later txs in the same frame can apply rather than all fail behind it.
+ */
+const afterRejection = (state: EntityState, tx: Transaction): EntityState => {
+	if (isInboundAccountTx(tx)) return state;
+	const authorized = authorizeTx(state, tx);
+	return authorized.ok ? authorized.value : state;
+};
+
+const executeAction = (state: EntityState, proposal: Proposal, timestamp: TS): Result<EntityState> => {
+	const { action } = proposal;
+	switch (action.kind) {
+		case 'collectiveMessage':
+			return ok({
+				...state,
+				chat: [...state.chat, { from: proposal.proposer, msg: action.body.message, ts: timestamp }],
+			});
+		case 'mint':
+		case 'burn':
+			return applySupply(state, action);
+		case 'addMember':
+		case 'removeMember':
+		case 'setShares':
+		case 'setThreshold':
+			return applyGovernance(state, action);
+	}
+};
+
+const tally = (quorum: Quorum, proposal: Proposal, vote: Vote): bigint =>
+	calculateQuorumPower(
+		quorum,
+		(Object.keys(proposal.votes) as Address[]).filter(addr => proposal.votes[addr] === vote),
+	);
+
+/**
+ * Settle one pending proposal against the current board: execute it once yes-shares reach the
+ * threshold, reject it once no-shares make that impossible, expire it after its last voting height.
+ * An approved action that fails to apply is recorded as rejected.
+ */
+const settleProposal = (state: EntityState, proposal: Proposal, { timestamp, height }: TxContext): EntityState => {
+	const { quorum } = state;
+	if (tally(quorum, proposal, 'yes') >= quorum.threshold) {
+		const executed = executeAction(state, proposal, timestamp);
+		return executed.ok
+			? withProposal(executed.value, { ...proposal, status: 'executed' })
+			: withProposal(state, { ...proposal, status: 'rejected' });
+	}
+	if (totalShares(quorum) - tally(quorum, proposal, 'no') < quorum.threshold) {
+		return withProposal(state, { ...proposal, status: 'rejected' });
+	}
+	return height >= proposal.expiresAt ? withProposal(state, { ...proposal, status: 'expired' }) : state;
+};
+
+const settleProposals = (state: EntityState, ctx: TxContext): EntityState => {
+	const pending = Object.values(state.proposals).filter(p => p.status === 'pending');
+	// eslint-disable-next-line fp/no-mutating-methods
+	const ordered = [...pending].sort((a, b) => a.id.localeCompare(b.id));
+	return ordered.reduce((acc, proposal) => settleProposal(acc, proposal, ctx), state);
+};
+
+/** Accounts where we hold expired locks and no frame of ours is in flight, ordered by key. */
+const accountsToRefund = (state: EntityState, now: TS): string[] =>
+	// eslint-disable-next-line fp/no-mutating-methods
+	Object.keys(state.accounts)
+		.filter(key => {
+			const { state: account, pending } = state.accounts[key];
+			const side = accountSide(account, state.address);
+			return !pending && side !== undefined && expiredLocks(account, side, now).length > 0;
+		})
+		.sort();
+
+/** Stage a refund frame for every account with expired locks of ours. */
+const refundExpiredLocks = (state: EntityState, timestamp: TS): EntityState =>
+	accountsToRefund(state, timestamp).reduce((acc, key) => {
+		const { state: account } = acc.accounts[key];
+		const side = accountSide(account, acc.address);
+		if (!side) return acc;
+		const ops = expiredLocks(account, side, timestamp).map(({ hashlock }) => ({ kind: 'refund' as const, hashlock }));
+		const staged = stageAccountOps(acc, account[otherSide(side)], ops, timestamp);
+		return staged.ok ? staged.value : acc;
+	}, state);
+
+const holdsLock = (machine: AccountMachine | undefined, hashlock: Hex): boolean =>
+	machine !== undefined && (hashlock in machine.state.locks || hashlock in (machine.pending?.state.locks ?? {}));
+
+/**
+ * Move one lock we received along its route: settle it once the preimage is known, forward it to the
+ * next hop with a shorter timeout, or cancel it back to the sender when it cannot be forwarded, we are
+ * the payee without an invoice, or the lock we forwarded came back unpaid. An account with a frame in
+ * flight is left for a later frame.
+ */
+const routeLock = (state: EntityState, counterparty: ReplicaAddr, lock: HtlcLock, timestamp: TS): EntityState => {
+	const { hashlock, route } = lock;
+	const { preimage, forwarded } = state.payments[hashlock] ?? {};
+	const resolve = (op: AccountOp): EntityState => {
+		const staged = stageAccountOps(state, counterparty, [op], timestamp);
+		return staged.ok ? staged.value : state;
+	};
+
+	if (preimage) return timestamp < lock.expiresAt ? resolve({ kind: 'settle', hashlock, preimage }) : state;
+	if (!route) return state;
+	if (route.length === 0) return resolve({ kind: 'cancel', hashlock });
+	if (forwarded) return holdsLock(state.accounts[forwarded], hashlock) ? state : resolve({ kind: 'cancel', hashlock });
+
+	const [next, ...rest] = route;
+	const outgoing = getAccountKey(state.address, next);
+	if (state.accounts[outgoing]?.pending) return state;
+	const { asset, amount } = lock;
+	const expiresAt = lock.expiresAt - HTLC_HOP_TIMEOUT_MS;
+	const staged = stageAccountOps(
+		state,
+		next,
+		[{ kind: 'lock', asset, amount, hashlock, expiresAt, route: rest }],
+		timestamp,
+	);
+	return staged.ok
+		? withPayment(staged.value, hashlock, { forwarded: outgoing })
+		: resolve({ kind: 'cancel', hashlock });
+};
+
+/** Route the locks our counterparties sent us, in account key and hashlock order. */
+const routePayments = (state: EntityState, timestamp: TS): EntityState =>
+	// eslint-disable-next-line fp/no-mutating-methods
+	[...Object.keys(state.accounts)].sort().reduce((acc, key) => {
+		const side = accountSide(acc.accounts[key].state, acc.address);
+		if (!side) return acc;
+		// eslint-disable-next-line fp/no-mutating-methods
+		const received = Object.values(acc.accounts[key].state.locks)
+			.filter(lock => lock.sender !== side)
+			.sort((a, b) => a.hashlock.localeCompare(b.hashlock));
+		return received.reduce(
+			(inner, lock) =>
+				inner.accounts[key].pending
+					? inner
+					: routeLock(inner, acc.accounts[key].state[otherSide(side)], lock, timestamp),
+			acc,
+		);
+	}, state);
+
+/** Account frames an entity stages by itself at the end of every frame: HTLC refunds and routing. */
+const automateAccounts = (state: EntityState, timestamp: TS): EntityState =>
+	routePayments(refundExpiredLocks(state, timestamp), timestamp);
+
+/** Whether a frame proposed at `now` would stage account frames, even with an empty mempool. */
+export const hasAccountWork = (state: EntityState, now: TS): boolean => automateAccounts(state, now) !== state;
+
+/**
+ * Execute a batch of transactions on the previous frame's state to produce a new Frame. A tx that
+ * fails is left out of the frame and the state, and its receipt records why; the rest still apply.
+ */
 export const execFrame = ({ prev, transactions, timestamp }: ExecFrameParams): Result<Frame<EntityState>> => {
 	// eslint-disable-next-line fp/no-mutating-methods
 	const orderedTxs = [...transactions].sort(sortTransaction);
 
-	const finalStateResult = orderedTxs.reduce<Result<EntityState>>(
-		(stateResult, tx) =>
-			stateResult.ok ? applyTx({ state: stateResult.value, transaction: tx, timestamp }) : stateResult,
-		ok(prev.state),
+	const height = prev.height + 1n;
+	const addrKey = getAddrKey(prev.state.address);
+
+	const executed = orderedTxs.reduce<{ state: EntityState; txs: Transaction[]; receipts: TxReceipt[] }>(
+		(acc, tx) => {
+			const result = applyTx({ state: acc.state, transaction: tx, timestamp, height });
+			const receipt = { txHash: hashTx(addrKey, tx), from: tx.from, nonce: tx.nonce };
+			return result.ok
+				? {
+						state: result.value,
+						txs: [...acc.txs, tx],
+						receipts: [...acc.receipts, { ...receipt, status: 'applied' }],
+					}
+				: {
+						state: afterRejection(acc.state, tx),
+						txs: [...acc.txs, tx],
+						receipts: [...acc.receipts, { ...receipt, status: 'rejected', reason: result.error }],
+					};
+		},
+		{ state: prev.state, txs: [], receipts: [] },
 	);
 
-	return finalStateResult.ok
-		? ok({
-				height: prev.height + 1n,
-				ts: timestamp,
-				txs: orderedTxs,
-				state: finalStateResult.value,
-			})
-		: finalStateResult;
+	const state = automateAccounts(settleProposals(executed.state, { timestamp, height }), timestamp);
+	return ok({ height, ts: timestamp, txs: executed.txs, receipts: executed.receipts, state, root: entityRoot(state) });
 };
 
 type CommandHandler<T extends Command = Command> = (replica: Replica, command: T) => ApplyCommandResult;
 
+/**
+ * Designated proposer for a height and view: members take turns in address order, and each view
+ * change at the same height moves the turn to the next member.
+ */
+export const selectProposer = (quorum: Quorum, height: UInt64, view: number): Address => {
+	// eslint-disable-next-line fp/no-mutating-methods
+	const members = (Object.keys(quorum.members) as Address[]).sort();
+	return members[Number((height + BigInt(view)) % BigInt(members.length))];
+};
+
+const isKnownTx = (replica: Replica, tx: Transaction): boolean =>
+	[...mempoolTxs(replica.mempool), ...(replica.proposal?.txs ?? [])].some(t => t.sig === tx.sig);
+
+/**
+ * Relay a newly admitted message to the other members' replicas, so whoever proposes next has it. The
+ * copies go as RELAY commands, which are not relayed again, so a message costs one relay per member
+ * rather than one per pair of members.
+ */
+const relayToMembers = (replica: Replica, { addrKey, tx }: { addrKey: string; tx: Transaction }): Input[] =>
+	(Object.keys(replica.last.state.quorum.members) as Address[])
+		.filter(member => member !== replica.proposer)
+		.map(member => ({ from: replica.proposer, to: member, cmd: { type: 'RELAY', addrKey, tx } }));
+
+/**
+ * Queue a member's tx in its sender's nonce queue and relay it, answering the submitter with how it
+ * was admitted. A relayed copy of a tx that has already committed comes back as a stale nonce.
+ */
 const handleAddTx: CommandHandler = (replica, command) => {
 	if (command.type !== 'ADD_TX') return { replica, outbox: [] };
-	if (replica.mempool.some(t => t.sig === command.tx.sig)) return { replica, outbox: [] };
-	return { replica: { ...replica, mempool: [...replica.mempool, command.tx] }, outbox: [] };
+	const { tx } = command;
+	const admission = (status: TxAdmission['status'], reason?: string): TxAdmission => ({
+		txHash: hashTx(command.addrKey, tx),
+		from: tx.from,
+		nonce: tx.nonce,
+		replica: `${command.addrKey}:${replica.proposer}`,
+		status,
+		...(reason === undefined ? {} : { reason }),
+	});
+	const reject = (reason: string): ApplyCommandResult => {
+		console.log(`ADD_TX rejected: ${reason}`);
+		return { replica, outbox: [], admission: admission('rejected', reason) };
+	};
+
+	if (isKnownTx(replica, tx)) return { replica, outbox: [], admission: admission('duplicate') };
+	const record = replica.last.state.quorum.members[tx.from];
+	if (!record) return reject('Signer not in quorum');
+	if (tx.nonce < record.nonce) return { replica, outbox: [], admission: admission('rejected', 'Stale nonce') };
+
+	const sigResult = verifyTxSignature(replica.last.state, tx);
+	if (!sigResult.ok) return reject(sigResult.error);
+
+	const admitted = admitMemberTx(replica.mempool, tx, record.nonce);
+	if (!admitted.ok) return reject(admitted.error);
+
+	return {
+		replica: { ...replica, mempool: admitted.value.mempool },
+		outbox: relayToMembers(replica, command),
+		admission: admission(admitted.value.status),
+	};
+};
+
+/**
+ * The frame members reported signing at the next height in an earlier view, if it still replays over
+ * the last committed frame. Members locked on it sign no other frame there, so it is proposed again.
+ */
+const lockedFrame = (replica: Replica): Frame<EntityState> | undefined => {
+	const { locked, last } = replica;
+	if (!locked || locked.frame.height !== last.height + 1n) return undefined;
+	const replayed = replayFrame(last, locked.frame);
+	return replayed.ok && replayed.value === hashFrame(locked.frame) ? locked.frame : undefined;
 };
 
 const handlePropose: CommandHandler = (replica, command) => {
 	if (command.type !== 'PROPOSE') return { replica, outbox: [] };
 
-	if (replica.isAwaitingSignatures || replica.mempool.length === 0) {
+	const locked = lockedFrame(replica);
+	// txs behind a nonce gap wait in the mempool until the missing ones arrive
+	const transactions = locked?.txs ?? readyTxs(replica.mempool, replica.last.state.quorum);
+	if (
+		replica.isAwaitingSignatures ||
+		(!locked && transactions.length === 0 && !hasAccountWork(replica.last.state, command.ts))
+	) {
 		return { replica, outbox: [] };
 	}
 
-	const frameResult = execFrame({
-		prev: replica.last,
-		transactions: replica.mempool,
-		timestamp: command.ts,
-	});
+	const frameResult = locked
+		? ok(locked)
+		: execFrame({
+				prev: replica.last,
+				transactions,
+				timestamp: command.ts,
+			});
 
 	if (!frameResult.ok) {
 		console.log(`PROPOSE failed: ${frameResult.error}`);
@@ -194,15 +905,17 @@ const handlePropose: CommandHandler = (replica, command) => {
 	const proposal: ProposedFrame<EntityState> = {
 		...frame,
 		hash: hashFrame(frame),
+		view: replica.view,
 		sigs:
 			needsProposerSig && replica.proposer
 				? new Map<Address, Hex>([[replica.proposer, DUMMY_SIGNATURE]])
 				: new Map<Address, Hex>(),
 	};
 
+	const proposed = new Set(transactions.map(tx => tx.sig));
 	const updatedReplica = {
 		...replica,
-		mempool: [],
+		mempool: dropTxs(replica.mempool, tx => proposed.has(tx.sig)),
 		isAwaitingSignatures: true,
 		proposal,
 	};
@@ -215,6 +928,7 @@ const handlePropose: CommandHandler = (replica, command) => {
 			type: 'SIGN' as const,
 			addrKey: command.addrKey,
 			signer: s as Address,
+			view: proposal.view,
 			frameHash: proposal.hash,
 			sig: DUMMY_SIGNATURE,
 		},
@@ -229,8 +943,8 @@ const handleSign: CommandHandler = (replica, command) => {
 	const { proposal, isAwaitingSignatures, last } = replica;
 	if (!isAwaitingSignatures || !proposal) return { replica, outbox: [] };
 
-	const { frameHash, signer, sig } = command;
-	if (frameHash !== proposal.hash) return { replica, outbox: [] };
+	const { frameHash, signer, view, sig } = command;
+	if (frameHash !== proposal.hash || view !== proposal.view) return { replica, outbox: [] };
 	if (!last.state.quorum.members[signer]) return { replica, outbox: [] };
 	if (proposal.sigs.has(signer)) return { replica, outbox: [] };
 
@@ -250,7 +964,16 @@ const handleSign: CommandHandler = (replica, command) => {
 	const newPower = calculateQuorumPower(quorum, updatedProposal.sigs);
 
 	if (prevPower < quorum.threshold && newPower >= quorum.threshold) {
-		// Threshold reached: generate COMMIT commands for all replicas
+		// Threshold reached: generate COMMIT commands for all replicas, all carrying one frame object
+		// so the replicas that commit it share it as their `last`
+		const frame: Frame<EntityState> = {
+			height: updatedProposal.height,
+			ts: updatedProposal.ts,
+			txs: updatedProposal.txs,
+			receipts: updatedProposal.receipts,
+			state: updatedProposal.state,
+			root: updatedProposal.root,
+		};
 		const outbox: Input[] = Object.keys(quorum.members).map(signerAddr => ({
 			from: replica.proposer,
 			to: signerAddr as Address,
@@ -258,12 +981,7 @@ const handleSign: CommandHandler = (replica, command) => {
 				type: 'COMMIT' as const,
 				addrKey: command.addrKey,
 				hanko: DUMMY_SIGNATURE,
-				frame: {
-					height: updatedProposal.height,
-					ts: updatedProposal.ts,
-					txs: updatedProposal.txs,
-					state: updatedProposal.state,
-				},
+				frame,
 				signers: [],
 				_sigs: Object.fromEntries(updatedProposal.sigs),
 			},
@@ -274,6 +992,102 @@ const handleSign: CommandHandler = (replica, command) => {
 	return { replica: updatedReplica, outbox: [] };
 };
 
+/** An entity's board as its account messages carry it: the quorum without the members' nonces. */
+export const boardOf = (quorum: Quorum): Board => ({
+	threshold: quorum.threshold,
+	members: Object.fromEntries(
+		Object.entries(quorum.members).map(([address, { publicKey, pop, shares }]) => [
+			address,
+			{ publicKey, pop, shares },
+		]),
+	),
+});
+
+/** Address key of the entity that sends an account message to the entity at `receiver`. */
+export const accountSender = (tx: AccountFrameTx | AccountAckTx, receiver: string): string =>
+	tx.kind === 'accountFrame'
+		? getAddrKey(tx.body.frame.state[tx.body.frame.proposer])
+		: (tx.body.account.split('|').find(key => key !== receiver) ?? receiver);
+
+/**
+ * Whether `state`, an entity's last committed state, stands behind an account message of that entity:
+ * the message carries the entity's board, and either proposes the frame the entity has pending or
+ * acknowledges the state its account is at. A member's signer adds to a message's hanko only then.
+ */
+export const checkAccountMessage = (state: EntityState, tx: AccountFrameTx | AccountAckTx): Result<void> => {
+	if (!encodeValue(tx.body.board).equals(encodeValue(boardOf(state.quorum)))) return err('Board mismatch');
+	if (tx.kind === 'accountFrame') {
+		const { frame } = tx.body;
+		const pending = state.accounts[getAccountKey(frame.state.left, frame.state.right)]?.pending;
+		return pending && encodeValue(pending).equals(encodeValue(frame)) ? ok(undefined) : err('No such pending frame');
+	}
+	const account = state.accounts[tx.body.account]?.state;
+	return account && account.height === tx.body.height && hashAccountState(account) === tx.body.stateHash
+		? ok(undefined)
+		: err('Account not at the acknowledged state');
+};
+
+/**
+ * Account messages the proposing replica sends once a frame commits: an acknowledgement for each
+ * counterparty frame the entity accepted, then each of our frames that became pending.
+ */
+const accountOutbox = (replica: Replica, frame: Frame<EntityState>): Input[] => {
+	const { accounts } = frame.state;
+	const message = (cmd: Command): Input => ({ from: replica.proposer, to: replica.proposer, cmd });
+	// the counterparty holds none of our keys, so each message carries our board as this frame left it
+	const board = boardOf(frame.state.quorum);
+
+	const acks = frame.txs
+		.filter((tx): tx is AccountFrameTx => tx.kind === 'accountFrame')
+		.filter(tx => {
+			const machine = accounts[getAccountKey(tx.body.frame.state.left, tx.body.frame.state.right)];
+			return machine !== undefined && hashAccountState(machine.state) === hashAccountState(tx.body.frame.state);
+		})
+		.map(({ body: { frame: accepted } }) =>
+			message({
+				type: 'ACCOUNT_ACK',
+				addrKey: getAddrKey(accepted.state[accepted.proposer]),
+				tx: {
+					kind: 'accountAck',
+					nonce: accepted.height,
+					from: replica.proposer,
+					body: {
+						account: getAccountKey(accepted.state.left, accepted.state.right),
+						height: accepted.height,
+						stateHash: hashAccountState(accepted.state),
+						board,
+					},
+					signers: [],
+					sig: DUMMY_SIGNATURE,
+				},
+			}),
+		);
+
+	// eslint-disable-next-line fp/no-mutating-methods
+	const keys = Object.keys(accounts).sort();
+	const proposals = keys.flatMap(key => {
+		const { pending } = accounts[key];
+		const before = replica.last.state.accounts[key]?.pending;
+		if (!pending || (before && hashAccountState(before.state) === hashAccountState(pending.state))) return [];
+		return [
+			message({
+				type: 'ACCOUNT_PROPOSE',
+				addrKey: getAddrKey(pending.state[otherSide(pending.proposer)]),
+				tx: {
+					kind: 'accountFrame',
+					nonce: pending.height,
+					from: replica.proposer,
+					body: { frame: pending, board },
+					signers: [],
+					sig: DUMMY_SIGNATURE,
+				},
+			}),
+		];
+	});
+
+	return [...acks, ...proposals];
+};
+
 const handleCommit: CommandHandler = (replica, command) => {
 	if (command.type !== 'COMMIT') return { replica, outbox: [] };
 
@@ -286,7 +1100,13 @@ const handleCommit: CommandHandler = (replica, command) => {
 
 	if (!isValid) return { replica, outbox: [] };
 
-	const newMempool = replica.mempool.filter(tx => !command.frame.txs.some(c => c.sig === tx.sig));
+	// rejected txs leave the mempool too: the frame carries them and the replay re-checked their receipts.
+	// Matching by signature keeps a proposer from evicting a tx with a forged copy of its payload.
+	const settled = new Set(command.frame.txs.map(tx => tx.sig));
+	const newMempool = pruneStaleTxs(
+		dropTxs(replica.mempool, tx => settled.has(tx.sig)),
+		command.frame.state.quorum,
+	);
 
 	return {
 		replica: {
@@ -295,6 +1115,112 @@ const handleCommit: CommandHandler = (replica, command) => {
 			mempool: newMempool,
 			isAwaitingSignatures: false,
 			proposal: undefined,
+			view: 0,
+			viewVotes: {},
+			locked: undefined,
+			pendingSince: undefined,
+		},
+		// only the replica that proposed the frame speaks for the entity
+		outbox: replica.isAwaitingSignatures ? accountOutbox(replica, command.frame) : [],
+	};
+};
+
+/** Whether an account message was already applied by a committed frame, e.g. a late relayed copy. */
+const isStaleAccountTx = (state: EntityState, tx: AccountFrameTx | AccountAckTx): boolean => {
+	if (tx.kind === 'accountAck') return state.accounts[tx.body.account]?.pending?.height !== tx.body.height;
+	const { frame } = tx.body;
+	const machine = state.accounts[getAccountKey(frame.state.left, frame.state.right)];
+	return machine !== undefined && frame.height <= machine.state.height;
+};
+
+/** Admit a counterparty's signed account message into the mempool of the entity it addresses. */
+const handleAccountMessage: CommandHandler = (replica, command) => {
+	if (command.type !== 'ACCOUNT_PROPOSE' && command.type !== 'ACCOUNT_ACK') return { replica, outbox: [] };
+	if (isKnownTx(replica, command.tx) || isStaleAccountTx(replica.last.state, command.tx)) {
+		return { replica, outbox: [] };
+	}
+
+	const sigResult = verifyTxSignature(replica.last.state, command.tx);
+	if (!sigResult.ok) {
+		console.log(`${command.type} rejected: ${sigResult.error}`);
+		return { replica, outbox: [] };
+	}
+
+	const admitted = admitInboundTx(replica.mempool, command.tx);
+	if (!admitted.ok) {
+		console.log(`${command.type} rejected: ${admitted.error}`);
+		return { replica, outbox: [] };
+	}
+
+	return {
+		replica: { ...replica, mempool: admitted.value },
+		outbox: relayToMembers(replica, command),
+	};
+};
+
+/** Admit a message another member's replica relayed the way it was admitted there, relaying it no further. */
+const handleRelay: CommandHandler = (replica, command) => {
+	if (command.type !== 'RELAY') return { replica, outbox: [] };
+	const { addrKey, tx } = command;
+	const admitted = !isInboundAccountTx(tx)
+		? handleAddTx(replica, { type: 'ADD_TX', addrKey, tx })
+		: handleAccountMessage(
+				replica,
+				tx.kind === 'accountFrame' ? { type: 'ACCOUNT_PROPOSE', addrKey, tx } : { type: 'ACCOUNT_ACK', addrKey, tx },
+			);
+	return { ...admitted, outbox: [] };
+};
+
+/**
+ * Record a member's request to replace the proposer at the next height. Once members holding
+ * `threshold` shares ask for a view, the replica moves to it: a proposal it was collecting
+ * signatures for is dropped and its txs return to the mempool for the new proposer's frame. Of the
+ * frames the requests report their members signed, the one from the latest view is kept for the new
+ * proposer to propose again.
+ */
+const handleViewChange: CommandHandler = (replica, command) => {
+	if (command.type !== 'VIEW_CHANGE') return { replica, outbox: [] };
+	const { addrKey, signer, height, view, locked, sig } = command;
+	const { quorum } = replica.last.state;
+	if (height !== replica.last.height + 1n || view <= replica.view || !quorum.members[signer]) {
+		return { replica, outbox: [] };
+	}
+	if ((replica.viewVotes[signer] ?? 0) >= view) return { replica, outbox: [] };
+
+	const publicKey = hexToBuf(quorum.members[signer].publicKey);
+	const isValid = (() => {
+		try {
+			const lockedHash = locked && hashFrame(locked.frame);
+			const message = encodeViewChangePayload(addrKey, height, view, lockedHash);
+			return verify({ message, signature: sig, publicKey });
+		} catch {
+			return false;
+		}
+	})();
+	if (!isValid) {
+		console.log('VIEW_CHANGE rejected: Invalid signature');
+		return { replica, outbox: [] };
+	}
+
+	const viewVotes: Record<Address, number> = { ...replica.viewVotes, [signer]: view };
+	// the frame signed in the latest view is the one a threshold may already stand behind
+	const carried =
+		locked && locked.frame.height === height && locked.view >= (replica.locked?.view ?? 0) ? locked : replica.locked;
+	const supporters = (Object.keys(viewVotes) as Address[]).filter(addr => viewVotes[addr] >= view);
+	if (calculateQuorumPower(quorum, supporters) < quorum.threshold) {
+		return { replica: { ...replica, viewVotes, locked: carried }, outbox: [] };
+	}
+
+	return {
+		replica: {
+			...replica,
+			view,
+			viewVotes,
+			locked: carried,
+			isAwaitingSignatures: false,
+			proposal: undefined,
+			mempool: restoreTxs(replica.mempool, replica.proposal?.txs ?? [], isInboundAccountTx),
+			pendingSince: undefined,
 		},
 		outbox: [],
 	};
@@ -302,9 +1228,13 @@ const handleCommit: CommandHandler = (replica, command) => {
 
 const commandHandlers: Record<Command['type'], CommandHandler> = {
 	ADD_TX: handleAddTx,
+	RELAY: handleRelay,
 	PROPOSE: handlePropose,
 	SIGN: handleSign,
 	COMMIT: handleCommit,
+	ACCOUNT_PROPOSE: handleAccountMessage,
+	ACCOUNT_ACK: handleAccountMessage,
+	VIEW_CHANGE: handleViewChange,
 	IMPORT: replica => ({ replica, outbox: [] }), // Handled at server level
 };
 
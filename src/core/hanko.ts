@@ -0,0 +1,61 @@
+import { keccak_256 as keccak } from '@noble/hashes/sha3';
+import { bufToHex, hexToBuf } from '../codec/rlp';
+import { HANKO_KEY_CACHE_LIMIT } from '../constants';
+import { type PubKey, aggregatePublicKeys, verifyFastAggregate } from '../crypto/bls';
+import type { Address, Board, Hex } from '../types';
+
+export interface VerifyHankoParams {
+	quorum: Board;
+	/** Distinct members of `quorum` that sealed the hanko. */
+	signers: Address[];
+	hanko: Hex;
+	messageHash: Hex;
+}
+
+/**
+ * Summed keys by board and signer bitmap, oldest first. The same members tend to seal frame after
+ * frame, so a sum is usually taken once per board and set of signers rather than once per COMMIT.
+ */
+const aggregateKeys = new Map<string, PubKey>();
+
+// eslint-disable-next-line fp/no-mutating-methods
+const membersInOrder = (quorum: Board): Address[] => (Object.keys(quorum.members) as Address[]).sort();
+
+/** Board identity: the hash of the members' keys in address order, which nonces and shares leave alone. */
+const boardId = (members: Address[], quorum: Board): Hex =>
+	bufToHex(Buffer.from(keccak(Buffer.concat(members.map(address => hexToBuf(quorum.members[address].publicKey))))));
+
+const bitmapOf = (members: Address[], signed: Set<Address>): Hex =>
+	`0x${members.reduce((bits, address, i) => (signed.has(address) ? bits | (1n << BigInt(i)) : bits), 0n).toString(16)}`;
+
+/** Which members signed, one bit per member in address order, the first member in the lowest bit. */
+export const signerBitmap = (quorum: Board, signers: Address[]): Hex =>
+	bitmapOf(membersInOrder(quorum), new Set(signers));
+
+/** Sum of the signers' keys in `quorum`, taken from the cache when the same board and signers recur. */
+export const aggregateSignerKey = (quorum: Board, signers: Address[]): PubKey => {
+	const members = membersInOrder(quorum);
+	const signed = new Set(signers);
+	const key = `${boardId(members, quorum)}:${bitmapOf(members, signed)}`;
+	const cached = aggregateKeys.get(key);
+	if (cached) return cached;
+
+	const aggregateKey = aggregatePublicKeys(
+		members.filter(address => signed.has(address)).map(address => hexToBuf(quorum.members[address].publicKey)),
+	);
+	if (aggregateKeys.size >= HANKO_KEY_CACHE_LIMIT) {
+		// eslint-disable-next-line functional/immutable-data
+		aggregateKeys.delete(aggregateKeys.keys().next().value as string);
+	}
+	// eslint-disable-next-line functional/immutable-data
+	aggregateKeys.set(key, aggregateKey);
+	return aggregateKey;
+};
+
+/**
+ * Check a hanko over `messageHash` with one pairing against the signers' summed key. This is sound
+ * because a key enters a quorum only with a proof of possession, so none of them can be a rogue key.
+ * Throws where the BLS library does on malformed points, so callers verify inside their own error handling.
+ */
+export const verifyHanko = ({ quorum, signers, hanko, messageHash }: VerifyHankoParams): boolean =>
+	verifyFastAggregate({ hanko, messageHash, aggregateKey: aggregateSignerKey(quorum, signers) });
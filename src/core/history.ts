@@ -0,0 +1,64 @@
+import { canonicalTagged } from '../codec/rlp';
+import type { Replica, Result, ServerFrame, ServerState, UInt64 } from '../types';
+import { err, ok } from '../types';
+
+/** The state a runtime held after a tick, and the frame that produced it. */
+export interface HistoryEntry {
+	state: ServerState;
+	/** Missing for the state the runtime started from, which no frame of its own produced. */
+	frame?: ServerFrame;
+}
+
+/** How one replica differs between two heights. Replicas equal at both heights have no diff. */
+export interface ReplicaDiff {
+	key: string;
+	status: 'added' | 'removed' | 'changed';
+	/** Top-level replica fields whose values differ; every field of an added or removed replica. */
+	fields: (keyof Replica)[];
+	before?: Replica;
+	after?: Replica;
+}
+
+/**
+ * Bounded, oldest-first record of the states a runtime went through. States are immutable and
+ * share every replica a tick left alone, so keeping a window of them costs little more than the
+ * replicas that actually changed.
+ */
+export type History = readonly HistoryEntry[];
+
+export const createHistory = (state: ServerState): History => [{ state }];
+
+/** Append the result of a tick, dropping the oldest entries beyond `limit`. */
+export const recordTick = (history: History, entry: HistoryEntry, limit: number): History =>
+	[...history, entry].slice(-limit);
+
+export const entryAt = (history: History, height: UInt64): HistoryEntry | undefined =>
+	history.find(entry => entry.state.height === height);
+
+const replicaFields = (replica: Replica): (keyof Replica)[] => Object.keys(replica) as (keyof Replica)[];
+
+const diffReplica = (key: string, before?: Replica, after?: Replica): ReplicaDiff | undefined => {
+	if (!before && after) return { key, status: 'added', fields: replicaFields(after), after };
+	if (before && !after) return { key, status: 'removed', fields: replicaFields(before), before };
+	if (!before || !after || before === after) return undefined;
+
+	// canonicalTagged tells apart Maps and bigints, which plain canonical JSON flattens
+	const fields = [...new Set([...replicaFields(before), ...replicaFields(after)])].filter(
+		field => canonicalTagged(before[field]) !== canonicalTagged(after[field]),
+	);
+	return fields.length > 0 ? { key, status: 'changed', fields, before, after } : undefined;
+};
+
+/** Per-replica changes from the state at `from` to the one at `to`, in replica key order. */
+export const diffHistory = (history: History, from: UInt64, to: UInt64): Result<ReplicaDiff[]> => {
+	const before = entryAt(history, from);
+	if (!before) return err(`No history at height ${from}`);
+	const after = entryAt(history, to);
+	if (!after) return err(`No history at height ${to}`);
+
+	const { replicas: a } = before.state;
+	const { replicas: b } = after.state;
+	// eslint-disable-next-line fp/no-mutating-methods
+	const keys = [...new Set([...a.keys(), ...b.keys()])].sort();
+	return ok(keys.flatMap(key => diffReplica(key, a.get(key), b.get(key)) ?? []));
+};
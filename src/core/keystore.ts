@@ -0,0 +1,151 @@
+import { scrypt } from '@noble/hashes/scrypt';
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { closeSync, existsSync, fsyncSync, openSync, readFileSync, renameSync, writeSync } from 'node:fs';
+import { bufToHex, hexToBuf } from '../codec/rlp';
+import { KEYSTORE_SCRYPT_N } from '../constants';
+import type { PrivKey } from '../crypto/bls';
+import type { Address, Hex, Result } from '../types';
+import { err, ok } from '../types';
+import { type Signer, createSigner } from './signer';
+
+/**
+ * Where a runtime's keys live. Keys go in but never come back out: the keystore hands out a
+ * `Signer` for a stored key instead.
+ */
+export interface Keystore {
+	/** Addresses of the stored keys, in the order they were added. */
+	addresses(): Address[];
+	signer(address: Address): Signer | undefined;
+	/** Store a key and return its address; adding a stored key again changes nothing. */
+	add(privateKey: PrivKey): Result<Address>;
+}
+
+/** An encrypted keystore file: scrypt stretches the password into an AES-256-GCM key. */
+interface KeystoreFile {
+	version: 1;
+	kdf: { name: 'scrypt'; N: number; r: number; p: number; salt: Hex };
+	cipher: { name: 'aes-256-gcm'; iv: Hex; tag: Hex };
+	ciphertext: Hex;
+}
+
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const SALT_LENGTH = 32;
+const IV_LENGTH = 12;
+
+/**
+ * Keystore over `initial`, calling `persist` with every key after each one is added. The initial
+ * keys come from the store itself, so they are taken as valid.
+ */
+const createKeystore = (initial: readonly PrivKey[], persist: (keys: readonly PrivKey[]) => Result<void>): Keystore => {
+	const store = { keys: [] as PrivKey[], signers: new Map<Address, Signer>() };
+
+	const insert = (privateKey: PrivKey): Result<Address> => {
+		const signer = (() => {
+			try {
+				return createSigner(privateKey);
+			} catch {
+				return undefined;
+			}
+		})();
+		if (!signer) return err('Invalid private key');
+		if (store.signers.has(signer.address)) return ok(signer.address);
+		// eslint-disable-next-line functional/immutable-data, fp/no-mutation
+		store.keys = [...store.keys, privateKey];
+		// eslint-disable-next-line functional/immutable-data, fp/no-mutation
+		store.signers = new Map(store.signers).set(signer.address, signer);
+		return ok(signer.address);
+	};
+
+	initial.forEach(insert);
+
+	return {
+		addresses: () => [...store.signers.keys()],
+		signer: address => store.signers.get(address),
+		add: privateKey => {
+			const before = store.keys.length;
+			const address = insert(privateKey);
+			if (!address.ok || store.keys.length === before) return address;
+			const saved = persist(store.keys);
+			return saved.ok ? address : saved;
+		},
+	};
+};
+
+/** Keystore that forgets its keys with the process. */
+export const createMemoryKeystore = (): Keystore => createKeystore([], () => ok(undefined));
+
+const stretch = (password: string, kdf: KeystoreFile['kdf']): Uint8Array =>
+	scrypt(password, hexToBuf(kdf.salt), { N: kdf.N, r: kdf.r, p: kdf.p, dkLen: 32 });
+
+const encryptKeys = (keys: readonly PrivKey[], password: string): KeystoreFile => {
+	const kdf = {
+		name: 'scrypt' as const,
+		N: KEYSTORE_SCRYPT_N,
+		r: SCRYPT_R,
+		p: SCRYPT_P,
+		salt: bufToHex(randomBytes(SALT_LENGTH)),
+	};
+	const iv = randomBytes(IV_LENGTH);
+	const cipher = createCipheriv('aes-256-gcm', stretch(password, kdf), iv);
+	const plaintext = Buffer.from(JSON.stringify(keys.map(key => bufToHex(Buffer.from(key)))));
+	const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+	return {
+		version: 1,
+		kdf,
+		cipher: { name: 'aes-256-gcm', iv: bufToHex(iv), tag: bufToHex(cipher.getAuthTag()) },
+		ciphertext: bufToHex(ciphertext),
+	};
+};
+
+const decryptKeys = (file: KeystoreFile, password: string): Result<PrivKey[]> => {
+	if (file.version !== 1 || file.kdf?.name !== 'scrypt' || file.cipher?.name !== 'aes-256-gcm') {
+		return err('Unsupported keystore format');
+	}
+	try {
+		const decipher = createDecipheriv('aes-256-gcm', stretch(password, file.kdf), hexToBuf(file.cipher.iv));
+		decipher.setAuthTag(hexToBuf(file.cipher.tag));
+		const plaintext = Buffer.concat([decipher.update(hexToBuf(file.ciphertext)), decipher.final()]);
+		return ok((JSON.parse(plaintext.toString()) as Hex[]).map(hexToBuf));
+	} catch {
+		return err('Wrong password or corrupted keystore');
+	}
+};
+
+/** Write under a temporary name, flush and rename, so a crash never leaves a torn keystore. */
+const writeKeystoreFile = (path: string, file: KeystoreFile): Result<void> => {
+	try {
+		const tmp = `${path}.tmp`;
+		const fd = openSync(tmp, 'w', 0o600);
+		writeSync(fd, JSON.stringify(file, null, '\t'));
+		fsyncSync(fd);
+		closeSync(fd);
+		renameSync(tmp, path);
+		return ok(undefined);
+	} catch (e) {
+		return err(`Failed to write keystore: ${String(e)}`);
+	}
+};
+
+/**
+ * Keystore kept in the file at `path`, encrypted under `password`, and created empty when missing.
+ * Every key added rewrites the file under a fresh salt and IV.
+ */
+export const openFileKeystore = (path: string, password: string): Result<Keystore> => {
+	const persist = (keys: readonly PrivKey[]) => writeKeystoreFile(path, encryptKeys(keys, password));
+	if (!existsSync(path)) {
+		const created = persist([]);
+		return created.ok ? ok(createKeystore([], persist)) : created;
+	}
+
+	const file = (() => {
+		try {
+			return ok(JSON.parse(readFileSync(path, 'utf8')) as KeystoreFile);
+		} catch (e) {
+			return err(`Unreadable keystore ${path}: ${String(e)}`);
+		}
+	})();
+	if (!file.ok) return file;
+	const keys = decryptKeys(file.value, password);
+	return keys.ok ? ok(createKeystore(keys.value, persist)) : keys;
+};
@@ -0,0 +1,48 @@
+import { MAX_BALANCE } from '../constants';
+import type { Address, AssetId, Balances, Result } from '../types';
+import { err, ok } from '../types';
+
+export interface LedgerEntryParams {
+	balances: Balances;
+	address: Address;
+	asset: AssetId;
+	amount: bigint;
+}
+
+export const getBalance = (balances: Balances, address: Address, asset: AssetId): bigint =>
+	balances[address]?.[asset] ?? 0n;
+
+const setBalance = (balances: Balances, address: Address, asset: AssetId, amount: bigint): Balances => ({
+	...balances,
+	[address]: { ...balances[address], [asset]: amount },
+});
+
+/** Add `amount` to a holder's balance, refusing to exceed MAX_BALANCE. */
+export const credit = ({ balances, address, asset, amount }: LedgerEntryParams): Result<Balances> => {
+	if (amount <= 0n) return err('Amount must be positive');
+	const next = getBalance(balances, address, asset) + amount;
+	if (next > MAX_BALANCE) return err('Balance overflow');
+	return ok(setBalance(balances, address, asset, next));
+};
+
+/** Subtract `amount` from a holder's balance, refusing to go negative. */
+export const debit = ({ balances, address, asset, amount }: LedgerEntryParams): Result<Balances> => {
+	if (amount <= 0n) return err('Amount must be positive');
+	const current = getBalance(balances, address, asset);
+	if (current < amount) return err('Insufficient balance');
+	return ok(setBalance(balances, address, asset, current - amount));
+};
+
+export interface MoveParams {
+	balances: Balances;
+	from: Address;
+	to: Address;
+	asset: AssetId;
+	amount: bigint;
+}
+
+/** Move `amount` between two holders atomically. */
+export const move = ({ balances, from, to, asset, amount }: MoveParams): Result<Balances> => {
+	const debited = debit({ balances, address: from, asset, amount });
+	return debited.ok ? credit({ balances: debited.value, address: to, asset, amount }) : debited;
+};
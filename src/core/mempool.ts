@@ -0,0 +1,129 @@
+import { MEMPOOL_LIMIT, MEMPOOL_NONCE_GAP, MEMPOOL_SENDER_LIMIT } from '../constants';
+import type { Address, Mempool, Nonce, Quorum, Result, Transaction } from '../types';
+import { err, ok } from '../types';
+
+/** How a member tx entered the mempool, see `TxAdmission`. */
+export type AdmissionStatus = 'ready' | 'queued' | 'replaced';
+
+export interface Admitted {
+	mempool: Mempool;
+	status: AdmissionStatus;
+}
+
+export const createMempool = (): Mempool => ({ queues: {}, inbound: [] });
+
+/** Every tx in the mempool: member queues in sender order, then inbound account messages. */
+export const mempoolTxs = (mempool: Mempool): Transaction[] =>
+	// eslint-disable-next-line fp/no-mutating-methods
+	[...(Object.keys(mempool.queues) as Address[])]
+		.sort()
+		.flatMap(sender => mempool.queues[sender])
+		.concat(mempool.inbound);
+
+export const mempoolSize = (mempool: Mempool): number => mempoolTxs(mempool).length;
+
+const byNonce = (a: Transaction, b: Transaction): number => (a.nonce < b.nonce ? -1 : a.nonce > b.nonce ? 1 : 0);
+
+/** Replace one sender's queue in nonce order. */
+const withQueue = (mempool: Mempool, sender: Address, queue: Transaction[]): Mempool =>
+	// eslint-disable-next-line fp/no-mutating-methods
+	({ ...mempool, queues: { ...mempool.queues, [sender]: [...queue].sort(byNonce) } });
+
+/** Length of the run of nonces in `queue` that starts at `expected` without a gap. */
+const contiguousCount = (queue: Transaction[], expected: Nonce): number => {
+	const index = queue.findIndex((tx, i) => tx.nonce !== expected + BigInt(i));
+	return index === -1 ? queue.length : index;
+};
+
+/** Nonce a sender's next tx should carry: the one after its committed nonce and the txs queued right behind it. */
+export const nextNonce = (mempool: Mempool, sender: Address, committed: Nonce): Nonce =>
+	committed + BigInt(contiguousCount(mempool.queues[sender] ?? [], committed));
+
+/** Whether `tx` runs more than `MEMPOOL_NONCE_GAP` nonces ahead of the next one its sender's queue waits for. */
+const isTooFarAhead = (mempool: Mempool, tx: Transaction, committed: Nonce): boolean =>
+	tx.nonce > nextNonce(mempool, tx.from, committed) + BigInt(MEMPOOL_NONCE_GAP);
+
+/**
+ * Queue a member tx by its nonce. `expected` is the sender's committed nonce: older nonces are
+ * refused, a small gap after the queued run holds the tx until the missing ones arrive, and a tx
+ * reusing a queued nonce replaces the queued one, since the sender has signed something else in its
+ * place. A nonce further ahead is refused, so it cannot hold a queue slot for a gap that never fills.
+ */
+export const admitMemberTx = (mempool: Mempool, tx: Transaction, expected: Nonce): Result<Admitted> => {
+	if (tx.nonce < expected) return err('Stale nonce');
+	if (isTooFarAhead(mempool, tx, expected)) return err('Nonce too far ahead');
+
+	const queue = mempool.queues[tx.from] ?? [];
+	const replaced = queue.some(queued => queued.nonce === tx.nonce);
+	if (!replaced && queue.length >= MEMPOOL_SENDER_LIMIT) return err('Sender queue full');
+	if (!replaced && mempoolSize(mempool) >= MEMPOOL_LIMIT) return err('Mempool full');
+
+	const next = withQueue(mempool, tx.from, [...queue.filter(queued => queued.nonce !== tx.nonce), tx]);
+	const isReady = next.queues[tx.from].indexOf(tx) < contiguousCount(next.queues[tx.from], expected);
+	return ok({
+		mempool: next,
+		status: replaced ? 'replaced' : isReady ? 'ready' : 'queued',
+	});
+};
+
+/** Hold a counterparty account message, which its account orders and deduplicates on execution. */
+export const admitInboundTx = (mempool: Mempool, tx: Transaction): Result<Mempool> =>
+	mempoolSize(mempool) >= MEMPOOL_LIMIT ? err('Mempool full') : ok({ ...mempool, inbound: [...mempool.inbound, tx] });
+
+/**
+ * Txs a frame on top of `quorum` can execute: each member's queue up to its first nonce gap, and
+ * every inbound account message. Queues of senders that left the quorum are never ready.
+ */
+export const readyTxs = (mempool: Mempool, quorum: Quorum): Transaction[] =>
+	// eslint-disable-next-line fp/no-mutating-methods
+	[...(Object.keys(mempool.queues) as Address[])]
+		.sort()
+		.flatMap(sender => {
+			const record = quorum.members[sender];
+			const queue = mempool.queues[sender];
+			return record ? queue.slice(0, contiguousCount(queue, record.nonce)) : [];
+		})
+		.concat(mempool.inbound);
+
+/** Drop every tx matching `isDropped`, e.g. once it is part of a proposal or settled by a commit. */
+export const dropTxs = (mempool: Mempool, isDropped: (tx: Transaction) => boolean): Mempool => ({
+	queues: (Object.keys(mempool.queues) as Address[]).reduce<Mempool['queues']>((acc, sender) => {
+		const queue = mempool.queues[sender].filter(tx => !isDropped(tx));
+		return queue.length > 0 ? { ...acc, [sender]: queue } : acc;
+	}, {}),
+	inbound: mempool.inbound.filter(tx => !isDropped(tx)),
+});
+
+/**
+ * Evict member txs a committed frame made obsolete: those whose nonce is now used, such as a tx
+ * another replica replaced before it was proposed, and the queues of senders that left the quorum.
+ * Txs too far ahead of what is left of their queue go too, e.g. ones a restored mempool still held.
+ */
+export const pruneStaleTxs = (mempool: Mempool, quorum: Quorum): Mempool => {
+	const current = dropTxs(mempool, tx => {
+		if (mempool.inbound.includes(tx)) return false;
+		const record = quorum.members[tx.from];
+		return !record || tx.nonce < record.nonce;
+	});
+	return dropTxs(
+		current,
+		tx => !current.inbound.includes(tx) && isTooFarAhead(current, tx, quorum.members[tx.from].nonce),
+	);
+};
+
+/**
+ * Put the txs of a dropped proposal back in front of what arrived since. A queued tx that reuses
+ * one's nonce was signed later, so it stays and the returned one is discarded.
+ */
+export const restoreTxs = (mempool: Mempool, txs: Transaction[], isInbound: (tx: Transaction) => boolean): Mempool => {
+	const inbound = txs.filter(tx => isInbound(tx) && !mempool.inbound.some(t => t.sig === tx.sig));
+	return txs
+		.filter(tx => !isInbound(tx))
+		.reduce(
+			(acc, tx) =>
+				(acc.queues[tx.from] ?? []).some(t => t.nonce === tx.nonce)
+					? acc
+					: withQueue(acc, tx.from, [...(acc.queues[tx.from] ?? []), tx]),
+			{ ...mempool, inbound: [...inbound, ...mempool.inbound] },
+		);
+};
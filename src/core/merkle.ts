@@ -0,0 +1,123 @@
+import { keccak_256 as keccak } from '@noble/hashes/sha3';
+import { encodeValue, hexToBuf } from '../codec/rlp';
+import { EMPTY_HASH } from '../constants';
+import type { Address, EntityState, Hex } from '../types';
+
+/** Domain tags keep a leaf from ever hashing like an inner node, and the other way round. */
+const LEAF_TAG = Buffer.from([0]);
+const NODE_TAG = Buffer.from([1]);
+
+/** A keyed value in a tree: the key it is proven under and the hash of the value. */
+export interface MerkleLeaf {
+	key: string;
+	leaf: Hex;
+}
+
+/** One level of an inclusion proof: the sibling's hash and the side it sits on. */
+export interface ProofStep {
+	side: 'left' | 'right';
+	hash: Hex;
+}
+
+export type MerkleProof = ProofStep[];
+
+/** What a verifier needs to check one leaf against a root without the rest of the tree. */
+export interface StateProof {
+	root: Hex;
+	leaf: Hex;
+	proof: MerkleProof;
+}
+
+const hashBytes = (...parts: Buffer[]): Hex => `0x${Buffer.from(keccak(Buffer.concat(parts))).toString('hex')}`;
+
+/** A leaf commits to its key as well as its value, so a proof cannot pass one key's value off as another's. */
+const hashLeaf = ({ key, leaf }: MerkleLeaf): Hex => hashBytes(LEAF_TAG, Buffer.from(key), hexToBuf(leaf));
+
+const hashNode = (left: Hex, right: Hex): Hex => hashBytes(NODE_TAG, hexToBuf(left), hexToBuf(right));
+
+/** Leaf of a value inside an entity state: keccak256 of its `encodeValue` bytes. */
+export const hashValue = (value: unknown): Hex => `0x${Buffer.from(keccak(encodeValue(value))).toString('hex')}`;
+
+/** Trees are built over leaves in key order, so every replica derives the same root. */
+export const sortLeaves = (leaves: MerkleLeaf[]): MerkleLeaf[] =>
+	// eslint-disable-next-line fp/no-mutating-methods
+	[...leaves].sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+
+/** Pair up a level's nodes; an odd one out moves up unchanged rather than being paired with itself. */
+const nextLevel = (level: Hex[]): Hex[] =>
+	Array.from({ length: Math.ceil(level.length / 2) }, (_, i) =>
+		2 * i + 1 < level.length ? hashNode(level[2 * i], level[2 * i + 1]) : level[2 * i],
+	);
+
+const rootOf = (level: Hex[]): Hex => (level.length <= 1 ? (level[0] ?? EMPTY_HASH) : rootOf(nextLevel(level)));
+
+/** Root over `leaves`, which must be in `sortLeaves` order; `EMPTY_HASH` when there are none. */
+export const merkleRoot = (leaves: MerkleLeaf[]): Hex => rootOf(leaves.map(hashLeaf));
+
+const proofOf = (level: Hex[], index: number, steps: MerkleProof): MerkleProof => {
+	if (level.length <= 1) return steps;
+	const sibling = index % 2 === 0 ? index + 1 : index - 1;
+	const step: ProofStep[] =
+		sibling < level.length ? [{ side: index % 2 === 0 ? 'right' : 'left', hash: level[sibling] }] : [];
+	return proofOf(nextLevel(level), Math.floor(index / 2), [...steps, ...step]);
+};
+
+/** Siblings from the leaf of `key` up to the root, or undefined when the key is not in the tree. */
+export const merkleProof = (leaves: MerkleLeaf[], key: string): MerkleProof | undefined => {
+	const index = leaves.findIndex(leaf => leaf.key === key);
+	return index === -1 ? undefined : proofOf(leaves.map(hashLeaf), index, []);
+};
+
+/** Root, leaf and proof of `key` in the tree over `leaves`. */
+export const leafProof = (leaves: MerkleLeaf[], key: string): StateProof | undefined => {
+	const entry = leaves.find(leaf => leaf.key === key);
+	const proof = merkleProof(leaves, key);
+	return entry && proof ? { root: merkleRoot(leaves), leaf: entry.leaf, proof } : undefined;
+};
+
+/** Whether `proof` shows that `key` held the value hashing to `leaf` under `root`. */
+export const verifyProof = (root: Hex, key: string, leaf: Hex, proof: MerkleProof): boolean =>
+	proof.reduce(
+		(node, step) => (step.side === 'left' ? hashNode(step.hash, node) : hashNode(node, step.hash)),
+		hashLeaf({ key, leaf }),
+	) === root;
+
+const entries = (prefix: string, record: Record<string, unknown>): MerkleLeaf[] =>
+	Object.keys(record).map(key => ({ key: `${prefix}/${key}`, leaf: hashValue(record[key]) }));
+
+/**
+ * How each field of an entity state splits into leaves: one per member, chat message, proposal,
+ * balance, account and payment, keyed by a path such as `balances/<holder>/<asset>`. A new field
+ * does not compile until it says how it is committed.
+ */
+const ENTITY_LEAVES: { [K in keyof EntityState]: (value: EntityState[K]) => MerkleLeaf[] } = {
+	address: address => [{ key: 'address', leaf: hashValue(address) }],
+	quorum: quorum => [
+		{ key: 'quorum/threshold', leaf: hashValue(quorum.threshold) },
+		...entries('quorum/members', quorum.members),
+	],
+	chat: chat => chat.map((message, i) => ({ key: `chat/${i}`, leaf: hashValue(message) })),
+	proposals: proposals => entries('proposals', proposals),
+	balances: balances =>
+		(Object.keys(balances) as Address[]).flatMap(holder => entries(`balances/${holder}`, balances[holder])),
+	accounts: accounts => entries('accounts', accounts),
+	payments: payments => entries('payments', payments),
+};
+
+const fieldLeaves = <K extends keyof EntityState>(state: EntityState, field: K): MerkleLeaf[] =>
+	ENTITY_LEAVES[field](state[field]);
+
+/** The leaves an entity state commits to, in key order. */
+export const entityLeaves = (state: EntityState): MerkleLeaf[] =>
+	sortLeaves((Object.keys(ENTITY_LEAVES) as (keyof EntityState)[]).flatMap(field => fieldLeaves(state, field)));
+
+/** Root an entity frame carries and its hash commits to in place of the whole state. */
+export const entityRoot = (state: EntityState): Hex => merkleRoot(entityLeaves(state));
+
+/**
+ * Proof of one value inside an entity state, e.g. `entityProof(state, 'quorum/members/0x…')`. The
+ * verifier recomputes the leaf with `hashValue` from the value revealed to it and checks it against
+ * the frame's `root`.
+ */
+export const entityProof = (state: EntityState, key: string): StateProof | undefined =>
+	leafProof(entityLeaves(state), key);
@@ -0,0 +1,95 @@
+import type { AssetId, EntityState, Hex, Replica, ReplicaAddr } from '../types';
+import { getAccountKey, getAddrKey } from '../types';
+import { accountSide, getSendCapacity, otherSide } from './account';
+
+export interface FindRouteParams {
+	states: EntityState[];
+	from: ReplicaAddr;
+	to: ReplicaAddr;
+	amount: bigint;
+	asset: AssetId;
+}
+
+/** A hop is pending while its lock is open, settled once the sender learned the preimage. */
+export type HopStatus = 'pending' | 'settled' | 'failed';
+
+export interface HopReport {
+	from: ReplicaAddr;
+	to: ReplicaAddr;
+	status: HopStatus;
+}
+
+export interface PaymentReport {
+	hashlock: Hex;
+	/** Entities the payment passes through, payer first and payee last. */
+	route: ReplicaAddr[];
+	hops: HopReport[];
+}
+
+/** Most advanced committed state of every entity hosted by the server. */
+export const latestEntityStates = (replicas: Map<string, Replica>): EntityState[] =>
+	[
+		...[...replicas.values()]
+			.reduce((acc, replica) => {
+				const current = acc.get(getAddrKey(replica.address));
+				return !current || replica.last.height > current.last.height
+					? new Map(acc).set(getAddrKey(replica.address), replica)
+					: acc;
+			}, new Map<string, Replica>())
+			.values(),
+	].map(replica => replica.last.state);
+
+/** Counterparties `entity` can send `amount` to, by its own copy of each account, ordered by address key. */
+const neighbours = (state: EntityState, amount: bigint, asset: AssetId): ReplicaAddr[] =>
+	// eslint-disable-next-line fp/no-mutating-methods
+	[
+		...Object.values(state.accounts).flatMap(({ state: account }) => {
+			const side = accountSide(account, state.address);
+			return side && getSendCapacity(account, side, asset) >= amount ? [account[otherSide(side)]] : [];
+		}),
+	].sort((a, b) => getAddrKey(a).localeCompare(getAddrKey(b)));
+
+/**
+ * Shortest path from `from` to `to` over accounts with capacity for `amount` in every hop, found by
+ * breadth-first search. Ties go to the path visiting lower address keys first, so every server that
+ * holds the same states picks the same route.
+ */
+export const findRoute = ({ states, from, to, amount, asset }: FindRouteParams): ReplicaAddr[] | undefined => {
+	const byKey = new Map(states.map(state => [getAddrKey(state.address), state]));
+	const search = (frontier: ReplicaAddr[][], visited: Set<string>): ReplicaAddr[] | undefined => {
+		if (frontier.length === 0) return undefined;
+		const found = frontier.find(path => getAddrKey(path[path.length - 1]) === getAddrKey(to));
+		if (found) return found;
+
+		const next = frontier.reduce<{ paths: ReplicaAddr[][]; visited: Set<string> }>(
+			(acc, path) => {
+				const state = byKey.get(getAddrKey(path[path.length - 1]));
+				const hops = (state ? neighbours(state, amount, asset) : []).filter(hop => !acc.visited.has(getAddrKey(hop)));
+				return {
+					paths: [...acc.paths, ...hops.map(hop => [...path, hop])],
+					visited: new Set([...acc.visited, ...hops.map(getAddrKey)]),
+				};
+			},
+			{ paths: [], visited },
+		);
+		return search(next.paths, next.visited);
+	};
+	return getAddrKey(from) === getAddrKey(to) || amount <= 0n
+		? undefined
+		: search([[from]], new Set([getAddrKey(from)]));
+};
+
+/** Status of every hop of a routed payment, read from each hop sender's state. */
+export const reportPayment = (states: EntityState[], route: ReplicaAddr[], hashlock: Hex): PaymentReport => {
+	const byKey = new Map(states.map(state => [getAddrKey(state.address), state]));
+	const hops = route.slice(1).map((to, i): HopReport => {
+		const from = route[i];
+		const state = byKey.get(getAddrKey(from));
+		const machine = state?.accounts[getAccountKey(from, to)];
+		const locked =
+			machine !== undefined && (hashlock in machine.state.locks || hashlock in (machine.pending?.state.locks ?? {}));
+		const status = locked ? 'pending' : state?.payments[hashlock]?.preimage ? 'settled' : 'failed';
+		return { from, to, status };
+	});
+	return { hashlock, route, hops };
+};
@@ -1,27 +1,81 @@
 import {
 	BLS_SIGNATURE_LENGTH,
+	DEMO_SEED,
 	DUMMY_SIGNATURE,
 	EMPTY_HASH,
 	HASH_DISPLAY_LENGTH,
+	HISTORY_LIMIT,
+	HTLC_HOP_TIMEOUT_MS,
 	INITIAL_HEIGHT,
+	MAX_PAYMENT_TICKS,
+	TICK_INTERVAL_MS,
 	TOTAL_SIGNERS,
 } from '../constants';
-import { type PubKey, aggregate, deriveAddress, getPublicKey, randomPriv, sign } from '../crypto/bls';
-import type { Address, Hex, Input, Replica, ServerFrame } from '../types';
-import { applyServerBlock } from './server';
+import { bufToHex, hexToBuf } from '../codec/rlp';
+import { aggregate, deriveAddress, getPublicKey, provePossession, randomPriv } from '../crypto/bls';
+import { deriveKey } from '../crypto/derive';
+import type {
+	AccountProposeTx,
+	Address,
+	AssetId,
+	Command,
+	Hex,
+	Input,
+	InvoiceTx,
+	MemberKey,
+	Replica,
+	ReplicaAddr,
+	Result,
+	ServerFrame,
+	ServerState,
+	Transaction,
+	TxAdmission,
+	UInt64,
+} from '../types';
+import { err, getAddrKey, ok } from '../types';
+import { hashlockOf } from './account';
+import { accountSender } from './entity';
+import { type ReplicaDiff, createHistory, diffHistory, entryAt, recordTick } from './history';
+import { nextNonce } from './mempool';
+import type { StateProof } from './merkle';
+import { type PaymentReport, findRoute, latestEntityStates, reportPayment } from './router';
+import { type Keystore, createMemoryKeystore } from './keystore';
+import { applyServerBlock, stateProof } from './server';
+import type { Signer } from './signer';
+import { type SnapshotPolicy, loadLatestSnapshot, pruneSnapshots, writeSnapshot } from './snapshot';
+import { type Wal, replayWal } from './wal';
 
-const generateSigners = (count: number) => {
-	const privs = Array.from({ length: count }, randomPriv);
-	const pubs = privs.map(getPublicKey);
-	const addrs = pubs.map(deriveAddress);
-	const privHexes = privs.map(priv => `0x${Buffer.from(priv).toString('hex')}`) as readonly Hex[];
+/** Keys of the demo members: keys 0 to `TOTAL_SIGNERS - 1` of `DEMO_SEED`, the same on every run. */
+export const DEMO_PRIVS: readonly Hex[] = Array.from({ length: TOTAL_SIGNERS }, (_, i) =>
+	deriveKey(hexToBuf(DEMO_SEED), i),
+).flatMap(key => (key.ok ? [bufToHex(Buffer.from(key.value))] : []));
 
-	return { privs, pubs, addrs, privHexes };
-};
+/** Public keys and proofs of possession of the demo members by address, as a quorum records them. */
+export const DEMO_KEYS: Readonly<Record<Address, MemberKey>> = Object.fromEntries(
+	DEMO_PRIVS.map(priv => {
+		const publicKey = getPublicKey(hexToBuf(priv));
+		return [
+			deriveAddress(publicKey),
+			{ publicKey: bufToHex(Buffer.from(publicKey)), pop: provePossession(hexToBuf(priv)) },
+		];
+	}),
+);
 
-const { privs: PRIVS, pubs: PUBS, addrs: ADDRS, privHexes: PRIV_HEXES } = generateSigners(TOTAL_SIGNERS);
+/** Keys a runtime signs with: one signer per member in `signers`, each key held in `keystore`. */
+export interface RuntimeKeys {
+	keystore: Keystore;
+	signers: readonly Address[];
+}
 
-export const ADDR_TO_PUB = new Map<string, PubKey>(ADDRS.map((addr, i) => [addr, PUBS[i]]));
+/** An in-memory keystore holding the demo members' keys, signing for all of them. */
+export const demoKeys = (): RuntimeKeys => {
+	const keystore = createMemoryKeystore();
+	const signers = DEMO_PRIVS.flatMap(priv => {
+		const address = keystore.add(hexToBuf(priv));
+		return address.ok ? [address.value] : [];
+	});
+	return { keystore, signers };
+};
 
 export interface TickParams {
 	now: number;
@@ -31,25 +85,53 @@ export interface TickParams {
 export interface TickResult {
 	outbox: Input[];
 	frame: ServerFrame;
+	/** How replicas admitted the txs submitted this tick, relayed copies included. */
+	admissions: TxAdmission[];
 }
 
 export interface Runtime {
+	/** Members this runtime signs for. */
 	readonly ADDRS: readonly string[];
-	readonly PRIVS: readonly Hex[];
 	debugReplicas(): Map<string, Replica>;
+	/** The frame committed at `height`, while it is within the last `HISTORY_LIMIT` ticks. */
+	getFrame(height: UInt64): ServerFrame | undefined;
+	/** The server state right after the tick at `height`, or the one the runtime started from. */
+	getStateAt(height: UInt64): ServerState | undefined;
+	/** How each replica changed from the state at `from` to the one at `to`. */
+	diffStates(from: UInt64, to: UInt64): Result<ReplicaDiff[]>;
+	/** Proof that the entity at `addrKey` has its latest committed frame under the current state root. */
+	getProof(addrKey: string): StateProof | undefined;
 	tick(params: TickParams): TickResult;
+	/**
+	 * Route a payment from one entity to another over their accounts and tick until it settles or rolls
+	 * back, one tick interval after another from the last tick.
+	 */
+	pay(from: ReplicaAddr, to: ReplicaAddr, amount: bigint, asset: AssetId): Result<PaymentReport>;
 }
 
-export const createRuntime = (): Runtime => {
-	const initialReplicas = new Map<string, Replica>();
+const createGenesis = (): ServerState => ({
+	replicas: new Map<string, Replica>(),
+	height: INITIAL_HEIGHT,
+	lastHash: EMPTY_HASH,
+});
 
-	const stateRef = {
-		current: {
-			replicas: initialReplicas,
-			height: INITIAL_HEIGHT,
-			lastHash: EMPTY_HASH,
-		},
-	};
+/**
+ * Runtime over `initial`, appending every tick to `wal` (when given) before returning its results and
+ * snapshotting the state as `snapshots` asks. Members whose key `keys.keystore` lacks are not signed for.
+ */
+const startRuntime = (
+	initial: ServerState,
+	now: number,
+	keys: RuntimeKeys,
+	wal?: Wal,
+	snapshots?: SnapshotPolicy,
+): Runtime => {
+	const ownSigners = keys.signers.flatMap(address => keys.keystore.signer(address) ?? []);
+	const ownAddresses = ownSigners.map(signer => signer.address);
+	const stateRef = { current: initial };
+	const historyRef = { current: createHistory(initial) };
+
+	const clock = { now };
 
 	const debugReplicas = (): Map<string, Replica> => {
 		return new Map(stateRef.current.replicas);
@@ -67,48 +149,100 @@ export const createRuntime = (): Runtime => {
 
 	const createEmptyHanko = (): Hex => ('0x' + '00'.repeat(BLS_SIGNATURE_LENGTH)) as Hex;
 
-	const fulfillSignature = (message: Input): Input => {
-		const { cmd } = message;
+	const signerOf = (address: Address): Signer | undefined => ownSigners.find(signer => signer.address === address);
 
-		if (cmd.type === 'SIGN' && cmd.sig === DUMMY_SIGNATURE) {
-			const signerIndex = ADDRS.findIndex(addr => addr === cmd.signer);
-			const signature = sign({
-				message: Buffer.from(cmd.frameHash.slice(2), 'hex'),
-				privateKey: PRIVS[signerIndex],
-			});
-			return { ...message, cmd: { ...cmd, sig: signature } };
-		}
+	/**
+	 * Have the signer named in each outgoing message sign it. A SIGN goes to the member's own signer
+	 * with the proposal it refers to and the frame the member's replica last committed; a request no
+	 * local signer takes, or one it refuses, is dropped rather than sent unsigned. An account message
+	 * names no signer: the members it goes to for a hanko are those whose replicas committed it.
+	 */
+	const fulfillSignature =
+		(state: ServerState) =>
+		(message: Input): Input[] => {
+			const { cmd } = message;
+
+			if (cmd.type === 'SIGN' && cmd.sig === DUMMY_SIGNATURE) {
+				const signer = signerOf(cmd.signer);
+				const own = state.replicas.get(`${cmd.addrKey}:${cmd.signer}`);
+				const proposal = state.replicas.get(`${cmd.addrKey}:${message.to}`)?.proposal;
+				if (!signer || !own || !proposal) return [];
+				const sig = signer.signFrame({
+					last: own.last,
+					proposal,
+					frameHash: cmd.frameHash,
+					view: cmd.view,
+					votedView: Math.max(own.view, own.viewVotes[cmd.signer] ?? 0),
+				});
+				if (!sig.ok) {
+					console.log(`SIGN refused by ${cmd.signer}: ${sig.error}`);
+					return [];
+				}
+				return [{ ...message, cmd: { ...cmd, sig: sig.value } }];
+			}
 
-		if (cmd.type === 'COMMIT' && cmd.hanko === DUMMY_SIGNATURE) {
-			const cmdWithSigs = cmd as typeof cmd & { _sigs?: Map<Address, Hex> | Record<string, Hex> };
-			const [signatures, signers] = extractSignatures(cmdWithSigs._sigs);
+			if (cmd.type === 'COMMIT' && cmd.hanko === DUMMY_SIGNATURE) {
+				const cmdWithSigs = cmd as typeof cmd & { _sigs?: Map<Address, Hex> | Record<string, Hex> };
+				const [signatures, signers] = extractSignatures(cmdWithSigs._sigs);
 
-			if (signatures.length === 0) {
-				console.error('WARNING: No signatures found for aggregation');
+				if (signatures.length === 0) {
+					console.error('WARNING: No signatures found for aggregation');
+				}
+
+				const hanko = signatures.length > 0 ? aggregate(signatures) : createEmptyHanko();
+				// eslint-disable-next-line @typescript-eslint/no-unused-vars
+				const { _sigs, ...cleanCmd } = cmdWithSigs;
+
+				return [{ ...message, cmd: { ...cleanCmd, hanko, signers } }];
 			}
 
-			const hanko = signatures.length > 0 ? aggregate(signatures) : createEmptyHanko();
-			// eslint-disable-next-line @typescript-eslint/no-unused-vars
-			const { _sigs, ...cleanCmd } = cmdWithSigs;
+			if (cmd.type === 'VIEW_CHANGE' && cmd.sig === DUMMY_SIGNATURE) {
+				const signer = signerOf(cmd.signer);
+				if (!signer) return [];
+				return [{ ...message, cmd: { ...cmd, ...signer.signViewChange(cmd.addrKey, cmd.height, cmd.view) } }];
+			}
 
-			return { ...message, cmd: { ...cleanCmd, hanko, signers } };
-		}
+			if ((cmd.type === 'ACCOUNT_PROPOSE' || cmd.type === 'ACCOUNT_ACK') && cmd.tx.sig === DUMMY_SIGNATURE) {
+				// every local member whose own replica committed the message seals it, for the entity it goes to
+				const sender = accountSender(cmd.tx, cmd.addrKey);
+				const sealed = ownSigners.flatMap(signer => {
+					const own = state.replicas.get(`${sender}:${signer.address}`);
+					const sig = own && signer.signAccountMessage({ state: own.last.state, addrKey: cmd.addrKey, tx: cmd.tx });
+					return sig?.ok ? [{ signer: signer.address, sig: sig.value }] : [];
+				});
+				if (sealed.length === 0) return [];
+				const tx = {
+					...cmd.tx,
+					signers: sealed.map(seal => seal.signer),
+					sig: aggregate(sealed.map(seal => seal.sig)),
+				};
+				return [{ ...message, cmd: { ...cmd, tx } as Command }];
+			}
 
-		return message;
-	};
+			return [message];
+		};
 
 	const tick = ({ now, incoming }: TickParams): TickResult => {
 		const {
 			state: nextState,
 			frame,
 			outbox,
+			admissions,
 		} = applyServerBlock({
 			prev: stateRef.current,
 			batch: incoming,
 			timestamp: now,
 		});
 
-		const fulfilledOutbox = outbox.map(fulfillSignature);
+		// the tick only counts once it is logged: a crash before this point loses it, after it replays it
+		wal?.append(frame);
+		if (wal && snapshots && frame.height % BigInt(snapshots.interval) === 0n) {
+			writeSnapshot(snapshots.dir, nextState);
+			wal.rotate();
+			const oldest = pruneSnapshots(snapshots.dir, snapshots.keep);
+			if (oldest !== undefined) wal.prune(oldest);
+		}
+		const fulfilledOutbox = outbox.flatMap(fulfillSignature(nextState));
 
 		console.log(
 			`Committed ServerFrame #${frame.height.toString()} – hash: ${frame.hash.slice(0, HASH_DISPLAY_LENGTH)}... root: ${frame.root.slice(0, HASH_DISPLAY_LENGTH)}...`,
@@ -116,13 +250,84 @@ export const createRuntime = (): Runtime => {
 
 		// eslint-disable-next-line functional/immutable-data, fp/no-mutation
 		stateRef.current = nextState;
-		return { outbox: fulfilledOutbox, frame };
+		// eslint-disable-next-line functional/immutable-data, fp/no-mutation
+		historyRef.current = recordTick(historyRef.current, { state: nextState, frame }, HISTORY_LIMIT);
+		// eslint-disable-next-line functional/immutable-data, fp/no-mutation
+		clock.now = now;
+		return { outbox: fulfilledOutbox, frame, admissions };
+	};
+
+	/** Sign a tx as a member of `entity` hosted here, with the nonce after its queued txs. */
+	const memberTx = <T extends Transaction>(entity: ReplicaAddr, tx: Pick<T, 'kind' | 'body'>): Input | undefined => {
+		const replica = [...stateRef.current.replicas.values()].find(
+			r => getAddrKey(r.address) === getAddrKey(entity) && ownAddresses.includes(r.proposer),
+		);
+		if (!replica) return undefined;
+		const from = replica.proposer;
+		const signer = signerOf(from);
+		if (!signer) return undefined;
+		const nonce = nextNonce(replica.mempool, from, replica.last.state.quorum.members[from]?.nonce ?? 0n);
+		const signed = signer.signTx<T>(getAddrKey(entity), { ...tx, nonce, from } as Omit<T, 'sig'>);
+		return { from, to: from, cmd: { type: 'ADD_TX', addrKey: getAddrKey(entity), tx: signed } };
+	};
+
+	const drain = (incoming: Input[], ticksLeft: number): void => {
+		if (incoming.length === 0 || ticksLeft === 0) return;
+		drain(tick({ now: clock.now + TICK_INTERVAL_MS, incoming }).outbox, ticksLeft - 1);
+	};
+
+	const pay = (from: ReplicaAddr, to: ReplicaAddr, amount: bigint, asset: AssetId): Result<PaymentReport> => {
+		const route = findRoute({ states: latestEntityStates(stateRef.current.replicas), from, to, amount, asset });
+		if (!route) return err('No route');
+
+		const preimage: Hex = `0x${Buffer.from(randomPriv()).toString('hex')}`;
+		const hashlock = hashlockOf(preimage);
+		const lock = {
+			kind: 'lock' as const,
+			asset,
+			amount,
+			hashlock,
+			expiresAt: clock.now + (route.length - 1) * HTLC_HOP_TIMEOUT_MS,
+			route: route.slice(2),
+		};
+		const invoiceInput = memberTx<InvoiceTx>(to, { kind: 'invoice', body: { preimage } });
+		const lockInput = memberTx<AccountProposeTx>(from, {
+			kind: 'accountPropose',
+			body: { counterparty: route[1], ops: [lock] },
+		});
+		if (!invoiceInput || !lockInput) return err('Entity has no local signer');
+
+		drain([invoiceInput, lockInput], MAX_PAYMENT_TICKS);
+		return ok(reportPayment(latestEntityStates(stateRef.current.replicas), route, hashlock));
 	};
 
 	return {
-		ADDRS,
-		PRIVS: PRIV_HEXES,
+		ADDRS: ownAddresses,
 		debugReplicas,
+		getFrame: height => entryAt(historyRef.current, height)?.frame,
+		getStateAt: height => entryAt(historyRef.current, height)?.state,
+		diffStates: (from, to) => diffHistory(historyRef.current, from, to),
+		getProof: addrKey => stateProof(stateRef.current.replicas, addrKey),
 		tick,
+		pay,
 	};
 };
+
+export const createRuntime = (keys: RuntimeKeys = demoKeys()): Runtime => startRuntime(createGenesis(), 0, keys);
+
+/**
+ * Runtime that logs every tick to `wal`, starting from the state its frames replay to, so a server
+ * that crashed resumes where its last acknowledged tick left it. With `snapshots`, it starts from the
+ * newest intact snapshot and replays only the frames logged after it, then keeps taking snapshots
+ * and pruning what they make redundant. An empty log and no snapshot start from genesis.
+ */
+export const recoverRuntime = (
+	wal: Wal,
+	snapshots?: SnapshotPolicy,
+	keys: RuntimeKeys = demoKeys(),
+): Result<Runtime> => {
+	const base = (snapshots && loadLatestSnapshot(snapshots.dir)) ?? createGenesis();
+	const recovered = replayWal(wal.frames, base);
+	if (!recovered.ok) return recovered;
+	return ok(startRuntime(recovered.value, wal.frames[wal.frames.length - 1]?.ts ?? 0, keys, wal, snapshots));
+};
@@ -1,9 +1,10 @@
-import { keccak_256 as keccak } from '@noble/hashes/sha3';
-import { canonical, encodeServerFrame } from '../codec/rlp';
-import { DUMMY_SIGNATURE, EMPTY_HASH } from '../constants';
-import type { Address, Hex, Input, Replica, ServerFrame, ServerState, TS } from '../types';
+import { hashServerFrame } from '../codec/rlp';
+import { DUMMY_SIGNATURE, EMPTY_HASH, VIEW_CHANGE_TIMEOUT_MS } from '../constants';
+import type { Address, Input, Replica, ServerFrame, ServerState, TS, TxAdmission } from '../types';
 import { getAddrKey } from '../types';
-import { applyCommand } from './entity';
+import { applyCommand, hashFrame, hasAccountWork, selectProposer, validateQuorum } from './entity';
+import { createMempool, readyTxs } from './mempool';
+import { type MerkleLeaf, type StateProof, leafProof, merkleRoot, sortLeaves } from './merkle';
 
 export interface ApplyServerBlockParams {
 	prev: ServerState;
@@ -15,21 +16,113 @@ export interface ApplyServerBlockResult {
 	state: ServerState;
 	frame: ServerFrame;
 	outbox: Input[];
+	/** How each ADD_TX of the batch was admitted, in batch order. */
+	admissions: TxAdmission[];
 }
 
-const computeRoot = (replicas: Map<string, Replica>): Hex => {
-	// sorted array for determinism - state root must be invariant across replicas
-	const mapped = [...replicas.values()].map(r => ({ addr: r.address, state: r.last.state }));
-	// eslint-disable-next-line fp/no-mutating-methods
-	const sorted = [...mapped].sort((a, b) =>
-		(a.addr.jurisdiction + a.addr.entityId).localeCompare(b.addr.jurisdiction + b.addr.entityId),
-	);
-	Object.freeze(sorted);
-	return `0x${Buffer.from(keccak(canonical(sorted))).toString('hex')}`;
+/**
+ * One leaf per entity, keyed by its address key. Every member hosts a replica of the entity, and they
+ * commit the same frames, so the most advanced replica speaks for the entity.
+ */
+export const stateLeaves = (replicas: Map<string, Replica>): MerkleLeaf[] => {
+	const latest = [...replicas.values()].reduce((acc, replica) => {
+		const current = acc.get(getAddrKey(replica.address));
+		return !current || replica.last.height > current.last.height
+			? new Map(acc).set(getAddrKey(replica.address), replica)
+			: acc;
+	}, new Map<string, Replica>());
+	return sortLeaves([...latest.entries()].map(([key, replica]) => ({ key, leaf: hashFrame(replica.last) })));
+};
+
+/** Proof that the entity at `addrKey` has its latest committed frame under the root of `replicas`. */
+export const stateProof = (replicas: Map<string, Replica>, addrKey: string): StateProof | undefined =>
+	leafProof(stateLeaves(replicas), addrKey);
+
+/**
+ * Keep exactly one replica per current quorum member. Governance txs can add or remove signers,
+ * so after a tick we spawn replicas for new members from the most advanced committed frame and
+ * drop those of members that were voted out.
+ */
+const syncMemberReplicas = (replicas: Map<string, Replica>): Map<string, Replica> => {
+	const latestByEntity = [...replicas.values()].reduce((acc, replica) => {
+		const current = acc.get(getAddrKey(replica.address));
+		return !current || replica.last.height > current.last.height
+			? new Map(acc).set(getAddrKey(replica.address), replica)
+			: acc;
+	}, new Map<string, Replica>());
+
+	return [...latestByEntity.entries()].reduce((reps, [eKey, source]) => {
+		// eslint-disable-next-line fp/no-mutating-methods
+		const members = (Object.keys(source.last.state.quorum.members) as Address[]).sort();
+		const pruned = new Map([...reps].filter(([, r]) => getAddrKey(r.address) !== eKey || members.includes(r.proposer)));
+		return members.reduce<Map<string, Replica>>(
+			(acc, signer) =>
+				acc.has(`${eKey}:${signer}`)
+					? acc
+					: new Map(acc).set(`${eKey}:${signer}`, {
+							address: source.address,
+							proposer: signer,
+							isAwaitingSignatures: false,
+							view: 0,
+							viewVotes: {},
+							mempool: createMempool(),
+							last: source.last,
+						}),
+			pruned,
+		);
+	}, replicas);
 };
 
+/**
+ * Whether the replica could propose a frame now: a frame locked in an earlier view, txs without a
+ * nonce gap, or account automation.
+ */
+const hasProposableWork = (replica: Replica, timestamp: TS): boolean =>
+	replica.locked !== undefined ||
+	readyTxs(replica.mempool, replica.last.state.quorum).length > 0 ||
+	hasAccountWork(replica.last.state, timestamp);
+
+/** Note when each replica started waiting on work, or clear it once nothing is left to commit. */
+const trackPendingWork = (replicas: Map<string, Replica>, timestamp: TS): Map<string, Replica> =>
+	[...replicas.entries()].reduce((acc, [key, replica]) => {
+		const hasWork = replica.isAwaitingSignatures || hasProposableWork(replica, timestamp);
+		const pendingSince = hasWork ? (replica.pendingSince ?? timestamp) : undefined;
+		return pendingSince === replica.pendingSince ? acc : new Map(acc).set(key, { ...replica, pendingSince });
+	}, replicas);
+
+/**
+ * Ask every member to move to the next view when a replica has waited `VIEW_CHANGE_TIMEOUT_MS` on
+ * work without a commit, which is how the remaining members replace a silent proposer.
+ */
+const viewChangeRequests = (replicas: Map<string, Replica>, timestamp: TS): Input[] =>
+	[...replicas.values()]
+		.filter(
+			replica =>
+				replica.pendingSince !== undefined &&
+				timestamp - replica.pendingSince >= VIEW_CHANGE_TIMEOUT_MS &&
+				(replica.viewVotes[replica.proposer] ?? 0) <= replica.view,
+		)
+		.flatMap(replica =>
+			(Object.keys(replica.last.state.quorum.members) as Address[]).map(member => ({
+				from: replica.proposer,
+				to: member,
+				cmd: {
+					type: 'VIEW_CHANGE' as const,
+					addrKey: getAddrKey(replica.address),
+					signer: replica.proposer,
+					height: replica.last.height + 1n,
+					view: replica.view + 1,
+					sig: DUMMY_SIGNATURE,
+				},
+			})),
+		);
+
 export function applyServerBlock({ prev, batch, timestamp }: ApplyServerBlockParams): ApplyServerBlockResult {
-	const { finalReplicas, allOutbox } = batch.reduce(
+	const {
+		finalReplicas: processedReplicas,
+		allOutbox,
+		admissions,
+	} = batch.reduce(
 		(acc, input) => {
 			const { cmd: command } = input;
 			/* Determine routing key.
@@ -38,8 +131,13 @@ export function applyServerBlock({ prev, batch, timestamp }: ApplyServerBlockPar
 			const signerPart = (() => {
 				switch (command.type) {
 					case 'ADD_TX':
+					case 'RELAY':
 					case 'SIGN':
 					case 'COMMIT':
+					case 'VIEW_CHANGE':
+					// a counterparty addresses its own signer, so these fall back to any replica of the entity
+					case 'ACCOUNT_PROPOSE':
+					case 'ACCOUNT_ACK':
 						return input.to;
 					case 'PROPOSE':
 						return input.from;
@@ -52,16 +150,26 @@ export function applyServerBlock({ prev, batch, timestamp }: ApplyServerBlockPar
 
 			/* ─── IMPORT command (bootstrap a new Entity into server state) ─── */
 			if (command.type === 'IMPORT') {
-				const baseReplica = command.replica;
+				// one private copy of the import, whose committed frame every member's replica shares
+				const baseReplica = structuredClone(command.replica);
 				const eKey = getAddrKey(baseReplica.address);
-				const newReplicas = Object.keys(baseReplica.last.state.quorum.members).reduce((reps, signerAddr) => {
+				// the imported quorum is where every later signature check reads its keys
+				const quorum = validateQuorum(baseReplica.last.state.quorum);
+				if (!quorum.ok) {
+					console.error(`IMPORT rejected: ${quorum.error}`);
+					return acc;
+				}
+				// members in address order: a decoded record's key order says nothing about the sender's
+				// eslint-disable-next-line fp/no-mutating-methods
+				const members = Object.keys(baseReplica.last.state.quorum.members).sort();
+				const newReplicas = members.reduce((reps, signerAddr) => {
 					const replicaCopy: Replica = {
-						...structuredClone(baseReplica),
+						...baseReplica,
 						proposer: signerAddr as Address,
 					};
 					return new Map(reps).set(`${eKey}:${signerAddr}`, replicaCopy);
 				}, acc.finalReplicas);
-				return { finalReplicas: newReplicas, allOutbox: acc.allOutbox };
+				return { ...acc, finalReplicas: newReplicas };
 			}
 
 			const replica =
@@ -81,26 +189,35 @@ export function applyServerBlock({ prev, batch, timestamp }: ApplyServerBlockPar
 			}
 
 			/* ─── Apply the Entity state machine ─── */
-			const { replica: updatedReplica, outbox: entityOutbox } = applyCommand({ replica, command });
-			const updatedReplicas = new Map(acc.finalReplicas).set(key, updatedReplica);
+			const { replica: updatedReplica, outbox: entityOutbox, admission } = applyCommand({ replica, command });
+			const updatedReplicas = new Map(acc.finalReplicas).set(`${command.addrKey}:${replica.proposer}`, updatedReplica);
 
 			/* The entity layer now handles all consensus logic and generates necessary commands */
 
 			return {
 				finalReplicas: updatedReplicas,
 				allOutbox: [...acc.allOutbox, ...entityOutbox],
+				admissions: admission ? [...acc.admissions, admission] : acc.admissions,
 			};
 		},
-		{ finalReplicas: new Map(prev.replicas), allOutbox: [] as Input[] },
+		{ finalReplicas: new Map(prev.replicas), allOutbox: [] as Input[], admissions: [] as TxAdmission[] },
 	);
+	const finalReplicas = trackPendingWork(syncMemberReplicas(processedReplicas), timestamp);
 
-	/* ─── Generate PROPOSE commands for entities with pending transactions ─── */
 	const proposeEntries = Array.from(finalReplicas.entries()).reduce<Array<[string, Input]>>(
 		(entries, [key, replica]) => {
 			const entityKey = replica.address.jurisdiction + ':' + replica.address.entityId;
 
-			// Only process each entity once, and only if it's the proposer's replica
-			if (key.endsWith(':' + replica.proposer) && !replica.isAwaitingSignatures && replica.mempool.length > 0) {
+			// Only the replica of the designated proposer for its current view proposes.
+			// Account automation (HTLC refunds, routed payments) needs a frame even when nothing is queued.
+			const hasWork = hasProposableWork(replica, timestamp);
+			const designated = selectProposer(replica.last.state.quorum, replica.last.height + 1n, replica.view);
+			if (
+				key.endsWith(':' + replica.proposer) &&
+				replica.proposer === designated &&
+				!replica.isAwaitingSignatures &&
+				hasWork
+			) {
 				return [
 					...entries,
 					[
@@ -136,34 +253,30 @@ export function applyServerBlock({ prev, batch, timestamp }: ApplyServerBlockPar
 		{ seen: [], commands: [] },
 	).commands;
 
-	const finalOutbox = [...allOutbox, ...proposeCommands];
+	const finalOutbox = [...allOutbox, ...proposeCommands, ...viewChangeRequests(finalReplicas, timestamp)];
 
 	/* ─── After processing all inputs, build the ServerFrame for this tick ─── */
 	const newHeight = prev.height + 1n;
-	const rootHash = computeRoot(finalReplicas); // Merkle root of all Entity states after this tick
+	const rootHash = merkleRoot(stateLeaves(finalReplicas)); // Merkle root of all Entity frames after this tick
 	const frame: ServerFrame = {
 		height: newHeight,
 		ts: timestamp,
 		inputs: batch,
 		root: rootHash,
 		parent: prev.lastHash ?? EMPTY_HASH,
-		hash: `0x${Buffer.from(
-			keccak(
-				encodeServerFrame({
-					height: newHeight,
-					ts: timestamp,
-					inputs: batch,
-					root: rootHash,
-					parent: prev.lastHash ?? EMPTY_HASH,
-					hash: DUMMY_SIGNATURE,
-				}),
-			),
-		).toString('hex')}`,
+		hash: hashServerFrame({
+			height: newHeight,
+			ts: timestamp,
+			inputs: batch,
+			root: rootHash,
+			parent: prev.lastHash ?? EMPTY_HASH,
+		}),
 	};
 
 	return {
 		state: { replicas: finalReplicas, height: newHeight, lastHash: frame.hash },
 		frame,
 		outbox: finalOutbox,
+		admissions,
 	};
 }
@@ -0,0 +1,104 @@
+import { encodeTxPayload, encodeViewChangePayload, hexToBuf } from '../codec/rlp';
+import { type PrivKey, type PubKey, deriveAddress, getPublicKey, provePossession, sign } from '../crypto/bls';
+import type {
+	AccountAckTx,
+	AccountFrameTx,
+	Address,
+	EntityState,
+	Frame,
+	Hex,
+	LockedFrame,
+	Result,
+	Transaction,
+	UInt64,
+} from '../types';
+import { err, getAddrKey, ok } from '../types';
+import { checkAccountMessage, hashTx, replayFrame } from './entity';
+
+export interface SignFrameParams {
+	/** The frame the signer's own replica last committed. */
+	last: Frame<EntityState>;
+	/** The frame the proposer asks it to sign. */
+	proposal: Frame<EntityState>;
+	frameHash: Hex;
+	/** View the proposal was made in. */
+	view: number;
+	/** Highest view the signer has asked for or moved to at the proposal's height. */
+	votedView: number;
+}
+
+export interface SignAccountMessageParams {
+	/** The state the signer's own replica of the sending entity last committed. */
+	state: EntityState;
+	/** Address key of the counterparty entity the message goes to. */
+	addrKey: string;
+	tx: AccountFrameTx | AccountAckTx;
+}
+
+/** A signed request for a new view, naming the frame the signer is locked on at that height. */
+export interface ViewChangeVote {
+	locked?: LockedFrame;
+	sig: Hex;
+}
+
+/**
+ * One member's key, and the only thing that signs with it. A signer vouches for a frame only after
+ * replaying it over its own replica's last frame and getting the hash it was asked to sign, and never
+ * for a proposal from a view it has asked to leave, so a replaced proposer cannot still gather a quorum.
+ * Once it signs a frame at a height it signs no other there in any view, so proposers in two views
+ * cannot both reach the threshold; its view-change votes carry that frame for the next proposer.
+ */
+export interface Signer {
+	readonly address: Address;
+	readonly publicKey: PubKey;
+	signFrame(params: SignFrameParams): Result<Hex>;
+	signViewChange(addrKey: string, height: UInt64, view: number): ViewChangeVote;
+	/** Add to the hanko of an account message, only one its member's own committed state stands behind. */
+	signAccountMessage(params: SignAccountMessageParams): Result<Hex>;
+	/** Sign a tx for the entity at `addrKey`, the only one it can apply in. */
+	signTx<T extends Transaction>(addrKey: string, tx: Omit<T, 'sig'>): T;
+	/** Proof of possession of the key, which a quorum asks for before admitting it. */
+	provePossession(): Hex;
+}
+
+export const createSigner = (privateKey: PrivKey): Signer => {
+	const publicKey = getPublicKey(privateKey);
+	/** The last frame signed for each entity, by address key. */
+	const locks = new Map<string, LockedFrame & { hash: Hex }>();
+
+	return {
+		address: deriveAddress(publicKey),
+		publicKey,
+		signFrame: ({ last, proposal, frameHash, view, votedView }) => {
+			if (view < votedView) return err('Proposal from an abandoned view');
+			const addrKey = getAddrKey(last.state.address);
+			const held = locks.get(addrKey);
+			if (held?.frame.height === proposal.height && held.hash !== frameHash) {
+				return err('Already signed another frame at this height');
+			}
+			const replayed = replayFrame(last, proposal);
+			if (!replayed.ok) return replayed;
+			if (replayed.value !== frameHash) return err('Frame hash mismatch');
+
+			const { height, ts, txs, receipts, state, root } = proposal;
+			// eslint-disable-next-line functional/immutable-data
+			locks.set(addrKey, { view, frame: { height, ts, txs, receipts, state, root }, hash: frameHash });
+			return ok(sign({ message: hexToBuf(frameHash), privateKey }));
+		},
+		signViewChange: (addrKey, height, view) => {
+			const held = locks.get(addrKey);
+			const locked = held?.frame.height === height ? held : undefined;
+			const sig = sign({ message: encodeViewChangePayload(addrKey, height, view, locked?.hash), privateKey });
+			return locked ? { locked: { view: locked.view, frame: locked.frame }, sig } : { sig };
+		},
+		signAccountMessage: ({ state, addrKey, tx }) => {
+			if (!state.quorum.members[deriveAddress(publicKey)]) return err('Not a member of the sending entity');
+			const vouched = checkAccountMessage(state, tx);
+			if (!vouched.ok) return vouched;
+			return ok(sign({ message: hexToBuf(hashTx(addrKey, tx)), privateKey }));
+		},
+		signTx: <T extends Transaction>(addrKey: string, tx: Omit<T, 'sig'>) =>
+			({ ...tx, sig: sign({ message: encodeTxPayload(addrKey, tx), privateKey }) }) as T,
+		provePossession: () => provePossession(privateKey),
+	};
+};
@@ -0,0 +1,132 @@
+import { keccak_256 as keccak } from '@noble/hashes/sha3';
+import {
+	closeSync,
+	existsSync,
+	fsyncSync,
+	mkdirSync,
+	openSync,
+	readFileSync,
+	readdirSync,
+	renameSync,
+	rmSync,
+	writeSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import { canonicalTagged, parseTagged } from '../codec/rlp';
+import type { Hex, Replica, Result, ServerState, UInt64 } from '../types';
+import { err, getAddrKey, ok } from '../types';
+
+const SNAPSHOT_SUFFIX = '.snapshot';
+
+/** When a runtime writes snapshots, and how many it keeps. */
+export interface SnapshotPolicy {
+	dir: string;
+	/** Write a snapshot after every tick whose server height is a multiple of this. */
+	interval: number;
+	/** Snapshots retained; older ones and the WAL segments only they needed are deleted. */
+	keep: number;
+}
+
+/** A snapshot on disk: the server height it captures and the keccak hash of its contents. */
+export interface SnapshotFile {
+	height: UInt64;
+	hash: Hex;
+	path: string;
+}
+
+interface SnapshotBody {
+	height: UInt64;
+	lastHash: Hex;
+	/** Replicas by key, in the order of the server's Map. */
+	replicas: [string, Replica][];
+}
+
+export const encodeSnapshot = (state: ServerState): Buffer => {
+	// keep the Map's insertion order: the server iterates replicas in it to build each tick's outbox
+	const replicas = [...state.replicas.entries()];
+	const body: SnapshotBody = { height: state.height, lastHash: state.lastHash, replicas };
+	return Buffer.from(canonicalTagged(body));
+};
+
+/**
+ * Parsing gives every replica its own copy of its committed frame. Replicas of an entity that
+ * committed the same frame point to one copy again, as they did in the server that wrote it.
+ */
+const shareFrames = (replicas: [string, Replica][]): [string, Replica][] =>
+	replicas.reduce<{ frames: Map<string, Replica['last']>; replicas: [string, Replica][] }>(
+		(acc, [key, replica]) => {
+			const id = canonicalTagged([getAddrKey(replica.address), replica.last]);
+			const last = acc.frames.get(id) ?? replica.last;
+			return { frames: new Map(acc.frames).set(id, last), replicas: [...acc.replicas, [key, { ...replica, last }]] };
+		},
+		{ frames: new Map(), replicas: [] },
+	).replicas;
+
+export const decodeSnapshot = (buffer: Buffer): Result<ServerState> => {
+	try {
+		const body = parseTagged<SnapshotBody>(buffer.toString());
+		return ok({ height: body.height, lastHash: body.lastHash, replicas: new Map(shareFrames(body.replicas)) });
+	} catch (e) {
+		return err(`Failed to decode snapshot: ${String(e)}`);
+	}
+};
+
+const hashContents = (buffer: Buffer): Hex => `0x${Buffer.from(keccak(buffer)).toString('hex')}`;
+
+/** File names sort by height, zero-padded to the digits of a uint64, and carry the content hash. */
+const snapshotName = (height: UInt64, hash: Hex): string =>
+	`${height.toString().padStart(20, '0')}-${hash.slice(2)}${SNAPSHOT_SUFFIX}`;
+
+/** Snapshots in `dir`, newest first. */
+export const listSnapshots = (dir: string): SnapshotFile[] =>
+	// eslint-disable-next-line fp/no-mutating-methods
+	(existsSync(dir) ? readdirSync(dir) : [])
+		.filter(name => /^\d{20}-[0-9a-f]{64}\.snapshot$/.test(name))
+		.sort((a, b) => b.localeCompare(a))
+		.map(name => ({
+			height: BigInt(name.slice(0, 20)),
+			hash: `0x${name.slice(21, -SNAPSHOT_SUFFIX.length)}`,
+			path: join(dir, name),
+		}));
+
+/**
+ * Write `state` to `dir`. The file is written under a temporary name, flushed and then renamed, so
+ * a crash never leaves a partial snapshot under a valid name.
+ */
+export const writeSnapshot = (dir: string, state: ServerState): SnapshotFile => {
+	mkdirSync(dir, { recursive: true });
+	const contents = encodeSnapshot(state);
+	const hash = hashContents(contents);
+	const path = join(dir, snapshotName(state.height, hash));
+	const tmp = `${path}.tmp`;
+	const fd = openSync(tmp, 'w');
+	writeSync(fd, contents);
+	fsyncSync(fd);
+	closeSync(fd);
+	renameSync(tmp, path);
+	return { height: state.height, hash, path };
+};
+
+/** Read a snapshot, refusing one whose contents no longer match the hash in its name. */
+export const readSnapshot = (file: SnapshotFile): Result<ServerState> => {
+	const contents = readFileSync(file.path);
+	if (hashContents(contents) !== file.hash) return err(`Snapshot hash mismatch at height ${file.height}`);
+	const state = decodeSnapshot(contents);
+	if (!state.ok) return state;
+	return state.value.height === file.height ? state : err(`Snapshot height mismatch at height ${file.height}`);
+};
+
+/** The newest snapshot in `dir` that reads back intact, skipping damaged ones. */
+export const loadLatestSnapshot = (dir: string): ServerState | undefined =>
+	listSnapshots(dir).reduce<ServerState | undefined>((found, file) => {
+		if (found) return found;
+		const state = readSnapshot(file);
+		return state.ok ? state.value : undefined;
+	}, undefined);
+
+/** Delete all but the `keep` newest snapshots, returning the height of the oldest one kept. */
+export const pruneSnapshots = (dir: string, keep: number): UInt64 | undefined => {
+	const snapshots = listSnapshots(dir);
+	snapshots.slice(keep).forEach(file => rmSync(file.path, { force: true }));
+	return snapshots[Math.min(keep, snapshots.length) - 1]?.height;
+};
@@ -0,0 +1,153 @@
+import {
+	closeSync,
+	fsyncSync,
+	mkdirSync,
+	openSync,
+	readFileSync,
+	readdirSync,
+	rmSync,
+	truncateSync,
+	writeSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import { decodeServerFrame, encodeServerFrame } from '../codec/rlp';
+import type { Result, ServerFrame, ServerState, UInt64 } from '../types';
+import { err, ok } from '../types';
+import { applyServerBlock } from './server';
+
+/** Bytes of the big-endian length that precedes every record. */
+const RECORD_HEADER_LENGTH = 4;
+const SEGMENT_SUFFIX = '.wal';
+
+/**
+ * Durable, append-only log of the ServerFrames a runtime has committed, one record per tick. The log
+ * is a directory of segment files, each named after the height of its first frame, so history that
+ * a snapshot covers can be dropped a whole segment at a time.
+ */
+export interface Wal {
+	/** Every frame still logged, oldest first. */
+	readonly frames: readonly ServerFrame[];
+	/** Append a frame and flush it to disk before returning. */
+	append(frame: ServerFrame): void;
+	/** Start a new segment for the frames appended from now on. */
+	rotate(): void;
+	/** Delete the closed segments holding only frames at or below `height`. */
+	prune(height: UInt64): void;
+	close(): void;
+}
+
+interface Segment {
+	start: UInt64;
+	path: string;
+	frames: ServerFrame[];
+}
+
+/** Segment names sort by height: the start height, zero-padded to the digits of a uint64. */
+const segmentName = (start: UInt64): string => `${start.toString().padStart(20, '0')}${SEGMENT_SUFFIX}`;
+
+/**
+ * Split a segment into its records. A crash while appending leaves a record cut short at the end;
+ * it was never acknowledged, so it is dropped and `validLength` tells where the next record goes.
+ */
+const readRecords = (buffer: Buffer): { records: Buffer[]; validLength: number } => {
+	const next = (offset: number, records: Buffer[]): { records: Buffer[]; validLength: number } => {
+		if (offset + RECORD_HEADER_LENGTH > buffer.length) return { records, validLength: offset };
+		const end = offset + RECORD_HEADER_LENGTH + buffer.readUInt32BE(offset);
+		if (end > buffer.length) return { records, validLength: offset };
+		return next(end, [...records, buffer.subarray(offset + RECORD_HEADER_LENGTH, end)]);
+	};
+	return next(0, []);
+};
+
+const readSegment = (path: string, start: UInt64, isLast: boolean): Result<Segment> => {
+	const buffer = readFileSync(path);
+	const { records, validLength } = readRecords(buffer);
+	if (validLength !== buffer.length && !isLast) return err(`Truncated WAL segment ${path}`);
+	if (validLength !== buffer.length) truncateSync(path, validLength);
+
+	const decoded = records.map(decodeServerFrame);
+	const failed = decoded.findIndex(result => !result.ok);
+	if (failed !== -1) {
+		const result = decoded[failed];
+		return err(`Corrupt WAL record ${failed} in ${path}: ${result.ok ? '' : result.error}`);
+	}
+	return ok({ start, path, frames: decoded.flatMap(result => (result.ok ? [result.value] : [])) });
+};
+
+/**
+ * Open the log in `dir`, creating it when missing. Only the newest segment may end in a torn record;
+ * a complete record that does not decode anywhere is corruption rather than an interrupted write.
+ */
+export const openWal = (dir: string): Result<Wal> => {
+	mkdirSync(dir, { recursive: true });
+	// eslint-disable-next-line fp/no-mutating-methods
+	const names = readdirSync(dir)
+		.filter(name => name.endsWith(SEGMENT_SUFFIX))
+		.sort();
+	const read = names.reduce<Result<Segment[]>>((acc, name, i) => {
+		if (!acc.ok) return acc;
+		const segment = readSegment(join(dir, name), BigInt(name.slice(0, -SEGMENT_SUFFIX.length)), i === names.length - 1);
+		return segment.ok ? ok([...acc.value, segment.value]) : segment;
+	}, ok([]));
+	if (!read.ok) return read;
+
+	const first: Segment = { start: 1n, path: join(dir, segmentName(1n)), frames: [] };
+	const log = { segments: read.value.length > 0 ? read.value : [first] };
+	const current = (): Segment => log.segments[log.segments.length - 1];
+	const fd = { current: openSync(current().path, 'a') };
+
+	return ok({
+		get frames() {
+			return log.segments.flatMap(segment => segment.frames);
+		},
+		append: frame => {
+			const payload = encodeServerFrame(frame);
+			const header = Buffer.alloc(RECORD_HEADER_LENGTH);
+			header.writeUInt32BE(payload.length);
+			writeSync(fd.current, Buffer.concat([header, payload]));
+			fsyncSync(fd.current);
+			const { segments } = log;
+			// eslint-disable-next-line functional/immutable-data, fp/no-mutation
+			log.segments = [...segments.slice(0, -1), { ...current(), frames: [...current().frames, frame] }];
+		},
+		rotate: () => {
+			const { frames } = current();
+			if (frames.length === 0) return;
+			const start = frames[frames.length - 1].height + 1n;
+			closeSync(fd.current);
+			// eslint-disable-next-line functional/immutable-data, fp/no-mutation
+			log.segments = [...log.segments, { start, path: join(dir, segmentName(start)), frames: [] }];
+			// eslint-disable-next-line functional/immutable-data, fp/no-mutation
+			fd.current = openSync(current().path, 'a');
+		},
+		prune: height => {
+			// a closed segment ends right before the next one starts
+			const dropped = log.segments.filter(
+				(_, i) => i < log.segments.length - 1 && log.segments[i + 1].start <= height + 1n,
+			);
+			dropped.forEach(segment => rmSync(segment.path, { force: true }));
+			// eslint-disable-next-line functional/immutable-data, fp/no-mutation
+			log.segments = log.segments.slice(dropped.length);
+		},
+		close: () => closeSync(fd.current),
+	});
+};
+
+/**
+ * Rebuild the server state by re-applying every logged batch after `base` at its logged time. Each
+ * frame must link to the hash recomputed for the one before it and reproduce the logged state root
+ * and hash, so a log that was edited, reordered or replayed by different code is refused instead of
+ * silently diverging. Frames `base` already covers are skipped.
+ */
+export const replayWal = (frames: readonly ServerFrame[], base: ServerState): Result<ServerState> =>
+	frames
+		.filter(frame => frame.height > base.height)
+		.reduce<Result<ServerState>>((acc, logged) => {
+			if (!acc.ok) return acc;
+			if (logged.height !== acc.value.height + 1n) return err(`WAL height gap at ${logged.height}`);
+			if (logged.parent !== acc.value.lastHash) return err(`WAL parent link broken at height ${logged.height}`);
+
+			const { state, frame } = applyServerBlock({ prev: acc.value, batch: logged.inputs, timestamp: logged.ts });
+			if (frame.root !== logged.root) return err(`WAL state root mismatch at height ${logged.height}`);
+			return frame.hash === logged.hash ? ok(state) : err(`WAL hash mismatch at height ${logged.height}`);
+		}, ok(base));
@@ -26,6 +26,12 @@ export interface VerifyParams {
 	publicKey: PubKey;
 }
 
+/**
+ * Domain of proofs of possession, apart from that of ordinary signatures, so that no signature over
+ * a message can pass for a proof.
+ */
+const POP_DST = 'BLS_POP_BLS12381G2_XMD:SHA-256_SSWU_RO_POP_';
+
 export interface VerifyAggregateParams {
 	hanko: Hex;
 	messageHash: Hex;
@@ -38,12 +44,47 @@ export const sign = ({ message, privateKey }: SignParams): Hex =>
 export const verify = ({ message, signature, publicKey }: VerifyParams): boolean =>
 	bls.verify(Uint8Array.from(Buffer.from(signature.slice(2), 'hex')), message, publicKey);
 
+/** Proof that the holder of `privateKey` knows it: its signature over its own public key. */
+export const provePossession = (privateKey: PrivKey): Hex =>
+	`0x${Buffer.from(bls.sign(getPublicKey(privateKey), privateKey, { DST: POP_DST })).toString('hex')}`;
+
+/**
+ * Whether `proof` shows possession of the key behind `publicKey`. A key that entered a quorum only
+ * with such a proof cannot be a rogue key crafted from the other members' keys to cancel them out of
+ * an aggregate.
+ */
+export const verifyPossession = (publicKey: PubKey, proof: Hex): boolean =>
+	bls.verify(Uint8Array.from(Buffer.from(proof.slice(2), 'hex')), publicKey, publicKey, { DST: POP_DST });
+
 export const aggregate = (signatures: Hex[]): Hex =>
 	`0x${Buffer.from(bls.aggregateSignatures(signatures.map(sig => Uint8Array.from(Buffer.from(sig.slice(2), 'hex'))))).toString('hex')}`;
 
+/** Aggregate checked as one signature per key, at one pairing per signer. */
 export const verifyAggregate = ({ hanko, messageHash, publicKeys }: VerifyAggregateParams): boolean =>
 	bls.verifyBatch(
 		Uint8Array.from(Buffer.from(hanko.slice(2), 'hex')),
 		publicKeys.map(() => Uint8Array.from(Buffer.from(messageHash.slice(2), 'hex'))),
 		publicKeys,
 	);
+
+/** Sum of public keys: the key the aggregate of their signatures over one message verifies under. */
+export const aggregatePublicKeys = (publicKeys: PubKey[]): PubKey => bls.aggregatePublicKeys(publicKeys);
+
+export interface VerifyFastAggregateParams {
+	hanko: Hex;
+	messageHash: Hex;
+	/** `aggregatePublicKeys` of the signers' keys. */
+	aggregateKey: PubKey;
+}
+
+/**
+ * Aggregate of signatures over one message, checked with a single pairing against the sum of the
+ * signers' keys. Sound only if every summed key came with a proof of possession: otherwise a rogue key
+ * chosen to cancel the others out of the sum lets its owner sign for all of them.
+ */
+export const verifyFastAggregate = ({ hanko, messageHash, aggregateKey }: VerifyFastAggregateParams): boolean =>
+	bls.verify(
+		Uint8Array.from(Buffer.from(hanko.slice(2), 'hex')),
+		Uint8Array.from(Buffer.from(messageHash.slice(2), 'hex')),
+		aggregateKey,
+	);
@@ -0,0 +1,75 @@
+import { bls12_381 as bls } from '@noble/curves/bls12-381';
+import { expand, extract } from '@noble/hashes/hkdf';
+import { pbkdf2 } from '@noble/hashes/pbkdf2';
+import { sha256, sha512 } from '@noble/hashes/sha2';
+import type { Result } from '../types';
+import { err, ok } from '../types';
+import type { PrivKey } from './bls';
+
+/*
+ * BLS key derivation as EIP-2333 specifies it: a master key from a seed, and child keys from a
+ * parent key and an index. The same seed always yields the same keys, so a set of members can be
+ * restored from one secret.
+ */
+
+const KEYGEN_SALT = Buffer.from('BLS-SIG-KEYGEN-SALT-');
+/** Bytes of HKDF output reduced modulo the group order, enough to leave no noticeable bias. */
+const KEYGEN_OKM_LENGTH = 48;
+/** Bytes of each Lamport key chunk, and the number of chunks per Lamport key. */
+const LAMPORT_CHUNK = 32;
+const LAMPORT_CHUNKS = 255;
+const MIN_SEED_LENGTH = 32;
+
+const toBytes = (n: bigint, length: number): Buffer => Buffer.from(n.toString(16).padStart(length * 2, '0'), 'hex');
+
+const fromBytes = (bytes: Uint8Array): bigint => BigInt(`0x${Buffer.from(bytes).toString('hex') || '0'}`);
+
+/** HKDF output mapped onto a non-zero scalar, hashing the salt again until it lands on one. */
+const hkdfModR = (ikm: Uint8Array, salt: Uint8Array = KEYGEN_SALT): bigint => {
+	const nextSalt = sha256(salt);
+	const prk = extract(sha256, Buffer.concat([ikm, Buffer.from([0])]), nextSalt);
+	const okm = expand(sha256, prk, Buffer.from([0, KEYGEN_OKM_LENGTH]), KEYGEN_OKM_LENGTH);
+	const sk = fromBytes(okm) % bls.params.r;
+	return sk === 0n ? hkdfModR(ikm, nextSalt) : sk;
+};
+
+const lamportChunks = (ikm: Uint8Array, salt: Uint8Array): Uint8Array[] => {
+	const okm = expand(sha256, extract(sha256, ikm, salt), new Uint8Array(), LAMPORT_CHUNK * LAMPORT_CHUNKS);
+	return Array.from({ length: LAMPORT_CHUNKS }, (_, i) => okm.subarray(i * LAMPORT_CHUNK, (i + 1) * LAMPORT_CHUNK));
+};
+
+/** Hash of the Lamport public key a parent key and index determine, from which the child key is drawn. */
+const compressedLamportPk = (parent: bigint, index: number): Uint8Array => {
+	const salt = toBytes(BigInt(index), 4);
+	const ikm = toBytes(parent, 32);
+	const flipped = ikm.map(byte => byte ^ 0xff);
+	const chunks = [...lamportChunks(ikm, salt), ...lamportChunks(flipped, salt)];
+	return sha256(Buffer.concat(chunks.map(chunk => sha256(chunk))));
+};
+
+const isIndex = (index: number): boolean => Number.isInteger(index) && index >= 0 && index < 2 ** 32;
+
+/** Master key of `seed`, which must hold at least 32 bytes of entropy. */
+export const deriveMasterKey = (seed: Uint8Array): Result<PrivKey> =>
+	seed.length < MIN_SEED_LENGTH ? err(`Seed shorter than ${MIN_SEED_LENGTH} bytes`) : ok(toBytes(hkdfModR(seed), 32));
+
+export const deriveChildKey = (parent: PrivKey, index: number): Result<PrivKey> =>
+	isIndex(index)
+		? ok(toBytes(hkdfModR(compressedLamportPk(fromBytes(parent), index)), 32))
+		: err(`Invalid key index ${index}`);
+
+/** Key number `index` of `seed`: the child at `index` of the seed's master key (path m/index). */
+export const deriveKey = (seed: Uint8Array, index: number): Result<PrivKey> => {
+	const master = deriveMasterKey(seed);
+	return master.ok ? deriveChildKey(master.value, index) : master;
+};
+
+/**
+ * Seed of a mnemonic phrase as BIP-39 stretches it: PBKDF2-HMAC-SHA512 over the NFKD-normalized
+ * words, 2048 rounds. The words are not checked against a wordlist, so a typo yields other keys.
+ */
+export const mnemonicToSeed = (mnemonic: string, passphrase = ''): Uint8Array =>
+	pbkdf2(sha512, mnemonic.trim().split(/\s+/).join(' ').normalize('NFKD'), `mnemonic${passphrase}`.normalize('NFKD'), {
+		c: 2048,
+		dkLen: 64,
+	});
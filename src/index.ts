@@ -6,25 +6,26 @@ import {
 	TICK_INTERVAL_MS,
 	TOTAL_SIGNERS,
 } from './constants';
-import { createRuntime } from './core/runtime';
+import { encodeTxPayload } from './codec/rlp';
+import { selectProposer } from './core/entity';
+import { DEMO_KEYS, DEMO_PRIVS, createRuntime } from './core/runtime';
 import { sign } from './crypto/bls';
-import type { Address, EntityState, Frame, Input, Quorum, Replica, SignerRecord, Transaction } from './types';
+import type { Address, ChatTx, EntityState, Frame, Input, Quorum, Replica, SignerRecord, Transaction } from './types';
 
 // Demo script showing multiple consensus rounds
 
 // Initialize the runtime (which sets up the 5 signers and genesis state)
 const runtime = createRuntime();
 
-// Use the addresses and keys from the runtime
+// Use the addresses of the members the runtime signs for
 const DEMO_ADDRS = runtime.ADDRS;
-const DEMO_PRIVS = runtime.PRIVS;
 
 // Helper to create the genesis replica for IMPORT
 const createGenesisReplica = (): Replica => {
 	const members = DEMO_ADDRS.reduce<Record<Address, SignerRecord>>(
 		(acc, addr) => ({
 			...acc,
-			[addr as Address]: { nonce: 0n, shares: 100n },
+			[addr as Address]: { nonce: 0n, shares: 100n, ...DEMO_KEYS[addr as Address] },
 		}),
 		{},
 	);
@@ -34,11 +35,20 @@ const createGenesisReplica = (): Replica => {
 		members,
 	};
 
-	const initState: EntityState = { quorum, chat: [] };
+	const initState: EntityState = {
+		address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
+		quorum,
+		chat: [],
+		proposals: {},
+		balances: {},
+		accounts: {},
+		payments: {},
+	};
 	const initFrame: Frame<EntityState> = {
 		height: 0n,
 		ts: 0,
 		txs: [],
+		receipts: [],
 		state: initState,
 	};
 
@@ -46,7 +56,9 @@ const createGenesisReplica = (): Replica => {
 		address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
 		proposer: DEMO_ADDRS[0] as Address,
 		isAwaitingSignatures: false,
-		mempool: [],
+		view: 0,
+		viewVotes: {},
+		mempool: { queues: {}, inbound: [] },
 		last: initFrame,
 	};
 };
@@ -60,23 +72,18 @@ const createSignedTransaction = (fromIndex: number, message: string): Transactio
 	const memberRecord = proposerReplica?.last.state.quorum.members[fromAddr as `0x${string}`];
 	const currentNonce = memberRecord?.nonce ?? 0n;
 
-	const baseTx: Omit<Transaction, 'sig'> = {
+	const baseTx: Omit<ChatTx, 'sig'> = {
 		kind: 'chat',
 		nonce: currentNonce,
 		from: fromAddr as `0x${string}`,
 		body: { message },
 	};
 
-	const msgToSign = Buffer.from(
-		JSON.stringify({
-			kind: baseTx.kind,
-			nonce: baseTx.nonce.toString(),
-			from: baseTx.from,
-			body: baseTx.body,
-		}),
-	);
-
-	const signature = sign({ message: msgToSign, privateKey: Buffer.from(privKey.slice(2), 'hex') });
+	const addrKey = `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`;
+	const signature = sign({
+		message: encodeTxPayload(addrKey, baseTx),
+		privateKey: Buffer.from(privKey.slice(2), 'hex'),
+	});
 	return { ...baseTx, sig: signature };
 };
 
@@ -115,9 +122,12 @@ const createSignedTransaction = (fromIndex: number, message: string): Transactio
 	const runConsensusRound = (transactions: Transaction[], currentTick: number): number => {
 		console.log(`\n━━━ CONSENSUS ROUND ${Math.floor((currentTick - 1) / 4) + 1} ━━━`);
 
+		// submit to the replica of the member whose turn it is to propose the next frame
+		const { last, view } = runtime.debugReplicas().get(`${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}:${DEMO_ADDRS[0]}`) ?? {};
+		const proposer = last ? selectProposer(last.state.quorum, last.height + 1n, view ?? 0) : (DEMO_ADDRS[0] as Address);
 		const addTxInputs: Input[] = transactions.map(tx => ({
 			from: tx.from,
-			to: DEMO_ADDRS[0] as `0x${string}`,
+			to: proposer,
 			cmd: { type: 'ADD_TX' as const, addrKey: `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`, tx },
 		}));
 
@@ -141,7 +151,9 @@ const createSignedTransaction = (fromIndex: number, message: string): Transactio
 			now: baseTime + TICK_INTERVAL_MS * tick2,
 			incoming: out1,
 		});
-		console.log(`  → Proposal created, requesting signatures from ${out2.length} signers`);
+		console.log(
+			`  → Proposal created, requesting signatures from ${out2.filter(o => o.cmd.type === 'SIGN').length} signers`,
+		);
 
 		// Tick 3: Process SIGN commands
 		const tick3 = tick2 + 1;
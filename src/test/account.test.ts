@@ -0,0 +1,609 @@
+import { describe, expect, it } from 'bun:test';
+import { bufToHex, encodeTxPayload, hexToBuf } from '../codec/rlp';
+import {
+	applyAccountOps,
+	createAccount,
+	getAccountBalance,
+	getCreditLine,
+	hashAccountState,
+	hashlockOf,
+} from '../core/account';
+import { DUMMY_SIGNATURE } from '../constants';
+import { applyCommand, applyTx, boardOf, execFrame, hasAccountWork, hashTx } from '../core/entity';
+import { DEMO_KEYS, DEMO_PRIVS, type Runtime, createRuntime } from '../core/runtime';
+import { aggregate, deriveAddress, getPublicKey, provePossession, randomPriv, sign } from '../crypto/bls';
+import type {
+	AccountAckTx,
+	AccountFrame,
+	AccountFrameTx,
+	AccountOp,
+	AccountProposeTx,
+	AccountState,
+	Address,
+	Balances,
+	Board,
+	LowerCreditLimitTx,
+	SetCreditLimitTx,
+	EntityState,
+	Hex,
+	Input,
+	Replica,
+	ReplicaAddr,
+	Result,
+	Transaction,
+} from '../types';
+import { getAccountKey, getAddrKey } from '../types';
+
+const runtime = createRuntime();
+const ADDRS = runtime.ADDRS as Address[];
+const [ALICE, BOB, CAROL, DAVE, EVE] = ADDRS;
+
+const HUB: ReplicaAddr = { jurisdiction: 'test', entityId: 'hub' };
+const SHOP: ReplicaAddr = { jurisdiction: 'test', entityId: 'shop' };
+const KEY = getAccountKey(HUB, SHOP);
+const HUB_MEMBERS = [ALICE, BOB, CAROL];
+const SHOP_MEMBERS = [DAVE, EVE];
+
+const createEntityState = (address: ReplicaAddr, members: Address[], balances: Balances = {}): EntityState => ({
+	address,
+	quorum: {
+		threshold: 2n,
+		members: Object.fromEntries(members.map(addr => [addr, { nonce: 0n, shares: 1n, ...DEMO_KEYS[addr] }])),
+	},
+	chat: [],
+	proposals: {},
+	balances,
+	accounts: {},
+	payments: {},
+});
+
+/** Sign `tx` for the entity it is applied in. */
+const signTx = <T extends Transaction>(
+	entity: ReplicaAddr,
+	tx: Omit<T, 'sig'>,
+	privateKey = hexToBuf(DEMO_PRIVS[ADDRS.indexOf(tx.from)]),
+): T => ({ ...tx, sig: sign({ message: encodeTxPayload(getAddrKey(entity), tx), privateKey }) }) as T;
+
+/** The entity whose board `member` sits on, the other one, and that board's members. */
+const entityOf = (member: Address): ReplicaAddr => (HUB_MEMBERS.includes(member) ? HUB : SHOP);
+const peerOf = (member: Address): ReplicaAddr => (HUB_MEMBERS.includes(member) ? SHOP : HUB);
+const membersOf = (member: Address): Address[] => (HUB_MEMBERS.includes(member) ? HUB_MEMBERS : SHOP_MEMBERS);
+
+/** The board `member` sits on, as its entity's account messages carry it. */
+const boardFor = (member: Address): Board => boardOf(createEntityState(entityOf(member), membersOf(member)).quorum);
+
+/** Seal an account message of `from`'s entity for the counterparty with a hanko of `signers`. */
+const sealTx = <T extends AccountFrameTx | AccountAckTx>(
+	tx: Omit<T, 'sig' | 'signers'>,
+	signers = membersOf(tx.from),
+	privateKeys: Uint8Array[] = signers.map(addr => hexToBuf(DEMO_PRIVS[ADDRS.indexOf(addr)])),
+): T => {
+	const message = hexToBuf(hashTx(getAddrKey(peerOf(tx.from)), { ...tx, signers, sig: DUMMY_SIGNATURE } as T));
+	return { ...tx, signers, sig: aggregate(privateKeys.map(privateKey => sign({ message, privateKey }))) } as T;
+};
+
+/** `state` with an account both sides already agree on, bound to the board `peer` sits on. */
+const withOpenAccount = (state: EntityState, account: Result<AccountState>, peer: Address): EntityState => ({
+	...state,
+	accounts: {
+		[KEY]: {
+			state: (account as Extract<Result<AccountState>, { ok: true }>).value,
+			sigs: {},
+			peerBoard: boardFor(peer),
+		},
+	},
+});
+
+const apply = (state: EntityState, transaction: Transaction): EntityState => {
+	const result = applyTx({ state, transaction, timestamp: 1, height: 1n });
+	expect(result).toMatchObject({ ok: true });
+	return result.ok ? result.value : state;
+};
+
+const proposeOps = (from: Address, nonce: bigint, counterparty: ReplicaAddr, ops: AccountOp[]) =>
+	signTx<AccountProposeTx>(entityOf(from), { kind: 'accountPropose', nonce, from, body: { counterparty, ops } });
+
+const frameTx = (from: Address, frame: AccountFrame, signers?: Address[]) =>
+	sealTx<AccountFrameTx>(
+		{ kind: 'accountFrame', nonce: frame.height, from, body: { frame, board: boardFor(from) } },
+		signers,
+	);
+
+const ackTx = (from: Address, frame: AccountFrame) =>
+	sealTx<AccountAckTx>({
+		kind: 'accountAck',
+		nonce: frame.height,
+		from,
+		body: { account: KEY, height: frame.height, stateHash: hashAccountState(frame.state), board: boardFor(from) },
+	});
+
+const pendingOf = (state: EntityState): AccountFrame => {
+	const pending = state.accounts[KEY]?.pending;
+	expect(pending).toBeDefined();
+	return pending as AccountFrame;
+};
+
+describe('Account machine', () => {
+	it('orders sides by address key regardless of who opens the account', () => {
+		expect(createAccount(SHOP, HUB)).toEqual(createAccount(HUB, SHOP));
+		expect(createAccount(SHOP, HUB).left).toEqual(HUB);
+		expect(getAccountKey(SHOP, HUB)).toBe(`${getAddrKey(HUB)}|${getAddrKey(SHOP)}`);
+	});
+
+	it('deposits into the other side and pays between sides, advancing the frame height', () => {
+		const deposited = applyAccountOps(
+			createAccount(HUB, SHOP),
+			'left',
+			[{ kind: 'deposit', asset: 'USD', amount: 100n }],
+			0,
+		);
+		expect(deposited.ok).toBe(true);
+		if (!deposited.ok) return;
+		expect(getAccountBalance(deposited.value, 'left', 'USD')).toBe(0n);
+		expect(getAccountBalance(deposited.value, 'right', 'USD')).toBe(100n);
+
+		const result = applyAccountOps(deposited.value, 'right', [{ kind: 'pay', asset: 'USD', amount: 30n }], 0);
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(result.value.height).toBe(2n);
+		expect(getAccountBalance(result.value, 'left', 'USD')).toBe(30n);
+		expect(getAccountBalance(result.value, 'right', 'USD')).toBe(70n);
+	});
+
+	it('rejects payments beyond the payer balance', () => {
+		expect(applyAccountOps(createAccount(HUB, SHOP), 'right', [{ kind: 'pay', asset: 'USD', amount: 1n }], 0)).toEqual({
+			ok: false,
+			error: 'Insufficient account balance',
+		});
+		expect(applyAccountOps(createAccount(HUB, SHOP), 'left', [], 0)).toEqual({
+			ok: false,
+			error: 'Empty account frame',
+		});
+	});
+});
+
+describe('Account transactions', () => {
+	const hub = createEntityState(HUB, HUB_MEMBERS, { [ALICE]: { USD: 100n } });
+	const shop = createEntityState(SHOP, SHOP_MEMBERS, { [DAVE]: { EUR: 50n } });
+	const ops: AccountOp[] = [{ kind: 'deposit', asset: 'USD', amount: 50n }];
+
+	it('applies a frame on both sides once proposed and acknowledged', () => {
+		const proposed = apply(hub, proposeOps(ALICE, 0n, SHOP, ops));
+		const frame = pendingOf(proposed);
+		expect(proposed.accounts[KEY].state.height).toBe(0n);
+
+		const received = apply(shop, frameTx(ALICE, frame));
+		const acked = apply(proposed, ackTx(DAVE, frame));
+
+		expect(received.accounts[KEY].state).toEqual(acked.accounts[KEY].state);
+		expect(acked.accounts[KEY].pending).toBeUndefined();
+		expect(acked.accounts[KEY].state.height).toBe(1n);
+		expect(getAccountBalance(acked.accounts[KEY].state, 'right', 'USD')).toBe(50n);
+		expect(Object.keys(received.accounts[KEY].sigs)).toEqual(['left']);
+		expect(Object.keys(acked.accounts[KEY].sigs)).toEqual(['right']);
+	});
+
+	it('rejects frames that do not follow from the shared state', () => {
+		const proposed = apply(hub, proposeOps(ALICE, 0n, SHOP, ops));
+		const frame = pendingOf(proposed);
+		const inflated = { ...frame, state: { ...frame.state, balances: { USD: { left: 999n, right: 50n } } } };
+
+		expect(applyTx({ state: shop, transaction: frameTx(ALICE, inflated), timestamp: 1, height: 1n })).toEqual({
+			ok: false,
+			error: 'Account state mismatch',
+		});
+		expect(applyTx({ state: hub, transaction: frameTx(DAVE, frame), timestamp: 1, height: 1n })).toEqual({
+			ok: false,
+			error: 'Not a counterparty of this account',
+		});
+		expect(
+			applyTx({
+				state: proposed,
+				transaction: proposeOps(BOB, 0n, SHOP, [{ kind: 'creditLimit', asset: 'USD', limit: 10n }]),
+				timestamp: 1,
+				height: 1n,
+			}),
+		).toEqual({ ok: false, error: 'Account frame pending' });
+	});
+
+	it("binds the account to the counterparty's board and refuses frames it did not seal at its threshold", () => {
+		const proposed = apply(hub, proposeOps(ALICE, 0n, SHOP, ops));
+		const received = apply(shop, frameTx(ALICE, pendingOf(proposed)));
+		expect(received.accounts[KEY].peerBoard).toEqual(boardFor(ALICE));
+
+		// a frame that follows from the shared state, sealed by one hub member or by a board of strangers
+		const credit: AccountOp[] = [{ kind: 'creditLimit', asset: 'USD', limit: 1_000n }];
+		const next = applyAccountOps(received.accounts[KEY].state, 'left', credit, 1);
+		const frame: AccountFrame = {
+			height: 2n,
+			ts: 1,
+			proposer: 'left',
+			ops: credit,
+			state: (next as Extract<Result<AccountState>, { ok: true }>).value,
+		};
+		expect(applyTx({ state: received, transaction: frameTx(ALICE, frame, [ALICE]), timestamp: 1, height: 2n })).toEqual(
+			{ ok: false, error: 'Insufficient power: 1 < 2' },
+		);
+
+		const strangerPriv = randomPriv();
+		const stranger = deriveAddress(getPublicKey(strangerPriv));
+		const board: Board = {
+			threshold: 1n,
+			members: {
+				[stranger]: {
+					shares: 1n,
+					publicKey: bufToHex(Buffer.from(getPublicKey(strangerPriv))),
+					pop: provePossession(strangerPriv),
+				},
+			},
+		};
+		const forged = sealTx<AccountFrameTx>(
+			{ kind: 'accountFrame', nonce: 2n, from: ALICE, body: { frame, board } },
+			[stranger],
+			[strangerPriv],
+		);
+		expect(applyTx({ state: received, transaction: forged, timestamp: 1, height: 2n })).toEqual({
+			ok: false,
+			error: 'Insufficient power: 0 < 2',
+		});
+
+		const replica: Replica = {
+			address: SHOP,
+			proposer: DAVE,
+			isAwaitingSignatures: false,
+			view: 0,
+			viewVotes: {},
+			mempool: { queues: {}, inbound: [] },
+			last: { height: 1n, ts: 1, txs: [], receipts: [], state: received },
+		};
+		const command = { type: 'ACCOUNT_PROPOSE' as const, addrKey: getAddrKey(SHOP), tx: forged };
+		expect(applyCommand({ replica, command }).replica.mempool.inbound).toEqual([]);
+	});
+
+	it('rebinds the account to a new board only on a message the bound board sealed', () => {
+		const proposed = apply(hub, proposeOps(ALICE, 0n, SHOP, ops));
+		const received = apply(shop, frameTx(ALICE, pendingOf(proposed)));
+		const credit: AccountOp[] = [{ kind: 'creditLimit', asset: 'USD', limit: 1_000n }];
+		const next = applyAccountOps(received.accounts[KEY].state, 'left', credit, 1);
+		const frame: AccountFrame = {
+			height: 2n,
+			ts: 1,
+			proposer: 'left',
+			ops: credit,
+			state: (next as Extract<Result<AccountState>, { ok: true }>).value,
+		};
+
+		// the hub hands its board to Dave alone
+		const board: Board = { threshold: 1n, members: { [DAVE]: { shares: 1n, ...DEMO_KEYS[DAVE] } } };
+		const rebind = (signers: Address[]) =>
+			applyTx({
+				state: received,
+				transaction: sealTx<AccountFrameTx>(
+					{ kind: 'accountFrame', nonce: 2n, from: ALICE, body: { frame, board } },
+					signers,
+				),
+				timestamp: 1,
+				height: 2n,
+			});
+		expect(rebind([DAVE])).toEqual({ ok: false, error: 'Insufficient power: 0 < 2' });
+		expect(rebind([ALICE, DAVE])).toEqual({ ok: false, error: 'Insufficient power: 1 < 2' });
+		const rebound = rebind([ALICE, BOB, DAVE]);
+		expect(rebound.ok).toBe(true);
+		if (rebound.ok) expect(rebound.value.accounts[KEY].peerBoard).toEqual(board);
+	});
+
+	it("relays a counterparty's message to the other members once", () => {
+		const tx = frameTx(ALICE, pendingOf(apply(hub, proposeOps(ALICE, 0n, SHOP, ops))));
+		const replica = (proposer: Address): Replica => ({
+			address: SHOP,
+			proposer,
+			isAwaitingSignatures: false,
+			view: 0,
+			viewVotes: {},
+			mempool: { queues: {}, inbound: [] },
+			last: { height: 1n, ts: 1, txs: [], receipts: [], state: shop },
+		});
+
+		const { outbox } = applyCommand({
+			replica: replica(DAVE),
+			command: { type: 'ACCOUNT_PROPOSE', addrKey: getAddrKey(SHOP), tx },
+		});
+		expect(outbox).toEqual([{ from: DAVE, to: EVE, cmd: { type: 'RELAY', addrKey: getAddrKey(SHOP), tx } }]);
+		const relayed = applyCommand({ replica: replica(EVE), command: outbox[0].cmd });
+		expect(relayed.replica.mempool.inbound).toEqual([tx]);
+		expect(relayed.outbox).toEqual([]);
+	});
+
+	it('lets the left frame win when both sides propose at once', () => {
+		const hubProposed = apply(hub, proposeOps(ALICE, 0n, SHOP, [{ kind: 'deposit', asset: 'USD', amount: 10n }]));
+		const shopProposed = apply(shop, proposeOps(DAVE, 0n, HUB, [{ kind: 'deposit', asset: 'EUR', amount: 5n }]));
+		const hubFrame = pendingOf(hubProposed);
+
+		// the hub (left) ignores the shop's frame; the shop accepts the hub's and rebases on top of it
+		expect(apply(hubProposed, frameTx(DAVE, pendingOf(shopProposed)))).toEqual(hubProposed);
+		const rebased = apply(shopProposed, frameTx(ALICE, hubFrame));
+		expect(rebased.accounts[KEY].state).toEqual(hubFrame.state);
+		expect(pendingOf(rebased).height).toBe(2n);
+		expect(getAccountBalance(pendingOf(rebased).state, 'right', 'USD')).toBe(10n);
+		expect(getAccountBalance(pendingOf(rebased).state, 'left', 'EUR')).toBe(5n);
+	});
+
+	it("pays deposits out of the proposing member's ledger balance", () => {
+		const proposed = apply(hub, proposeOps(ALICE, 0n, SHOP, ops));
+		expect(proposed.balances[ALICE].USD).toBe(50n);
+		expect(proposed.accounts[KEY].funder).toBe(ALICE);
+		expect(applyTx({ state: hub, transaction: proposeOps(BOB, 0n, SHOP, ops), timestamp: 1, height: 1n })).toEqual({
+			ok: false,
+			error: 'Insufficient balance',
+		});
+	});
+
+	it('credits deposits back to their funder when a rebase drops them', () => {
+		// the hub extends 100 USD of credit to the shop, which the shop draws on in full
+		const extended = applyAccountOps(
+			createAccount(HUB, SHOP),
+			'left',
+			[{ kind: 'creditLimit', asset: 'USD', limit: 100n }],
+			0,
+		);
+		const shopProposed = apply(
+			withOpenAccount(shop, extended, ALICE),
+			proposeOps(DAVE, 0n, HUB, [
+				{ kind: 'deposit', asset: 'EUR', amount: 5n },
+				{ kind: 'pay', asset: 'USD', amount: 100n },
+			]),
+		);
+		expect(shopProposed.balances[DAVE].EUR).toBe(45n);
+
+		// the hub lowers the line at the same height, so the shop's ops no longer apply on top of its frame
+		const hubProposed = apply(
+			withOpenAccount(hub, extended, DAVE),
+			proposeOps(ALICE, 0n, SHOP, [{ kind: 'creditLimit', asset: 'USD', limit: 50n }]),
+		);
+		const rebased = apply(shopProposed, frameTx(ALICE, pendingOf(hubProposed)));
+		expect(rebased.accounts[KEY].pending).toBeUndefined();
+		expect(rebased.accounts[KEY].funder).toBeUndefined();
+		expect(rebased.balances[DAVE].EUR).toBe(50n);
+	});
+});
+
+describe('Credit lines', () => {
+	const hub = createEntityState(HUB, HUB_MEMBERS);
+	const shop = createEntityState(SHOP, SHOP_MEMBERS);
+
+	/** Deliver the proposer's pending frame to the receiver and its ack back; returns both updated states. */
+	const settle = (proposer: EntityState, receiver: EntityState, proposerSigner: Address, receiverSigner: Address) => {
+		const frame = pendingOf(proposer);
+		return [apply(proposer, ackTx(receiverSigner, frame)), apply(receiver, frameTx(proposerSigner, frame))];
+	};
+
+	const creditTx = (kind: 'setCreditLimit' | 'lowerCreditLimit', from: Address, nonce: bigint, limit: bigint) =>
+		signTx<SetCreditLimitTx | LowerCreditLimitTx>(SHOP, {
+			kind,
+			nonce,
+			from,
+			body: { counterparty: HUB, asset: 'USD', limit },
+		} as Omit<SetCreditLimitTx, 'sig'>);
+
+	it('lets a payer go negative up to the credit its counterparty extends', () => {
+		const withCredit = applyAccountOps(
+			createAccount(HUB, SHOP),
+			'right',
+			[{ kind: 'creditLimit', asset: 'USD', limit: 50n }],
+			0,
+		);
+		expect(withCredit.ok).toBe(true);
+		if (!withCredit.ok) return;
+
+		const paid = applyAccountOps(withCredit.value, 'left', [{ kind: 'pay', asset: 'USD', amount: 30n }], 0);
+		expect(paid.ok).toBe(true);
+		if (!paid.ok) return;
+		expect(getAccountBalance(paid.value, 'left', 'USD')).toBe(-30n);
+		expect(getCreditLine(paid.value, 'right', 'USD')).toEqual({ limit: 50n, used: 30n });
+		expect(getCreditLine(paid.value, 'left', 'USD')).toEqual({ limit: 0n, used: 0n });
+
+		expect(applyAccountOps(paid.value, 'left', [{ kind: 'pay', asset: 'USD', amount: 21n }], 0)).toEqual({
+			ok: false,
+			error: 'Insufficient account balance',
+		});
+	});
+
+	it('extends credit through the account protocol and refuses to lower it below what is used', () => {
+		const [shopExtended, hubExtended] = settle(
+			apply(shop, creditTx('setCreditLimit', DAVE, 0n, 100n)),
+			hub,
+			DAVE,
+			ALICE,
+		);
+		const paying = apply(hubExtended, proposeOps(ALICE, 0n, SHOP, [{ kind: 'pay', asset: 'USD', amount: 60n }]));
+		const [hubPaid, shopPaid] = settle(paying, shopExtended, ALICE, DAVE);
+
+		expect(hubPaid.accounts[KEY].state).toEqual(shopPaid.accounts[KEY].state);
+		expect(getCreditLine(shopPaid.accounts[KEY].state, 'right', 'USD')).toEqual({ limit: 100n, used: 60n });
+
+		const lower = (limit: bigint) =>
+			applyTx({
+				state: shopPaid,
+				transaction: creditTx('lowerCreditLimit', DAVE, 1n, limit),
+				timestamp: 1,
+				height: 1n,
+			});
+		expect(lower(59n)).toEqual({ ok: false, error: 'Credit limit below used credit' });
+		expect(lower(100n)).toEqual({ ok: false, error: 'Credit limit can only be lowered' });
+		expect(pendingOf(apply(shopPaid, creditTx('lowerCreditLimit', DAVE, 1n, 60n))).state.creditLimits.USD.right).toBe(
+			60n,
+		);
+		expect(
+			applyTx({ state: shopPaid, transaction: creditTx('setCreditLimit', DAVE, 1n, 10n), timestamp: 1, height: 1n }),
+		).toEqual({ ok: false, error: 'Credit limit can only be raised' });
+	});
+});
+
+describe('Hash time-locked payments', () => {
+	const PREIMAGE: Hex = `0x${'42'.repeat(32)}`;
+	const HASHLOCK = hashlockOf(PREIMAGE);
+	const lockOp: AccountOp = { kind: 'lock', asset: 'USD', amount: 40n, hashlock: HASHLOCK, expiresAt: 10 };
+	// the shop's deposit gives the hub (left) 100 USD to lock
+	const funded = applyAccountOps(
+		createAccount(HUB, SHOP),
+		'right',
+		[{ kind: 'deposit', asset: 'USD', amount: 100n }],
+		0,
+	);
+	const fundedAccount = funded.ok ? funded.value : createAccount(HUB, SHOP);
+	const locked = applyAccountOps(fundedAccount, 'left', [lockOp], 1);
+	const lockedAccount = locked.ok ? locked.value : createAccount(HUB, SHOP);
+
+	it('locks the amount away from the sender until the preimage is revealed', () => {
+		expect(locked.ok).toBe(true);
+		expect(getAccountBalance(lockedAccount, 'left', 'USD')).toBe(60n);
+		expect(lockedAccount.locks[HASHLOCK]).toEqual({
+			sender: 'left',
+			asset: 'USD',
+			amount: 40n,
+			hashlock: HASHLOCK,
+			expiresAt: 10,
+		});
+
+		const settled = applyAccountOps(
+			lockedAccount,
+			'right',
+			[{ kind: 'settle', hashlock: HASHLOCK, preimage: PREIMAGE }],
+			9,
+		);
+		expect(settled.ok).toBe(true);
+		if (!settled.ok) return;
+		expect(getAccountBalance(settled.value, 'right', 'USD')).toBe(40n);
+		expect(settled.value.locks).toEqual({});
+	});
+
+	it('only settles before expiry with the right preimage, and only refunds after', () => {
+		const settle = (side: 'left' | 'right', preimage: Hex, ts: number) =>
+			applyAccountOps(lockedAccount, side, [{ kind: 'settle', hashlock: HASHLOCK, preimage }], ts);
+		expect(settle('right', `0x${'00'.repeat(32)}`, 5)).toEqual({ ok: false, error: 'Invalid preimage' });
+		expect(settle('left', PREIMAGE, 5)).toEqual({ ok: false, error: 'Unknown lock' });
+		expect(settle('right', PREIMAGE, 10)).toEqual({ ok: false, error: 'Lock expired' });
+
+		const refund = (ts: number) => applyAccountOps(lockedAccount, 'left', [{ kind: 'refund', hashlock: HASHLOCK }], ts);
+		expect(refund(9)).toEqual({ ok: false, error: 'Lock not expired' });
+		const refunded = refund(10);
+		expect(refunded.ok && getAccountBalance(refunded.value, 'left', 'USD')).toBe(100n);
+		expect(applyAccountOps(lockedAccount, 'left', [lockOp], 2)).toEqual({ ok: false, error: 'Duplicate lock' });
+	});
+
+	it("checks a settle against the receiver's clock, so a backdated frame cannot settle late", () => {
+		const settleOps: AccountOp[] = [{ kind: 'settle', hashlock: HASHLOCK, preimage: PREIMAGE }];
+		expect(applyAccountOps(lockedAccount, 'right', settleOps, 0)).toEqual({
+			ok: false,
+			error: 'Account frame older than the last',
+		});
+
+		// the shop settles at ts 5, before the lock expires at 10, and the hub receives the frame later
+		const settled = applyAccountOps(lockedAccount, 'right', settleOps, 5);
+		const frame: AccountFrame = {
+			height: lockedAccount.height + 1n,
+			ts: 5,
+			proposer: 'right',
+			ops: settleOps,
+			state: (settled as Extract<Result<AccountState>, { ok: true }>).value,
+		};
+		const hub = withOpenAccount(createEntityState(HUB, HUB_MEMBERS), locked, DAVE);
+		const receive = (timestamp: number) =>
+			applyTx({ state: hub, transaction: frameTx(DAVE, frame), timestamp, height: 1n });
+		expect(receive(9).ok).toBe(true);
+		expect(receive(10)).toEqual({ ok: false, error: 'Lock expired' });
+		expect(receive(10_000)).toEqual({ ok: false, error: 'Account frame too old' });
+	});
+
+	it('stages a refund at the end of the first frame past the timeout', () => {
+		const hub = { ...createEntityState(HUB, HUB_MEMBERS), accounts: { [KEY]: { state: fundedAccount, sigs: {} } } };
+		const proposed = apply(hub, proposeOps(ALICE, 0n, SHOP, [lockOp]));
+		const acked = apply(proposed, ackTx(DAVE, pendingOf(proposed)));
+		const frameAt = (timestamp: number) =>
+			execFrame({ prev: { height: 1n, ts: 1, txs: [], receipts: [], state: acked }, transactions: [], timestamp });
+
+		expect(hasAccountWork(acked, 9)).toBe(false);
+		expect(hasAccountWork(acked, 10)).toBe(true);
+
+		const early = frameAt(9);
+		expect(early.ok && early.value.state.accounts[KEY].pending).toBeUndefined();
+		const late = frameAt(10);
+		expect(late.ok).toBe(true);
+		if (!late.ok) return;
+		const refund = pendingOf(late.value.state);
+		expect(refund.ops).toEqual([{ kind: 'refund', hashlock: HASHLOCK }]);
+		expect(getAccountBalance(refund.state, 'left', 'USD')).toBe(100n);
+	});
+});
+
+describe('Accounts through the server', () => {
+	const runUntilIdle = (rt: Runtime, incoming: Input[], now: number): number =>
+		incoming.length === 0 ? now : runUntilIdle(rt, rt.tick({ now, incoming }).outbox, now + 100);
+
+	const importEntity = (rt: Runtime, state: EntityState): void => {
+		const replica: Replica = {
+			address: state.address,
+			proposer: ALICE,
+			isAwaitingSignatures: false,
+			view: 0,
+			viewVotes: {},
+			mempool: { queues: {}, inbound: [] },
+			last: { height: 0n, ts: 0, txs: [], receipts: [], state },
+		};
+		rt.tick({ now: 0, incoming: [{ from: ALICE, to: ALICE, cmd: { type: 'IMPORT', replica } }] });
+	};
+
+	it('converges every replica of both entities on the same account state', () => {
+		const rt = createRuntime();
+		importEntity(rt, createEntityState(HUB, HUB_MEMBERS, { [ALICE]: { USD: 100n } }));
+		importEntity(rt, createEntityState(SHOP, SHOP_MEMBERS));
+
+		const tx = proposeOps(ALICE, 0n, SHOP, [{ kind: 'deposit', asset: 'USD', amount: 50n }]);
+		runUntilIdle(rt, [{ from: ALICE, to: ALICE, cmd: { type: 'ADD_TX', addrKey: getAddrKey(HUB), tx } }], 100);
+
+		const replicas = [...rt.debugReplicas().values()];
+		expect(replicas).toHaveLength(5);
+		const accounts = replicas.map(r => r.last.state.accounts[KEY]);
+		expect(accounts.every(account => account?.pending === undefined)).toBe(true);
+		expect(new Set(accounts.map(account => hashAccountState(account.state))).size).toBe(1);
+		expect(accounts[0].state.height).toBe(1n);
+		expect(getAccountBalance(accounts[0].state, 'right', 'USD')).toBe(50n);
+		expect(
+			replicas.filter(r => r.address.entityId === HUB.entityId).map(r => r.last.state.balances[ALICE].USD),
+		).toEqual([50n, 50n, 50n]);
+	});
+
+	it('refunds an expired lock once the server clock passes its timeout', () => {
+		// both entities already agree that the hub (left) holds 50 USD
+		const funded = applyAccountOps(
+			createAccount(HUB, SHOP),
+			'right',
+			[{ kind: 'deposit', asset: 'USD', amount: 50n }],
+			0,
+		);
+		const rt = createRuntime();
+		importEntity(rt, withOpenAccount(createEntityState(HUB, HUB_MEMBERS), funded, DAVE));
+		importEntity(rt, withOpenAccount(createEntityState(SHOP, SHOP_MEMBERS), funded, ALICE));
+
+		const tx = proposeOps(ALICE, 0n, SHOP, [
+			{ kind: 'lock', asset: 'USD', amount: 30n, hashlock: hashlockOf(`0x${'07'.repeat(32)}`), expiresAt: 5_000 },
+		]);
+		const idle = runUntilIdle(
+			rt,
+			[{ from: ALICE, to: ALICE, cmd: { type: 'ADD_TX', addrKey: getAddrKey(HUB), tx } }],
+			100,
+		);
+		const lockedAccounts = [...rt.debugReplicas().values()].map(r => r.last.state.accounts[KEY]);
+		expect(lockedAccounts.every(account => Object.keys(account.state.locks).length === 1)).toBe(true);
+
+		// nothing happens before the timeout, then the hub proposes a refund by itself
+		expect(rt.tick({ now: idle, incoming: [] }).outbox).toEqual([]);
+		runUntilIdle(rt, rt.tick({ now: 5_000, incoming: [] }).outbox, 5_100);
+
+		const accounts = [...rt.debugReplicas().values()].map(r => r.last.state.accounts[KEY]);
+		expect(new Set(accounts.map(account => hashAccountState(account.state))).size).toBe(1);
+		expect(accounts[0].state.locks).toEqual({});
+		expect(getAccountBalance(accounts[0].state, 'left', 'USD')).toBe(50n);
+		expect(accounts.every(account => account.pending === undefined)).toBe(true);
+	});
+});
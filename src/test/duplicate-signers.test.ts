@@ -1,24 +1,32 @@
 import { expect, test } from 'bun:test';
+import { DEMO_ENTITY_ID, DEMO_JURISDICTION, DUMMY_SIGNATURE } from '../constants';
 import { type ValidateCommitParams } from '../core/entity';
-import type { Address, EntityState, Frame } from '../types';
+import type { Address, EntityState, Frame, Hex } from '../types';
 
 test('validateCommit should deduplicate signers', () => {
 	const signer1: Address = '0x0000000000000000000000000000000000000001';
 	const signer2: Address = '0x0000000000000000000000000000000000000002';
+	const publicKey: Hex = `0x${'ab'.repeat(48)}`;
 
 	const prevFrame: Frame<EntityState> = {
 		height: 0n,
 		ts: 1000,
 		txs: [],
+		receipts: [],
 		state: {
+			address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
 			quorum: {
 				threshold: 60n,
 				members: {
-					[signer1]: { nonce: 0n, shares: 40n },
-					[signer2]: { nonce: 0n, shares: 30n },
+					[signer1]: { nonce: 0n, shares: 40n, publicKey, pop: DUMMY_SIGNATURE },
+					[signer2]: { nonce: 0n, shares: 30n, publicKey, pop: DUMMY_SIGNATURE },
 				},
 			},
 			chat: [],
+			proposals: {},
+			balances: {},
+			accounts: {},
+			payments: {},
 		},
 	};
 
@@ -26,6 +34,7 @@ test('validateCommit should deduplicate signers', () => {
 		height: 1n,
 		ts: 2000,
 		txs: [],
+		receipts: [],
 		state: prevFrame.state,
 	};
 
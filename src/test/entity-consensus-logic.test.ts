@@ -1,32 +1,64 @@
 import { describe, expect, it } from 'bun:test';
-import { DUMMY_SIGNATURE } from '../constants';
-import { applyCommand } from '../core/entity';
-import type { Address, EntityState, Frame, Hex, Replica } from '../types';
+import { encodeTxPayload, hexToBuf } from '../codec/rlp';
+import { DUMMY_SIGNATURE, EMPTY_HASH } from '../constants';
+import { applyCommand, execFrame, hashTx, replayFrame, selectProposer } from '../core/entity';
+import { mempoolSize } from '../core/mempool';
+import { DEMO_KEYS, DEMO_PRIVS, createRuntime } from '../core/runtime';
+import { decodeSnapshot, encodeSnapshot } from '../core/snapshot';
+import { sign } from '../crypto/bls';
+import type {
+	Address,
+	ChatTx,
+	EntityState,
+	Frame,
+	Hex,
+	Input,
+	Replica,
+	Transaction,
+	TransferTx,
+	TxReceipt,
+} from '../types';
+
+const { ADDRS } = createRuntime();
+const [ALICE, BOB, CAROL] = ADDRS as Address[];
 
 const createEntityState = (): EntityState => ({
+	address: { jurisdiction: 'test', entityId: 'entity' },
 	quorum: {
 		members: {
-			'0x1111111111111111111111111111111111111111': { nonce: 0n, shares: 1n },
-			'0x2222222222222222222222222222222222222222': { nonce: 0n, shares: 1n },
-			'0x3333333333333333333333333333333333333333': { nonce: 0n, shares: 1n },
+			[ALICE]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[ALICE] },
+			[BOB]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[BOB] },
+			[CAROL]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[CAROL] },
 		},
 		threshold: 2n,
 	},
 	chat: [],
+	proposals: {},
+	balances: {},
+	accounts: {},
+	payments: {},
 });
 
 const createFrame = (state: EntityState, height = 0n): Frame<EntityState> => ({
 	height,
 	ts: Date.now(),
 	txs: [],
+	receipts: [],
 	state,
 });
 
+const signedChat = (message: string): Transaction => {
+	const base: Omit<ChatTx, 'sig'> = { kind: 'chat', nonce: 0n, from: ALICE, body: { message } };
+	return { ...base, sig: sign({ message: encodeTxPayload('test:entity', base), privateKey: hexToBuf(DEMO_PRIVS[0]) }) };
+};
+
 const createReplica = (state: EntityState): Replica => ({
 	address: { jurisdiction: 'test', entityId: 'entity' },
-	proposer: '0x1111111111111111111111111111111111111111' as Address,
+	proposer: ALICE,
 	isAwaitingSignatures: false,
-	mempool: [],
+	view: 0,
+	viewVotes: {},
+	mempool: { queues: {}, inbound: [] },
 	last: createFrame(state),
 	proposal: undefined,
 });
@@ -36,15 +68,7 @@ describe('Entity Layer Consensus Logic', () => {
 		const replica = createReplica(createEntityState());
 		const replicaWithMempool = {
 			...replica,
-			mempool: [
-				{
-					kind: 'chat' as const,
-					nonce: 0n,
-					from: '0x1111111111111111111111111111111111111111' as Address,
-					body: { message: 'test' },
-					sig: DUMMY_SIGNATURE,
-				},
-			],
+			mempool: { queues: { [ALICE]: [signedChat('test')] }, inbound: [] },
 		};
 
 		const result = applyCommand({
@@ -64,11 +88,7 @@ describe('Entity Layer Consensus Logic', () => {
 		expect(result.outbox.length).toBe(3);
 		expect(result.outbox.every(input => input.cmd.type === 'SIGN')).toBe(true);
 		// eslint-disable-next-line
-		expect(result.outbox.map(input => input.from).sort()).toEqual([
-			'0x1111111111111111111111111111111111111111',
-			'0x2222222222222222222222222222222222222222',
-			'0x3333333333333333333333333333333333333333',
-		]);
+		expect(result.outbox.map(input => input.from).sort()).toEqual([ALICE, BOB, CAROL].sort());
 	});
 
 	it('should generate COMMIT commands when threshold is reached', () => {
@@ -81,7 +101,8 @@ describe('Entity Layer Consensus Logic', () => {
 			proposal: {
 				...createFrame(createEntityState(), 1n),
 				hash: proposalHash,
-				sigs: new Map<Address, Hex>([['0x1111111111111111111111111111111111111111' as Address, DUMMY_SIGNATURE]]),
+				sigs: new Map<Address, Hex>([[ALICE, DUMMY_SIGNATURE]]),
+				view: 0,
 			},
 		};
 
@@ -91,7 +112,8 @@ describe('Entity Layer Consensus Logic', () => {
 			command: {
 				type: 'SIGN',
 				addrKey: 'test:entity',
-				signer: '0x2222222222222222222222222222222222222222' as Address,
+				signer: BOB,
+				view: 0,
 				frameHash: proposalHash,
 				sig: DUMMY_SIGNATURE,
 			},
@@ -104,11 +126,7 @@ describe('Entity Layer Consensus Logic', () => {
 		expect(result.outbox.length).toBe(3);
 		expect(result.outbox.every(input => input.cmd.type === 'COMMIT')).toBe(true);
 		// eslint-disable-next-line
-		expect(result.outbox.map(input => input.to).sort()).toEqual([
-			'0x1111111111111111111111111111111111111111',
-			'0x2222222222222222222222222222222222222222',
-			'0x3333333333333333333333333333333333333333',
-		]);
+		expect(result.outbox.map(input => input.to).sort()).toEqual([ALICE, BOB, CAROL].sort());
 	});
 
 	it('should not generate COMMIT commands when threshold is not reached', () => {
@@ -122,6 +140,7 @@ describe('Entity Layer Consensus Logic', () => {
 				...createFrame(createEntityState(), 1n),
 				hash: proposalHash,
 				sigs: new Map<Address, Hex>(), // No signatures yet
+				view: 0,
 			},
 		};
 
@@ -131,7 +150,8 @@ describe('Entity Layer Consensus Logic', () => {
 			command: {
 				type: 'SIGN',
 				addrKey: 'test:entity',
-				signer: '0x1111111111111111111111111111111111111111' as Address,
+				signer: ALICE,
+				view: 0,
 				frameHash: proposalHash,
 				sig: DUMMY_SIGNATURE,
 			},
@@ -144,3 +164,161 @@ describe('Entity Layer Consensus Logic', () => {
 		expect(result.outbox.length).toBe(0);
 	});
 });
+
+describe('Transaction receipts', () => {
+	it('commits the valid transactions of a batch and evicts the rejected ones everywhere', () => {
+		const runtime = createRuntime();
+		runtime.tick({
+			now: 0,
+			incoming: [{ from: ALICE, to: ALICE, cmd: { type: 'IMPORT', replica: createReplica(createEntityState()) } }],
+		});
+
+		// BOB holds no USD, so the transfer is admitted but fails on execution
+		const base: Omit<TransferTx, 'sig'> = {
+			kind: 'transfer',
+			nonce: 0n,
+			from: BOB,
+			body: { to: ALICE, asset: 'USD', amount: 10n },
+		};
+		const overdraft: Transaction = {
+			...base,
+			sig: sign({ message: encodeTxPayload('test:entity', base), privateKey: hexToBuf(DEMO_PRIVS[1]) }),
+		};
+		const proposer = selectProposer(createEntityState().quorum, 1n, 0);
+		const submit = [signedChat('on time'), overdraft].map(tx => ({
+			from: tx.from,
+			to: proposer,
+			cmd: { type: 'ADD_TX' as const, addrKey: 'test:entity', tx },
+		}));
+
+		const drain = (incoming: Input[], now: number): void =>
+			incoming.length === 0 ? undefined : drain(runtime.tick({ now, incoming }).outbox, now + 100);
+		drain(submit, 100);
+
+		const replicas = [...runtime.debugReplicas().values()];
+		expect(replicas.every(replica => replica.last.height === 1n && mempoolSize(replica.mempool) === 0)).toBe(true);
+
+		const frame = replicas[0].last;
+		expect(frame.state.chat.map(message => message.msg)).toEqual(['on time']);
+		expect(frame.txs).toHaveLength(2);
+		// receipts follow execution order, which breaks nonce ties by sender address
+		expect(Object.fromEntries(frame.receipts.map(({ from, status, reason }) => [from, { status, reason }]))).toEqual({
+			[ALICE]: { status: 'applied', reason: undefined },
+			[BOB]: { status: 'rejected', reason: 'Insufficient balance' },
+		});
+	});
+
+	it("uses up a rejected tx's nonce so the sender's next tx still applies", () => {
+		const runtime = createRuntime();
+		runtime.tick({
+			now: 0,
+			incoming: [{ from: ALICE, to: ALICE, cmd: { type: 'IMPORT', replica: createReplica(createEntityState()) } }],
+		});
+
+		const signAs = (privateKey: Hex, base: Omit<Transaction, 'sig'>): Transaction =>
+			({
+				...base,
+				sig: sign({ message: encodeTxPayload('test:entity', base), privateKey: hexToBuf(privateKey) }),
+			}) as Transaction;
+		// BOB holds no USD, so nonce 0 fails on execution; nonce 1 is a valid chat
+		const overdraft = signAs(DEMO_PRIVS[1], {
+			kind: 'transfer',
+			nonce: 0n,
+			from: BOB,
+			body: { to: ALICE, asset: 'USD', amount: 10n },
+		});
+		const chat = signAs(DEMO_PRIVS[1], { kind: 'chat', nonce: 1n, from: BOB, body: { message: 'next' } });
+		const proposer = selectProposer(createEntityState().quorum, 1n, 0);
+		const submit = [overdraft, chat].map(tx => ({
+			from: tx.from,
+			to: proposer,
+			cmd: { type: 'ADD_TX' as const, addrKey: 'test:entity', tx },
+		}));
+
+		const drain = (incoming: Input[], now: number): void =>
+			incoming.length === 0 ? undefined : drain(runtime.tick({ now, incoming }).outbox, now + 100);
+		drain(submit, 100);
+
+		const replicas = [...runtime.debugReplicas().values()];
+		expect(replicas.every(replica => replica.last.height === 1n && mempoolSize(replica.mempool) === 0)).toBe(true);
+		const frame = replicas[0].last;
+		expect(frame.receipts.map(({ nonce, status, reason }) => ({ nonce, status, reason }))).toEqual([
+			{ nonce: 0n, status: 'rejected', reason: 'Insufficient balance' },
+			{ nonce: 1n, status: 'applied', reason: undefined },
+		]);
+		expect(frame.state.chat.map(message => message.msg)).toEqual(['next']);
+		expect(frame.state.quorum.members[BOB].nonce).toBe(2n);
+
+		// a tx its sender never signed uses up nothing
+		const forged = signAs(DEMO_PRIVS[0], { ...overdraft, body: { to: CAROL, asset: 'USD', amount: 1n } });
+		const executed = execFrame({ prev: createFrame(createEntityState()), transactions: [forged, chat], timestamp: 1 });
+		expect(executed.ok && executed.value.receipts.map(receipt => receipt.reason)).toEqual([
+			'Invalid signature',
+			'Bad nonce',
+		]);
+	});
+
+	it('refuses a frame that claims a rejection for a tx it does not carry', () => {
+		const prev = createFrame(createEntityState());
+		const pending = signedChat('still pending');
+		const executed = execFrame({ prev, transactions: [], timestamp: prev.ts + 1 });
+		expect(executed.ok).toBe(true);
+		if (!executed.ok) return;
+
+		// a proposer trying to evict a member's pending tx everywhere
+		const receipt: TxReceipt = {
+			txHash: hashTx('test:entity', pending),
+			from: ALICE,
+			nonce: 0n,
+			status: 'rejected',
+			reason: 'Bad nonce',
+		};
+		expect(replayFrame(prev, { ...executed.value, receipts: [receipt] })).toEqual({
+			ok: false,
+			error: 'Receipt mismatch',
+		});
+	});
+});
+
+describe('Replica sharing', () => {
+	it('points every replica that committed a frame to one copy of it', () => {
+		const runtime = createRuntime();
+		runtime.tick({
+			now: 0,
+			incoming: [{ from: ALICE, to: ALICE, cmd: { type: 'IMPORT', replica: createReplica(createEntityState()) } }],
+		});
+		const lasts = () => [...runtime.debugReplicas().values()].map(replica => replica.last);
+		const [imported] = lasts();
+		expect(lasts().every(last => last === imported)).toBe(true);
+
+		const proposer = selectProposer(createEntityState().quorum, 1n, 0);
+		const submit = {
+			from: ALICE,
+			to: proposer,
+			cmd: { type: 'ADD_TX' as const, addrKey: 'test:entity', tx: signedChat('shared') },
+		};
+		const { outbox } = runtime.tick({ now: 100, incoming: [submit] });
+		// per-signer fields still diverge: only the proposer's mempool holds the tx
+		const pending = [...runtime.debugReplicas().values()].map(replica => [
+			replica.proposer,
+			mempoolSize(replica.mempool),
+		]);
+		expect(Object.fromEntries(pending)).toEqual({ [ALICE]: 0, [BOB]: 0, [CAROL]: 0, [proposer]: 1 });
+
+		const drain = (incoming: Input[], now: number): void =>
+			incoming.length === 0 ? undefined : drain(runtime.tick({ now, incoming }).outbox, now + 100);
+		drain(outbox, 200);
+
+		const [committed] = lasts();
+		expect(committed.state.chat.map(message => message.msg)).toEqual(['shared']);
+		expect(lasts().every(last => last === committed)).toBe(true);
+
+		// a snapshot restores the sharing that parsing would otherwise lose
+		const restored = decodeSnapshot(
+			encodeSnapshot({ replicas: runtime.debugReplicas(), height: 1n, lastHash: EMPTY_HASH }),
+		);
+		const restoredLasts = restored.ok ? [...restored.value.replicas.values()].map(replica => replica.last) : [];
+		expect(restoredLasts).toHaveLength(3);
+		expect(restoredLasts.every(last => last === restoredLasts[0])).toBe(true);
+	});
+});
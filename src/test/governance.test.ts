@@ -0,0 +1,298 @@
+import { describe, expect, it } from 'bun:test';
+import { encodeTxPayload, hexToBuf } from '../codec/rlp';
+import { DEMO_ENTITY_ID, DEMO_JURISDICTION, DUMMY_SIGNATURE } from '../constants';
+import { applyCommand, applyTx, hashTx } from '../core/entity';
+import { DEMO_KEYS, DEMO_PRIVS, type Runtime, createRuntime } from '../core/runtime';
+import { sign } from '../crypto/bls';
+import type { Address, EntityState, Frame, Hex, Input, MemberKey, Replica, Transaction } from '../types';
+
+const runtime = createRuntime();
+const ADDRS = runtime.ADDRS as Address[];
+const [ALICE, BOB, CAROL, DAVE, EVE] = ADDRS;
+const ADDR_KEY = `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`;
+
+const createEntityState = (): EntityState => ({
+	address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
+	quorum: {
+		threshold: 2n,
+		members: {
+			[ALICE]: { nonce: 0n, shares: 2n, ...DEMO_KEYS[ALICE] },
+			[BOB]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[BOB] },
+			[CAROL]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[CAROL] },
+		},
+	},
+	chat: [],
+	proposals: {},
+	balances: {},
+	accounts: {},
+	payments: {},
+});
+
+const createFrame = (state: EntityState, height = 0n): Frame<EntityState> => ({
+	height,
+	ts: 0,
+	txs: [],
+	receipts: [],
+	state,
+});
+
+const signTx = <T extends Transaction>(tx: Omit<T, 'sig'>): T => {
+	const privateKey = hexToBuf(DEMO_PRIVS[ADDRS.indexOf(tx.from)]);
+	return { ...tx, sig: sign({ message: encodeTxPayload(ADDR_KEY, tx), privateKey }) } as T;
+};
+
+const apply = (state: EntityState, tx: Omit<Transaction, 'sig'>) =>
+	applyTx({ state, transaction: signTx(tx as Transaction), timestamp: 1, height: 1n });
+
+describe('Quorum governance transactions', () => {
+	it('adds a member with the given shares', () => {
+		const result = apply(createEntityState(), {
+			kind: 'addMember',
+			nonce: 0n,
+			from: ALICE,
+			body: { address: DAVE, ...DEMO_KEYS[DAVE], shares: 2n },
+		});
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(result.value.quorum.members[DAVE]).toEqual({ nonce: 0n, shares: 2n, ...DEMO_KEYS[DAVE] });
+			expect(result.value.quorum.members[ALICE].nonce).toBe(1n);
+		}
+	});
+
+	it('removes a member, including the sender itself', () => {
+		const result = apply(createEntityState(), {
+			kind: 'removeMember',
+			nonce: 0n,
+			from: ALICE,
+			body: { address: ALICE },
+		});
+		expect(result.ok).toBe(true);
+		// eslint-disable-next-line fp/no-mutating-methods
+		if (result.ok) expect(Object.keys(result.value.quorum.members).sort()).toEqual([BOB, CAROL].sort());
+	});
+
+	it('requires the sender alone to meet the threshold', () => {
+		const state = createEntityState();
+		const denied = { ok: false as const, error: 'Requires quorum approval' };
+		expect(apply(state, { kind: 'setShares', nonce: 0n, from: BOB, body: { address: BOB, shares: 5n } })).toEqual(
+			denied,
+		);
+		expect(apply(state, { kind: 'setThreshold', nonce: 0n, from: BOB, body: { threshold: 1n } })).toEqual(denied);
+		expect(apply(state, { kind: 'removeMember', nonce: 0n, from: CAROL, body: { address: ALICE } })).toEqual(denied);
+		expect(
+			apply(state, {
+				kind: 'addMember',
+				nonce: 0n,
+				from: CAROL,
+				body: { address: DAVE, ...DEMO_KEYS[DAVE], shares: 9n },
+			}),
+		).toEqual(denied);
+	});
+
+	it('re-weights shares and changes the threshold', () => {
+		const reweighted = apply(createEntityState(), {
+			kind: 'setShares',
+			nonce: 0n,
+			from: ALICE,
+			body: { address: BOB, shares: 5n },
+		});
+		expect(reweighted.ok).toBe(true);
+		if (!reweighted.ok) return;
+		expect(reweighted.value.quorum.members[BOB].shares).toBe(5n);
+
+		const raised = apply(reweighted.value, {
+			kind: 'setThreshold',
+			nonce: 1n,
+			from: ALICE,
+			body: { threshold: 6n },
+		});
+		expect(raised.ok).toBe(true);
+		if (raised.ok) expect(raised.value.quorum.threshold).toBe(6n);
+	});
+
+	it('rejects changes that leave the quorum unable to reach its threshold', () => {
+		const state = createEntityState();
+		expect(apply(state, { kind: 'setThreshold', nonce: 0n, from: ALICE, body: { threshold: 5n } })).toEqual({
+			ok: false,
+			error: 'Threshold exceeds total shares',
+		});
+		expect(apply(state, { kind: 'setThreshold', nonce: 0n, from: ALICE, body: { threshold: 0n } })).toEqual({
+			ok: false,
+			error: 'Threshold must be positive',
+		});
+
+		const { members } = state.quorum;
+		const twoMembers = {
+			...state,
+			quorum: { ...state.quorum, members: { [ALICE]: members[ALICE], [BOB]: members[BOB] } },
+		};
+		expect(apply(twoMembers, { kind: 'removeMember', nonce: 0n, from: ALICE, body: { address: ALICE } })).toEqual({
+			ok: false,
+			error: 'Threshold exceeds total shares',
+		});
+	});
+
+	it('rejects invalid member operations', () => {
+		const state = createEntityState();
+		expect(
+			apply(state, {
+				kind: 'addMember',
+				nonce: 0n,
+				from: ALICE,
+				body: { address: BOB, ...DEMO_KEYS[BOB], shares: 1n },
+			}),
+		).toEqual({
+			ok: false,
+			error: 'Already a member',
+		});
+		expect(
+			apply(state, {
+				kind: 'addMember',
+				nonce: 0n,
+				from: ALICE,
+				body: { address: DAVE, ...DEMO_KEYS[DAVE], shares: 0n },
+			}),
+		).toEqual({
+			ok: false,
+			error: 'Shares must be positive',
+		});
+		expect(
+			apply(state, {
+				kind: 'addMember',
+				nonce: 0n,
+				from: ALICE,
+				body: { address: DAVE, ...DEMO_KEYS[EVE], shares: 1n },
+			}),
+		).toEqual({
+			ok: false,
+			error: `Address ${DAVE} does not match its public key`,
+		});
+	});
+
+	it('admits a key only with its own proof of possession', () => {
+		const state = createEntityState();
+		const addDave = (pop: Hex) =>
+			apply(state, {
+				kind: 'addMember',
+				nonce: 0n,
+				from: ALICE,
+				body: { address: DAVE, publicKey: DEMO_KEYS[DAVE].publicKey, pop, shares: 1n },
+			});
+		const rejected = { ok: false as const, error: `Member ${DAVE} has no valid proof of possession` };
+
+		expect(addDave(DEMO_KEYS[DAVE].pop).ok).toBe(true);
+		expect(addDave(DEMO_KEYS[EVE].pop)).toEqual(rejected);
+		expect(addDave(DUMMY_SIGNATURE)).toEqual(rejected);
+		// an ordinary signature over the key is not a proof: proofs are signed in their own domain
+		const daveKey = DEMO_KEYS[DAVE].publicKey;
+		expect(addDave(sign({ message: hexToBuf(daveKey), privateKey: hexToBuf(DEMO_PRIVS[3]) }))).toEqual(rejected);
+		expect(apply(state, { kind: 'removeMember', nonce: 0n, from: ALICE, body: { address: EVE } })).toEqual({
+			ok: false,
+			error: 'Not a member',
+		});
+		expect(apply(state, { kind: 'setShares', nonce: 0n, from: ALICE, body: { address: EVE, shares: 1n } })).toEqual({
+			ok: false,
+			error: 'Not a member',
+		});
+	});
+
+	it('collects signatures against the previous quorum while a change is pending', () => {
+		const prev = createEntityState();
+		const proposalHash: Hex = `0x${'ab'.repeat(32)}`;
+		const replica: Replica = {
+			address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
+			proposer: ALICE,
+			isAwaitingSignatures: true,
+			view: 0,
+			viewVotes: {},
+			mempool: { queues: {}, inbound: [] },
+			last: createFrame(prev),
+			proposal: {
+				// the proposed frame raises the threshold to 3, but 2 shares of signatures still finalize it
+				...createFrame({ ...prev, quorum: { ...prev.quorum, threshold: 3n } }, 1n),
+				hash: proposalHash,
+				sigs: new Map<Address, Hex>([[CAROL, DUMMY_SIGNATURE]]),
+				view: 0,
+			},
+		};
+
+		const result = applyCommand({
+			replica,
+			command: { type: 'SIGN', addrKey: ADDR_KEY, signer: BOB, view: 0, frameHash: proposalHash, sig: DUMMY_SIGNATURE },
+		});
+		expect(result.outbox).toHaveLength(3);
+		expect(result.outbox.every(input => input.cmd.type === 'COMMIT')).toBe(true);
+	});
+});
+
+describe('Quorum rotation through consensus', () => {
+	const runUntilIdle = (rt: Runtime, incoming: Input[], now: number): number =>
+		incoming.length === 0 ? now : runUntilIdle(rt, rt.tick({ now, incoming }).outbox, now + 100);
+
+	const importEntity = (rt: Runtime, keys: Readonly<Record<Address, MemberKey>> = DEMO_KEYS): void => {
+		const members = Object.fromEntries(ADDRS.map(addr => [addr, { nonce: 0n, shares: 1n, ...keys[addr] }]));
+		const replica: Replica = {
+			address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
+			proposer: ALICE,
+			isAwaitingSignatures: false,
+			view: 0,
+			viewVotes: {},
+			mempool: { queues: {}, inbound: [] },
+			last: createFrame({
+				address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
+				quorum: { threshold: 3n, members },
+				chat: [],
+				proposals: {},
+				balances: {},
+				accounts: {},
+				payments: {},
+			}),
+		};
+		rt.tick({ now: 0, incoming: [{ from: ALICE, to: ALICE, cmd: { type: 'IMPORT', replica } }] });
+	};
+
+	it('rotates out a signer and keeps committing with the new board', () => {
+		const rt = createRuntime();
+		importEntity(rt);
+		const addTx = (tx: Transaction): Input => ({
+			from: tx.from,
+			to: ALICE,
+			cmd: { type: 'ADD_TX', addrKey: ADDR_KEY, tx },
+		});
+		const removeEve = signTx<Transaction>({
+			kind: 'propose',
+			nonce: 0n,
+			from: ALICE,
+			body: { action: { kind: 'removeMember', body: { address: EVE } }, expiresAt: 10n },
+		});
+		const proposalId = hashTx(ADDR_KEY, removeEve);
+		const votes = [BOB, CAROL].map(from =>
+			signTx<Transaction>({ kind: 'vote', nonce: 0n, from, body: { proposalId, vote: 'yes' } }),
+		);
+		const afterRemoval = runUntilIdle(rt, votes.map(addTx), runUntilIdle(rt, [addTx(removeEve)], 100));
+
+		const replicas = [...rt.debugReplicas().values()];
+		// eslint-disable-next-line fp/no-mutating-methods
+		expect(replicas.map(r => r.proposer).sort()).toEqual([ALICE, BOB, CAROL, DAVE].sort());
+		expect(replicas.every(r => r.last.height === 2n && !r.last.state.quorum.members[EVE])).toBe(true);
+
+		const chat = signTx<Transaction>({ kind: 'chat', nonce: 1n, from: BOB, body: { message: 'after rotation' } });
+		runUntilIdle(rt, [addTx(chat)], afterRemoval);
+
+		const final = [...rt.debugReplicas().values()];
+		expect(final).toHaveLength(4);
+		expect(final.every(r => r.last.height === 3n && r.last.state.chat.length === 1)).toBe(true);
+	});
+
+	it('refuses to import a board whose addresses do not derive from their keys', () => {
+		const rt = createRuntime();
+		importEntity(rt, { ...DEMO_KEYS, [EVE]: DEMO_KEYS[ALICE] });
+		expect(rt.debugReplicas().size).toBe(0);
+	});
+
+	it('refuses to import a member without a valid proof of possession', () => {
+		const rt = createRuntime();
+		importEntity(rt, { ...DEMO_KEYS, [EVE]: { ...DEMO_KEYS[EVE], pop: DEMO_KEYS[ALICE].pop } });
+		expect(rt.debugReplicas().size).toBe(0);
+	});
+});
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'bun:test';
+import { bls12_381 as bls } from '@noble/curves/bls12-381';
+import { bufToHex, hexToBuf } from '../codec/rlp';
+import { validateQuorum } from '../core/entity';
+import { aggregateSignerKey, signerBitmap, verifyHanko } from '../core/hanko';
+import { DEMO_KEYS, DEMO_PRIVS } from '../core/runtime';
+import { aggregate, deriveAddress, provePossession, sign } from '../crypto/bls';
+import type { Address, Hex, Quorum } from '../types';
+
+const ADDRS = Object.keys(DEMO_KEYS) as Address[];
+const [ALICE, BOB, CAROL, DAVE] = ADDRS;
+const MESSAGE: Hex = `0x${'42'.repeat(32)}`;
+
+const quorum: Quorum = {
+	threshold: 3n,
+	members: Object.fromEntries(ADDRS.map(addr => [addr, { nonce: 0n, shares: 1n, ...DEMO_KEYS[addr] }])),
+};
+
+const hankoOf = (signers: Address[], messageHash: Hex = MESSAGE): Hex =>
+	aggregate(
+		signers.map(addr =>
+			sign({ message: hexToBuf(messageHash), privateKey: hexToBuf(DEMO_PRIVS[ADDRS.indexOf(addr)]) }),
+		),
+	);
+
+describe('Hanko verification', () => {
+	it('checks a hanko with one pairing against the summed keys of exactly its signers', () => {
+		const hanko = hankoOf([ALICE, BOB, CAROL]);
+		expect(verifyHanko({ quorum, signers: [CAROL, ALICE, BOB], hanko, messageHash: MESSAGE })).toBe(true);
+		expect(verifyHanko({ quorum, signers: [ALICE, BOB, CAROL, DAVE], hanko, messageHash: MESSAGE })).toBe(false);
+		expect(verifyHanko({ quorum, signers: [ALICE, BOB], hanko, messageHash: MESSAGE })).toBe(false);
+		expect(verifyHanko({ quorum, signers: [ALICE, BOB, CAROL], hanko, messageHash: `0x${'43'.repeat(32)}` })).toBe(
+			false,
+		);
+	});
+
+	it('sums the keys once per board and set of signers', () => {
+		// eslint-disable-next-line fp/no-mutating-methods
+		const [first, , third] = [...ADDRS].sort();
+		expect(signerBitmap(quorum, [third, first])).toBe('0x5');
+
+		const key = aggregateSignerKey(quorum, [ALICE, BOB, CAROL]);
+		expect(aggregateSignerKey(quorum, [CAROL, BOB, ALICE])).toBe(key);
+		// nonces and shares move every frame, but the board is the same
+		const later = { ...quorum, members: { ...quorum.members, [ALICE]: { ...quorum.members[ALICE], nonce: 9n } } };
+		expect(aggregateSignerKey(later, [ALICE, BOB, CAROL])).toBe(key);
+		expect(aggregateSignerKey(quorum, [ALICE, BOB, DAVE])).not.toEqual(key);
+	});
+
+	it('would accept a rogue key, which is why no key enters a quorum without a proof of possession', () => {
+		// Alice publishes her key minus Bob's: the sum of Bob's and the rogue key is her own
+		const aliceKey = bls.G1.ProjectivePoint.fromHex(hexToBuf(DEMO_KEYS[ALICE].publicKey));
+		const bobKey = bls.G1.ProjectivePoint.fromHex(hexToBuf(DEMO_KEYS[BOB].publicKey));
+		const rogueKey = aliceKey.subtract(bobKey).toRawBytes(true);
+		const rogue = deriveAddress(rogueKey);
+		const board: Quorum = {
+			threshold: 2n,
+			members: {
+				[BOB]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[BOB] },
+				[rogue]: {
+					nonce: 0n,
+					shares: 1n,
+					publicKey: bufToHex(Buffer.from(rogueKey)),
+					pop: provePossession(hexToBuf(DEMO_PRIVS[0])),
+				},
+			},
+		};
+
+		// Alice alone seals a hanko that claims Bob signed too
+		const forged = hankoOf([ALICE]);
+		expect(verifyHanko({ quorum: board, signers: [BOB, rogue], hanko: forged, messageHash: MESSAGE })).toBe(true);
+		expect(validateQuorum(board)).toEqual({ ok: false, error: `Member ${rogue} has no valid proof of possession` });
+	});
+});
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'bun:test';
+import { encodeTxPayload, hexToBuf } from '../codec/rlp';
+import { HISTORY_LIMIT } from '../constants';
+import { selectProposer } from '../core/entity';
+import { type ReplicaDiff, createHistory, diffHistory, recordTick } from '../core/history';
+import { createMempool } from '../core/mempool';
+import { DEMO_KEYS, DEMO_PRIVS, type Runtime, createRuntime } from '../core/runtime';
+import { sign } from '../crypto/bls';
+import type { Address, ChatTx, EntityState, Input, Replica, Result } from '../types';
+
+const { ADDRS } = createRuntime();
+const [ALICE, BOB, CAROL] = ADDRS as Address[];
+const ADDR_KEY = 'test:history';
+const REPLICA_KEY = `${ADDR_KEY}:${ALICE}`;
+
+const state: EntityState = {
+	address: { jurisdiction: 'test', entityId: 'history' },
+	quorum: {
+		threshold: 2n,
+		members: {
+			[ALICE]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[ALICE] },
+			[BOB]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[BOB] },
+			[CAROL]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[CAROL] },
+		},
+	},
+	chat: [],
+	proposals: {},
+	balances: {},
+	accounts: {},
+	payments: {},
+};
+
+const replica: Replica = {
+	address: state.address,
+	proposer: ALICE,
+	isAwaitingSignatures: false,
+	view: 0,
+	viewVotes: {},
+	mempool: createMempool(),
+	last: { height: 0n, ts: 0, txs: [], receipts: [], state },
+};
+
+const chat = (message: string, nonce: bigint): Input => {
+	const base = { kind: 'chat' as const, nonce, from: ALICE, body: { message } };
+	const tx: ChatTx = {
+		...base,
+		sig: sign({ message: encodeTxPayload(ADDR_KEY, base), privateKey: hexToBuf(DEMO_PRIVS[0]) }),
+	};
+	return {
+		from: ALICE,
+		to: selectProposer(state.quorum, nonce + 1n, 0),
+		cmd: { type: 'ADD_TX', addrKey: ADDR_KEY, tx },
+	};
+};
+
+const drain = (rt: Runtime, incoming: Input[], now: number): number =>
+	incoming.length === 0 ? now : drain(rt, rt.tick({ now, incoming }).outbox, now + 100);
+
+describe('Runtime history', () => {
+	it('steps back through the frames and states of past ticks', () => {
+		const rt = createRuntime();
+		rt.tick({ now: 0, incoming: [{ from: ALICE, to: ALICE, cmd: { type: 'IMPORT', replica } }] });
+		const afterFirst = drain(rt, [chat('first', 0n)], 100);
+		const { frame: committed } = rt.tick({ now: afterFirst, incoming: [] });
+		drain(rt, [chat('second', 1n)], afterFirst + 100);
+
+		const chatAt = (height: bigint) =>
+			rt
+				.getStateAt(height)
+				?.replicas.get(REPLICA_KEY)
+				?.last.state.chat.map(message => message.msg);
+		expect(rt.getStateAt(0n)?.replicas.size).toBe(0);
+		expect(chatAt(1n)).toEqual([]);
+		expect(chatAt(committed.height)).toEqual(['first']);
+		expect(
+			rt
+				.debugReplicas()
+				.get(REPLICA_KEY)
+				?.last.state.chat.map(message => message.msg),
+		).toEqual(['first', 'second']);
+
+		// each frame links to the one before and carries the inputs that tick applied
+		expect(rt.getFrame(0n)).toBeUndefined();
+		expect(rt.getFrame(2n)).toMatchObject({ parent: rt.getFrame(1n)?.hash });
+		expect(rt.getFrame(2n)?.inputs.map(input => input.cmd.type)).toEqual(['ADD_TX']);
+		expect(rt.getFrame(1_000n)).toBeUndefined();
+	});
+
+	it('diffs each replica between two heights', () => {
+		const rt = createRuntime();
+		rt.tick({ now: 0, incoming: [{ from: ALICE, to: ALICE, cmd: { type: 'IMPORT', replica } }] });
+		rt.tick({ now: 100, incoming: [chat('hello', 0n)] });
+
+		const statuses = (from: bigint, to: bigint) =>
+			(rt.diffStates(from, to) as Extract<Result<ReplicaDiff[]>, { ok: true }>).value.map(diff => diff.status);
+		// importing spawns a replica for every member
+		expect(statuses(0n, 1n)).toEqual(['added', 'added', 'added']);
+		expect(statuses(1n, 0n)).toEqual(['removed', 'removed', 'removed']);
+		// only the proposer got the tx: it waits in the mempool and the pending work starts the view timer
+		const proposer = selectProposer(state.quorum, 1n, 0);
+		expect(rt.diffStates(1n, 2n)).toEqual({
+			ok: true,
+			value: [
+				{
+					key: `${ADDR_KEY}:${proposer}`,
+					status: 'changed',
+					fields: ['mempool', 'pendingSince'],
+					before: rt.getStateAt(1n)?.replicas.get(`${ADDR_KEY}:${proposer}`),
+					after: rt.getStateAt(2n)?.replicas.get(`${ADDR_KEY}:${proposer}`),
+				},
+			],
+		});
+		expect(rt.diffStates(2n, 2n)).toEqual({ ok: true, value: [] });
+		expect(rt.diffStates(1n, 9n)).toEqual({ ok: false, error: 'No history at height 9' });
+	});
+
+	it('keeps only the newest states', () => {
+		const empty = { replicas: new Map(), height: 0n, lastHash: '0x' as const };
+		const history = Array.from({ length: HISTORY_LIMIT + 5 }, (_, i) => BigInt(i + 1)).reduce(
+			(acc, height) => recordTick(acc, { state: { ...empty, height } }, HISTORY_LIMIT),
+			createHistory(empty),
+		);
+
+		expect(history).toHaveLength(HISTORY_LIMIT);
+		expect(history[0].state.height).toBe(6n);
+		expect(diffHistory(history, 5n, 6n)).toEqual({ ok: false, error: 'No history at height 5' });
+	});
+});
@@ -0,0 +1,81 @@
+import { afterAll, describe, expect, it } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { bufToHex, hexToBuf } from '../codec/rlp';
+import { DEMO_SEED } from '../constants';
+import { createMemoryKeystore, openFileKeystore } from '../core/keystore';
+import { DEMO_PRIVS, createRuntime } from '../core/runtime';
+import { deriveAddress, getPublicKey } from '../crypto/bls';
+import { deriveChildKey, deriveKey, deriveMasterKey, mnemonicToSeed } from '../crypto/derive';
+import type { Result } from '../types';
+
+const unwrap = <T>(result: Result<T>): T => (result as Extract<Result<T>, { ok: true }>).value;
+const scalar = (key: Uint8Array): bigint => BigInt(bufToHex(Buffer.from(key)));
+
+describe('HD key derivation', () => {
+	it('matches the EIP-2333 test vector from its BIP-39 mnemonic', () => {
+		const seed = mnemonicToSeed(
+			'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about',
+			'TREZOR',
+		);
+		expect(bufToHex(Buffer.from(seed))).toBe(
+			'0xc55257c360c07c72029aebc1b53c05ed0362ada38ead3e3e9efa3708e53495531f09a6987599d18264c1e1c92f2cf141630c7a3c4ab7c81b2f001698e7463b04',
+		);
+		const master = unwrap(deriveMasterKey(seed));
+		expect(scalar(master)).toBe(6083874454709270928345386274498605044986640685124978867557563392430687146096n);
+		expect(scalar(unwrap(deriveChildKey(master, 0)))).toBe(
+			20397789859736650942317412262472558107875392172444076792671091975210932703118n,
+		);
+	});
+
+	it('derives the same distinct keys from a seed on every run', () => {
+		const seed = hexToBuf(DEMO_SEED);
+		expect(DEMO_PRIVS).toEqual([0, 1, 2, 3, 4].map(i => bufToHex(Buffer.from(unwrap(deriveKey(seed, i))))));
+		expect(new Set(DEMO_PRIVS).size).toBe(DEMO_PRIVS.length);
+		expect(deriveKey(seed.subarray(0, 16), 0)).toEqual({ ok: false, error: 'Seed shorter than 32 bytes' });
+		expect(deriveKey(seed, -1)).toEqual({ ok: false, error: 'Invalid key index -1' });
+	});
+});
+
+describe('Keystore', () => {
+	const keys = [0, 1].map(i => unwrap(deriveKey(hexToBuf(DEMO_SEED), i)));
+	const addressOf = (key: Uint8Array) => deriveAddress(getPublicKey(key));
+
+	it('keeps keys in memory and hands out signers for them', () => {
+		const keystore = createMemoryKeystore();
+		expect(keystore.add(keys[0])).toEqual({ ok: true, value: addressOf(keys[0]) });
+		expect(keystore.add(keys[0])).toEqual({ ok: true, value: addressOf(keys[0]) });
+		expect(keystore.add(new Uint8Array(32))).toEqual({ ok: false, error: 'Invalid private key' });
+		expect(keystore.addresses()).toEqual([addressOf(keys[0])]);
+		expect(keystore.signer(addressOf(keys[0]))?.publicKey).toEqual(getPublicKey(keys[0]));
+		expect(keystore.signer(addressOf(keys[1]))).toBeUndefined();
+	});
+
+	describe('in an encrypted file', () => {
+		const dir = mkdtempSync(join(tmpdir(), 'xln-keystore-'));
+		afterAll(() => rmSync(dir, { recursive: true, force: true }));
+		const path = join(dir, 'keys.json');
+
+		it('reopens with the password and refuses any other', () => {
+			const keystore = unwrap(openFileKeystore(path, 'correct horse'));
+			keys.forEach(key => keystore.add(key));
+			// only ciphertext reaches the disk
+			const contents = readFileSync(path, 'utf8');
+			keys.forEach(key => expect(contents).not.toContain(Buffer.from(key).toString('hex')));
+
+			const reopened = unwrap(openFileKeystore(path, 'correct horse'));
+			expect(reopened.addresses()).toEqual(keys.map(addressOf));
+			expect(openFileKeystore(path, 'battery staple')).toEqual({
+				ok: false,
+				error: 'Wrong password or corrupted keystore',
+			});
+		});
+	});
+
+	it('gives a runtime the members it signs for', () => {
+		const keystore = createMemoryKeystore();
+		const address = unwrap(keystore.add(keys[1]));
+		expect(createRuntime({ keystore, signers: [address, addressOf(keys[0])] }).ADDRS).toEqual([address]);
+	});
+});
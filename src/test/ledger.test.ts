@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'bun:test';
+import { encodeTxPayload, hexToBuf } from '../codec/rlp';
+import { DEMO_ENTITY_ID, DEMO_JURISDICTION, MAX_BALANCE } from '../constants';
+import { applyTx, execFrame, hashTx } from '../core/entity';
+import { credit, debit, getBalance, move } from '../core/ledger';
+import { DEMO_KEYS, DEMO_PRIVS, createRuntime } from '../core/runtime';
+import { sign } from '../crypto/bls';
+import type { Address, Balances, EntityState, Frame, Transaction } from '../types';
+
+const { ADDRS } = createRuntime();
+const [ALICE, BOB, CAROL] = ADDRS as Address[];
+const ADDR_KEY = `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`;
+const OUTSIDER = '0x9999999999999999999999999999999999999999' as Address;
+
+const createEntityState = (balances: Balances = {}): EntityState => ({
+	address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
+	quorum: {
+		threshold: 2n,
+		members: {
+			[ALICE]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[ALICE] },
+			[BOB]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[BOB] },
+			[CAROL]: { nonce: 0n, shares: 2n, ...DEMO_KEYS[CAROL] },
+		},
+	},
+	chat: [],
+	proposals: {},
+	balances,
+	accounts: {},
+	payments: {},
+});
+
+const signTx = (tx: Omit<Transaction, 'sig'>): Transaction => {
+	const privateKey = hexToBuf(DEMO_PRIVS[ADDRS.indexOf(tx.from)]);
+	return { ...tx, sig: sign({ message: encodeTxPayload(ADDR_KEY, tx), privateKey }) } as Transaction;
+};
+
+const apply = (state: EntityState, tx: Omit<Transaction, 'sig'>) =>
+	applyTx({ state, transaction: signTx(tx), timestamp: 1, height: 1n });
+
+describe('Ledger primitives', () => {
+	it('credits, debits and moves balances per asset', () => {
+		const credited = credit({ balances: {}, address: ALICE, asset: 'USD', amount: 100n });
+		expect(credited.ok).toBe(true);
+		if (!credited.ok) return;
+
+		const moved = move({ balances: credited.value, from: ALICE, to: BOB, asset: 'USD', amount: 40n });
+		expect(moved.ok).toBe(true);
+		if (!moved.ok) return;
+		expect(getBalance(moved.value, ALICE, 'USD')).toBe(60n);
+		expect(getBalance(moved.value, BOB, 'USD')).toBe(40n);
+		expect(getBalance(moved.value, BOB, 'EUR')).toBe(0n);
+	});
+
+	it('guards against negative balances, overflow and non-positive amounts', () => {
+		const balances: Balances = { [ALICE]: { USD: 10n } };
+		expect(debit({ balances, address: ALICE, asset: 'USD', amount: 11n })).toEqual({
+			ok: false,
+			error: 'Insufficient balance',
+		});
+		expect(credit({ balances: { [ALICE]: { USD: MAX_BALANCE } }, address: ALICE, asset: 'USD', amount: 1n })).toEqual({
+			ok: false,
+			error: 'Balance overflow',
+		});
+		expect(credit({ balances, address: ALICE, asset: 'USD', amount: 0n })).toEqual({
+			ok: false,
+			error: 'Amount must be positive',
+		});
+		expect(move({ balances, from: ALICE, to: BOB, asset: 'USD', amount: -5n })).toEqual({
+			ok: false,
+			error: 'Amount must be positive',
+		});
+	});
+});
+
+describe('Ledger transactions', () => {
+	it('transfers between holders, including to non-members', () => {
+		const state = createEntityState({ [ALICE]: { USD: 100n } });
+		const result = apply(state, {
+			kind: 'transfer',
+			nonce: 0n,
+			from: ALICE,
+			body: { to: OUTSIDER, asset: 'USD', amount: 30n },
+		});
+
+		expect(result.ok).toBe(true);
+		if (result.ok) {
+			expect(result.value.balances[ALICE].USD).toBe(70n);
+			expect(result.value.balances[OUTSIDER].USD).toBe(30n);
+		}
+	});
+
+	it('rejects transfers exceeding the sender balance', () => {
+		const state = createEntityState({ [ALICE]: { USD: 10n } });
+		expect(
+			apply(state, { kind: 'transfer', nonce: 0n, from: ALICE, body: { to: BOB, asset: 'USD', amount: 11n } }),
+		).toEqual({ ok: false, error: 'Insufficient balance' });
+		expect(
+			apply(state, { kind: 'transfer', nonce: 0n, from: ALICE, body: { to: BOB, asset: 'EUR', amount: 1n } }),
+		).toEqual({ ok: false, error: 'Insufficient balance' });
+	});
+
+	it('requires quorum power to mint or burn directly', () => {
+		const state = createEntityState({ [BOB]: { USD: 5n } });
+		expect(
+			apply(state, { kind: 'mint', nonce: 0n, from: ALICE, body: { address: ALICE, asset: 'USD', amount: 1n } }),
+		).toEqual({ ok: false, error: 'Requires quorum approval' });
+
+		const minted = apply(state, {
+			kind: 'mint',
+			nonce: 0n,
+			from: CAROL,
+			body: { address: ALICE, asset: 'USD', amount: 50n },
+		});
+		expect(minted.ok).toBe(true);
+		if (!minted.ok) return;
+		expect(minted.value.balances[ALICE].USD).toBe(50n);
+
+		const burned = apply(minted.value, {
+			kind: 'burn',
+			nonce: 1n,
+			from: CAROL,
+			body: { address: BOB, asset: 'USD', amount: 5n },
+		});
+		expect(burned.ok).toBe(true);
+		if (burned.ok) expect(burned.value.balances[BOB].USD).toBe(0n);
+	});
+
+	it('mints through an approved proposal', () => {
+		const proposeTx = signTx({
+			kind: 'propose',
+			nonce: 0n,
+			from: ALICE,
+			body: { action: { kind: 'mint', body: { address: BOB, asset: 'USD', amount: 1000n } }, expiresAt: 5n },
+		});
+		const voteTx = signTx({
+			kind: 'vote',
+			nonce: 0n,
+			from: BOB,
+			body: { proposalId: hashTx(ADDR_KEY, proposeTx), vote: 'yes' },
+		});
+
+		const genesis: Frame<EntityState> = { height: 0n, ts: 0, txs: [], receipts: [], state: createEntityState() };
+		const opened = execFrame({ prev: genesis, transactions: [proposeTx], timestamp: 1 });
+		expect(opened.ok).toBe(true);
+		if (!opened.ok) return;
+
+		const approved = execFrame({ prev: opened.value, transactions: [voteTx], timestamp: 2 });
+		expect(approved.ok).toBe(true);
+		if (approved.ok) {
+			expect(approved.value.state.proposals[hashTx(ADDR_KEY, proposeTx)].status).toBe('executed');
+			expect(approved.value.state.balances[BOB].USD).toBe(1000n);
+		}
+	});
+});
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'bun:test';
+import { encodeTxPayload, hexToBuf } from '../codec/rlp';
+import { MEMPOOL_NONCE_GAP, MEMPOOL_SENDER_LIMIT } from '../constants';
+import { selectProposer } from '../core/entity';
+import {
+	admitMemberTx,
+	createMempool,
+	dropTxs,
+	mempoolSize,
+	nextNonce,
+	pruneStaleTxs,
+	readyTxs,
+} from '../core/mempool';
+import { DEMO_KEYS, DEMO_PRIVS, createRuntime } from '../core/runtime';
+import { sign } from '../crypto/bls';
+import type { Address, ChatTx, EntityState, Input, Mempool, Quorum, Replica, Transaction } from '../types';
+
+const runtime = createRuntime();
+const ADDRS = runtime.ADDRS as Address[];
+const [ALICE, BOB, CAROL] = ADDRS;
+
+const QUORUM: Quorum = {
+	threshold: 2n,
+	members: {
+		[ALICE]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[ALICE] },
+		[BOB]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[BOB] },
+		[CAROL]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[CAROL] },
+	},
+};
+
+const chatTx = (from: Address, nonce: bigint, message = `nonce ${nonce}`): ChatTx => {
+	const base = { kind: 'chat' as const, nonce, from, body: { message } };
+	return {
+		...base,
+		sig: sign({
+			message: encodeTxPayload('test:mempool', base),
+			privateKey: hexToBuf(DEMO_PRIVS[ADDRS.indexOf(from)]),
+		}),
+	};
+};
+
+/** Admit txs one after another, returning the final mempool and each tx's status or error. */
+const admitAll = (txs: Transaction[], mempool = createMempool()): { mempool: Mempool; results: string[] } =>
+	txs.reduce<{ mempool: Mempool; results: string[] }>(
+		(acc, tx) => {
+			const result = admitMemberTx(acc.mempool, tx, QUORUM.members[tx.from].nonce);
+			return result.ok
+				? { mempool: result.value.mempool, results: [...acc.results, result.value.status] }
+				: { ...acc, results: [...acc.results, result.error] };
+		},
+		{ mempool, results: [] },
+	);
+
+describe('Mempool queues', () => {
+	it('holds txs behind a nonce gap until the missing nonce arrives', () => {
+		const held = admitAll([chatTx(ALICE, 2n), chatTx(ALICE, 1n), chatTx(BOB, 0n)]);
+		expect(held.results).toEqual(['queued', 'queued', 'ready']);
+		expect(readyTxs(held.mempool, QUORUM).map(tx => [tx.from, tx.nonce])).toEqual([[BOB, 0n]]);
+		expect(nextNonce(held.mempool, ALICE, 0n)).toBe(0n);
+
+		const filled = admitAll([chatTx(ALICE, 0n)], held.mempool);
+		expect(filled.results).toEqual(['ready']);
+		expect(
+			readyTxs(filled.mempool, QUORUM)
+				.filter(tx => tx.from === ALICE)
+				.map(tx => tx.nonce),
+		).toEqual([0n, 1n, 2n]);
+		expect(nextNonce(filled.mempool, ALICE, 0n)).toBe(3n);
+	});
+
+	it('replaces a queued tx that reuses its nonce and refuses used nonces', () => {
+		const original = chatTx(ALICE, 0n, 'first draft');
+		const replacement = chatTx(ALICE, 0n, 'second draft');
+		const { mempool, results } = admitAll([original, replacement, chatTx(ALICE, 0n, 'first draft')]);
+		expect(results).toEqual(['ready', 'replaced', 'replaced']);
+		expect(mempool.queues[ALICE]).toHaveLength(1);
+
+		const committed = {
+			...QUORUM,
+			members: { ...QUORUM.members, [ALICE]: { nonce: 1n, shares: 1n, ...DEMO_KEYS[ALICE] } },
+		};
+		expect(admitMemberTx(mempool, chatTx(ALICE, 0n), 1n)).toEqual({ ok: false, error: 'Stale nonce' });
+		expect(pruneStaleTxs(mempool, committed)).toEqual(createMempool());
+	});
+
+	it('caps how many txs a single sender can queue', () => {
+		const txs = Array.from({ length: MEMPOOL_SENDER_LIMIT + 1 }, (_, i) => chatTx(CAROL, BigInt(i)));
+		const { mempool, results } = admitAll(txs);
+		expect(results.slice(-1)).toEqual(['Sender queue full']);
+		expect(mempoolSize(mempool)).toBe(MEMPOOL_SENDER_LIMIT);
+		// replacing a queued nonce is still allowed at the cap
+		expect(admitAll([chatTx(CAROL, 1n, 'again')], mempool).results).toEqual(['replaced']);
+		expect(admitAll([chatTx(BOB, 0n)], mempool).results).toEqual(['ready']);
+	});
+
+	it('refuses a nonce too far ahead of the queue and evicts one a commit leaves too far ahead', () => {
+		const edge = 1n + BigInt(MEMPOOL_NONCE_GAP);
+		const { mempool, results } = admitAll([chatTx(ALICE, 0n), chatTx(ALICE, edge + 1n), chatTx(ALICE, edge)]);
+		expect(results).toEqual(['ready', 'Nonce too far ahead', 'queued']);
+		expect(mempool.queues[ALICE].map(tx => tx.nonce)).toEqual([0n, edge]);
+
+		// a mempool restored with a far-future tx gives its slot back at the next commit
+		const restored: Mempool = { ...mempool, queues: { [ALICE]: [...mempool.queues[ALICE], chatTx(ALICE, edge + 2n)] } };
+		expect(pruneStaleTxs(restored, QUORUM).queues[ALICE].map(tx => tx.nonce)).toEqual([0n, edge]);
+		const committed = {
+			...QUORUM,
+			members: { ...QUORUM.members, [ALICE]: { nonce: 1n, shares: 1n, ...DEMO_KEYS[ALICE] } },
+		};
+		expect(pruneStaleTxs(restored, committed).queues[ALICE].map(tx => tx.nonce)).toEqual([edge]);
+	});
+
+	it('drops emptied queues so an empty mempool compares equal to a new one', () => {
+		const { mempool } = admitAll([chatTx(ALICE, 0n), chatTx(BOB, 0n)]);
+		expect(dropTxs(mempool, () => true)).toEqual(createMempool());
+	});
+});
+
+describe('Mempool through the server', () => {
+	it('answers submitters and proposes a future nonce only once the gap is filled', () => {
+		const rt = createRuntime();
+		const state: EntityState = {
+			address: { jurisdiction: 'test', entityId: 'mempool' },
+			quorum: QUORUM,
+			chat: [],
+			proposals: {},
+			balances: {},
+			accounts: {},
+			payments: {},
+		};
+		const replica: Replica = {
+			address: state.address,
+			proposer: ALICE,
+			isAwaitingSignatures: false,
+			view: 0,
+			viewVotes: {},
+			mempool: createMempool(),
+			last: { height: 0n, ts: 0, txs: [], receipts: [], state },
+		};
+		rt.tick({ now: 0, incoming: [{ from: ALICE, to: ALICE, cmd: { type: 'IMPORT', replica } }] });
+
+		const proposer = selectProposer(QUORUM, 1n, 0);
+		const submit = (tx: Transaction): Input => ({
+			from: tx.from,
+			to: proposer,
+			cmd: { type: 'ADD_TX', addrKey: 'test:mempool', tx },
+		});
+
+		const early = rt.tick({ now: 100, incoming: [submit(chatTx(BOB, 1n))] });
+		expect(early.admissions.map(({ status, replica: key }) => [status, key])).toEqual([
+			['queued', `test:mempool:${proposer}`],
+		]);
+		const relayed = rt.tick({ now: 200, incoming: early.outbox });
+		expect(relayed.admissions.every(admission => admission.status === 'queued')).toBe(true);
+		expect(relayed.outbox.some(input => input.cmd.type === 'PROPOSE')).toBe(false);
+
+		const drain = (incoming: Input[], now: number): void =>
+			incoming.length === 0 ? undefined : drain(rt.tick({ now, incoming }).outbox, now + 100);
+		drain([...relayed.outbox, submit(chatTx(BOB, 0n))], 300);
+
+		const replicas = [...rt.debugReplicas().values()];
+		expect(replicas.every(r => r.last.height === 1n && mempoolSize(r.mempool) === 0)).toBe(true);
+		expect(replicas[0].last.state.chat.map(message => message.msg)).toEqual(['nonce 0', 'nonce 1']);
+
+		const stale = rt.tick({ now: 5_000, incoming: [submit(chatTx(BOB, 0n))] });
+		expect(stale.admissions.map(({ status, reason }) => [status, reason])).toEqual([['rejected', 'Stale nonce']]);
+	});
+});
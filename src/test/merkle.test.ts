@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'bun:test';
+import { EMPTY_HASH } from '../constants';
+import { execFrame, hashFrame } from '../core/entity';
+import {
+	type MerkleLeaf,
+	entityProof,
+	entityRoot,
+	hashValue,
+	merkleProof,
+	merkleRoot,
+	verifyProof,
+} from '../core/merkle';
+import { createMempool } from '../core/mempool';
+import { DEMO_KEYS, createRuntime } from '../core/runtime';
+import type { Address, EntityState, Hex, Replica } from '../types';
+
+const hex = (byte: number): Hex => `0x${byte.toString(16).padStart(2, '0').repeat(32)}`;
+
+const leaves = (count: number): MerkleLeaf[] =>
+	Array.from({ length: count }, (_, i) => ({ key: `test:entity-${i}`, leaf: hex(i + 1) }));
+
+describe('State Merkle tree', () => {
+	it('proves every leaf of trees of any size', () => {
+		[1, 2, 3, 4, 5, 7, 8].forEach(count => {
+			const tree = leaves(count);
+			const root = merkleRoot(tree);
+			tree.forEach(({ key, leaf }) => {
+				const proof = merkleProof(tree, key);
+				expect(proof).toBeDefined();
+				expect(verifyProof(root, key, leaf, proof ?? [])).toBe(true);
+			});
+		});
+		expect(merkleRoot([])).toBe(EMPTY_HASH);
+		expect(merkleProof(leaves(3), 'test:missing')).toBeUndefined();
+	});
+
+	it('rejects a proof for another frame, another entity or another root', () => {
+		const tree = leaves(5);
+		const root = merkleRoot(tree);
+		const { key, leaf } = tree[2];
+		const proof = merkleProof(tree, key) ?? [];
+
+		expect(verifyProof(root, key, hex(0xff), proof)).toBe(false);
+		// the key is part of the leaf, so a neighbour's frame does not pass as this entity's
+		expect(verifyProof(root, tree[3].key, leaf, proof)).toBe(false);
+		expect(verifyProof(merkleRoot(leaves(4)), key, leaf, proof)).toBe(false);
+		expect(
+			verifyProof(
+				root,
+				key,
+				leaf,
+				proof.map((step, i) => (i === 0 ? { ...step, hash: hex(9) } : step)),
+			),
+		).toBe(false);
+	});
+
+	it('is the root of each ServerFrame and proves an entity from its committed frame', () => {
+		const rt = createRuntime();
+		const [alice] = rt.ADDRS as Address[];
+		const entity = (entityId: string): Replica => {
+			const state: EntityState = {
+				address: { jurisdiction: 'test', entityId },
+				quorum: { threshold: 1n, members: { [alice]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[alice] } } },
+				chat: [],
+				proposals: {},
+				balances: {},
+				accounts: {},
+				payments: {},
+			};
+			return {
+				address: state.address,
+				proposer: alice,
+				isAwaitingSignatures: false,
+				view: 0,
+				viewVotes: {},
+				mempool: createMempool(),
+				last: { height: 0n, ts: 0, txs: [], receipts: [], state },
+			};
+		};
+		const { frame } = rt.tick({
+			now: 0,
+			incoming: ['merkle-a', 'merkle-b', 'merkle-c'].map(id => ({
+				from: alice,
+				to: alice,
+				cmd: { type: 'IMPORT' as const, replica: entity(id) },
+			})),
+		});
+
+		const proof = rt.getProof('test:merkle-b');
+		expect(proof?.root).toBe(frame.root);
+		expect(proof?.leaf).toBe(hashFrame(entity('merkle-b').last));
+		expect(verifyProof(frame.root, 'test:merkle-b', hashFrame(entity('merkle-b').last), proof?.proof ?? [])).toBe(true);
+		expect(rt.getProof('test:unknown')).toBeUndefined();
+	});
+});
+
+describe('Entity state Merkle tree', () => {
+	const [alice, bob] = createRuntime().ADDRS as Address[];
+	const state: EntityState = {
+		address: { jurisdiction: 'test', entityId: 'audit' },
+		quorum: {
+			threshold: 1n,
+			members: {
+				[alice]: { nonce: 0n, shares: 3n, ...DEMO_KEYS[alice] },
+				[bob]: { nonce: 2n, shares: 1n, ...DEMO_KEYS[bob] },
+			},
+		},
+		chat: [{ from: alice, msg: 'hello', ts: 1 }],
+		proposals: {},
+		balances: { [alice]: { USD: 100n, EUR: 5n }, [bob]: { USD: 7n } },
+		accounts: {},
+		payments: {},
+	};
+
+	it('proves one balance or member record without the rest of the state', () => {
+		const root = entityRoot(state);
+		const balance = entityProof(state, `balances/${bob}/USD`);
+		expect(balance?.root).toBe(root);
+		expect(verifyProof(root, `balances/${bob}/USD`, hashValue(7n), balance?.proof ?? [])).toBe(true);
+		expect(verifyProof(root, `balances/${bob}/USD`, hashValue(8n), balance?.proof ?? [])).toBe(false);
+
+		const member = entityProof(state, `quorum/members/${alice}`);
+		expect(
+			verifyProof(root, `quorum/members/${alice}`, hashValue(state.quorum.members[alice]), member?.proof ?? []),
+		).toBe(true);
+		expect(entityProof(state, 'chat/1')).toBeUndefined();
+	});
+
+	it('carries the root in executed frames and hashes frames by it', () => {
+		const genesis = { height: 0n, ts: 0, txs: [], receipts: [], state };
+		const executed = execFrame({ prev: genesis, transactions: [], timestamp: 10 });
+		expect(executed).toMatchObject({ ok: true, value: { root: entityRoot(state) } });
+
+		// the hash follows the state through its root, whatever root a frame claims
+		const richer = { ...state, balances: { ...state.balances, [bob]: { USD: 8n } } };
+		expect(hashFrame({ ...genesis, state: richer })).not.toBe(hashFrame(genesis));
+		expect(hashFrame({ ...genesis, root: entityRoot(richer) })).toBe(hashFrame(genesis));
+	});
+});
@@ -1,21 +1,48 @@
 import { describe, expect, it } from '@jest/globals';
+import { encodeTxPayload, hexToBuf } from '../codec/rlp';
 import { DEMO_ENTITY_ID, DEMO_JURISDICTION, DUMMY_SIGNATURE, EMPTY_HASH, INITIAL_HEIGHT } from '../constants';
-import { applyCommand, applyTx, execFrame } from '../core/entity';
+import { applyCommand, applyTx, execFrame, hashTx } from '../core/entity';
+import { DEMO_KEYS, DEMO_PRIVS, createRuntime } from '../core/runtime';
 import { applyServerBlock } from '../core/server';
-import { Address, EntityState, Frame, Hex, Input, Replica, ServerState, Transaction } from '../types';
+import { sign } from '../crypto/bls';
+import { Address, ChatTx, EntityState, Frame, Hex, Input, Replica, ServerState, Transaction } from '../types';
+
+/** Key recorded for made-up members, whose signatures these tests never check. */
+const NO_KEY: Hex = `0x${'00'.repeat(48)}`;
+const ADDR_KEY = `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`;
 
 describe('XLN Negative Path Tests', () => {
 	// Helper to create a basic entity state
 	const createEntityState = (): EntityState => ({
+		address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
 		quorum: {
 			threshold: 3n,
 			members: {
-				'0x1111111111111111111111111111111111111111': { nonce: 0n, shares: 1n },
-				'0x2222222222222222222222222222222222222222': { nonce: 0n, shares: 1n },
-				'0x3333333333333333333333333333333333333333': { nonce: 0n, shares: 1n },
+				'0x1111111111111111111111111111111111111111': {
+					nonce: 0n,
+					shares: 1n,
+					publicKey: NO_KEY,
+					pop: DUMMY_SIGNATURE,
+				},
+				'0x2222222222222222222222222222222222222222': {
+					nonce: 0n,
+					shares: 1n,
+					publicKey: NO_KEY,
+					pop: DUMMY_SIGNATURE,
+				},
+				'0x3333333333333333333333333333333333333333': {
+					nonce: 0n,
+					shares: 1n,
+					publicKey: NO_KEY,
+					pop: DUMMY_SIGNATURE,
+				},
 			},
 		},
 		chat: [],
+		proposals: {},
+		balances: {},
+		accounts: {},
+		payments: {},
 	});
 
 	// Helper to create a basic frame
@@ -23,6 +50,7 @@ describe('XLN Negative Path Tests', () => {
 		height,
 		ts: Date.now(),
 		txs: [],
+		receipts: [],
 		state,
 	});
 
@@ -31,7 +59,9 @@ describe('XLN Negative Path Tests', () => {
 		address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
 		proposer: '0x1111111111111111111111111111111111111111' as Address,
 		isAwaitingSignatures: false,
-		mempool: [],
+		view: 0,
+		viewVotes: {},
+		mempool: { queues: {}, inbound: [] },
 		last: createFrame(state),
 	});
 
@@ -46,7 +76,7 @@ describe('XLN Negative Path Tests', () => {
 				sig: DUMMY_SIGNATURE,
 			};
 
-			const result = applyTx({ state, transaction: tx, timestamp: Date.now() });
+			const result = applyTx({ state, transaction: tx, timestamp: Date.now(), height: 1n });
 			expect(result.ok).toBe(false);
 			if (!result.ok) {
 				expect(result.error).toBe('Bad nonce');
@@ -63,7 +93,7 @@ describe('XLN Negative Path Tests', () => {
 				sig: DUMMY_SIGNATURE,
 			};
 
-			const result = applyTx({ state, transaction: tx, timestamp: Date.now() });
+			const result = applyTx({ state, transaction: tx, timestamp: Date.now(), height: 1n });
 			expect(result.ok).toBe(false);
 			if (!result.ok) {
 				expect(result.error).toBe('Signer not in quorum');
@@ -81,7 +111,7 @@ describe('XLN Negative Path Tests', () => {
 				sig: DUMMY_SIGNATURE,
 			} as Transaction;
 
-			const result = applyTx({ state, transaction: tx, timestamp: Date.now() });
+			const result = applyTx({ state, transaction: tx, timestamp: Date.now(), height: 1n });
 			expect(result.ok).toBe(false);
 			if (!result.ok) {
 				expect(result.error).toBe('Unknown tx kind');
@@ -92,7 +122,7 @@ describe('XLN Negative Path Tests', () => {
 			const replica = createReplica(createEntityState());
 			const command = {
 				type: 'PROPOSE' as const,
-				addrKey: `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`,
+				addrKey: ADDR_KEY,
 				ts: Date.now(),
 			};
 
@@ -110,13 +140,15 @@ describe('XLN Negative Path Tests', () => {
 					...createFrame(createEntityState(), 1n),
 					hash: '0x1111111111111111111111111111111111111111111111111111111111111111' as Hex,
 					sigs: new Map(),
+					view: 0,
 				},
 			};
 
 			const command = {
 				type: 'SIGN' as const,
-				addrKey: `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`,
+				addrKey: ADDR_KEY,
 				signer: '0x1111111111111111111111111111111111111111' as Address,
+				view: 0,
 				frameHash: '0x2222222222222222222222222222222222222222222222222222222222222222' as Hex, // Different hash
 				sig: DUMMY_SIGNATURE,
 			};
@@ -134,13 +166,15 @@ describe('XLN Negative Path Tests', () => {
 					...createFrame(createEntityState(), 1n),
 					hash: '0x1111111111111111111111111111111111111111111111111111111111111111' as Hex,
 					sigs: new Map(),
+					view: 0,
 				},
 			};
 
 			const command = {
 				type: 'SIGN' as const,
-				addrKey: `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`,
+				addrKey: ADDR_KEY,
 				signer: '0x9999999999999999999999999999999999999999' as Address,
+				view: 0,
 				frameHash: '0x1111111111111111111111111111111111111111111111111111111111111111' as Hex,
 				sig: DUMMY_SIGNATURE,
 			};
@@ -149,7 +183,7 @@ describe('XLN Negative Path Tests', () => {
 			expect(result.replica.proposal?.sigs.size).toBe(0);
 		});
 
-		it('should propagate frame execution errors', () => {
+		it('should carry failing transactions in the frame with a rejected receipt', () => {
 			const prev = createFrame(createEntityState());
 			const badTx: Transaction = {
 				kind: 'chat',
@@ -160,9 +194,13 @@ describe('XLN Negative Path Tests', () => {
 			};
 
 			const result = execFrame({ prev, transactions: [badTx], timestamp: Date.now() });
-			expect(result.ok).toBe(false);
-			if (!result.ok) {
-				expect(result.error).toBe('Bad nonce');
+			expect(result.ok).toBe(true);
+			if (result.ok) {
+				expect(result.value.txs).toEqual([badTx]);
+				expect(result.value.receipts).toEqual([
+					{ txHash: hashTx(ADDR_KEY, badTx), from: badTx.from, nonce: 999n, status: 'rejected', reason: 'Bad nonce' },
+				]);
+				expect(result.value.state).toEqual(prev.state);
 			}
 		});
 	});
@@ -202,22 +240,21 @@ describe('XLN Negative Path Tests', () => {
 			expect(result.outbox.length).toBe(0);
 		});
 
-		it('should handle frame build errors gracefully', () => {
+		it('should propose a frame that records rejected transactions instead of applying them', () => {
 			const state = createEntityState();
 			const baseReplica = createReplica(state);
 
 			// Create replica with a transaction that will fail
+			const unsigned: Transaction = {
+				kind: 'chat' as const,
+				nonce: 0n,
+				from: '0x1111111111111111111111111111111111111111' as Address,
+				body: { message: 'test' },
+				sig: DUMMY_SIGNATURE, // Invalid signature
+			};
 			const replica: Replica = {
 				...baseReplica,
-				mempool: [
-					{
-						kind: 'chat' as const,
-						nonce: 999n, // Invalid nonce
-						from: '0x1111111111111111111111111111111111111111' as Address,
-						body: { message: 'test' },
-						sig: DUMMY_SIGNATURE,
-					},
-				],
+				mempool: { queues: { [unsigned.from]: [unsigned] }, inbound: [] },
 			};
 
 			const serverState: ServerState = {
@@ -233,7 +270,7 @@ describe('XLN Negative Path Tests', () => {
 				to: '0x1111111111111111111111111111111111111111' as Address,
 				cmd: {
 					type: 'PROPOSE',
-					addrKey: `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`,
+					addrKey: ADDR_KEY,
 					ts: Date.now(),
 				},
 			};
@@ -244,52 +281,63 @@ describe('XLN Negative Path Tests', () => {
 				timestamp: Date.now(),
 			});
 
-			// Proposal should not be created due to frame build error
+			// The proposal carries the bad tx with its receipt, so every replica re-checks it before evicting it
 			const updatedReplica = result.state.replicas.get(
 				`${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}:0x1111111111111111111111111111111111111111`,
 			);
-			expect(updatedReplica?.proposal).toBeUndefined();
-			expect(updatedReplica?.isAwaitingSignatures).toBe(false);
+			expect(updatedReplica?.proposal?.txs).toEqual([unsigned]);
+			expect(updatedReplica?.proposal?.receipts.map(receipt => receipt.status)).toEqual(['rejected']);
+			expect(updatedReplica?.mempool).toEqual({ queues: {}, inbound: [] });
 		});
 	});
 
 	describe('Consensus Edge Cases', () => {
 		it('should handle single-signer quorum correctly', () => {
+			const { ADDRS } = createRuntime();
+			const signer = ADDRS[0] as Address;
 			const state: EntityState = {
+				address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
 				quorum: {
 					threshold: 1n, // Single signer can commit
 					members: {
-						'0x1111111111111111111111111111111111111111': { nonce: 0n, shares: 1n },
+						[signer]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[signer] },
 					},
 				},
 				chat: [],
+				proposals: {},
+				balances: {},
+				accounts: {},
+				payments: {},
 			};
 
-			const baseReplica = createReplica(state);
+			const baseTx: Omit<ChatTx, 'sig'> = { kind: 'chat', nonce: 0n, from: signer, body: { message: 'test' } };
 			const replica: Replica = {
-				...baseReplica,
-				mempool: [
-					{
-						kind: 'chat' as const,
-						nonce: 0n,
-						from: '0x1111111111111111111111111111111111111111' as Address,
-						body: { message: 'test' },
-						sig: DUMMY_SIGNATURE,
+				...createReplica(state),
+				proposer: signer,
+				mempool: {
+					queues: {
+						[signer]: [
+							{
+								...baseTx,
+								sig: sign({ message: encodeTxPayload(ADDR_KEY, baseTx), privateKey: hexToBuf(DEMO_PRIVS[0]) }),
+							},
+						],
 					},
-				],
+					inbound: [],
+				},
 			};
 
 			const command = {
 				type: 'PROPOSE' as const,
-				addrKey: `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`,
+				addrKey: ADDR_KEY,
 				ts: Date.now(),
 			};
 
 			const result = applyCommand({ replica, command });
 
 			// Should seed proposer's signature for single-signer quorum
-			expect(result.replica.proposal?.sigs.has('0x1111111111111111111111111111111111111111')).toBe(true);
-			expect(result.replica.proposal?.sigs.get('0x1111111111111111111111111111111111111111')).toBe(DUMMY_SIGNATURE);
+			expect(result.replica.proposal?.sigs.has(signer)).toBe(true);
+			expect(result.replica.proposal?.sigs.get(signer)).toBe(DUMMY_SIGNATURE);
 		});
 
 		it('should not double-sign the same proposal', () => {
@@ -301,13 +349,15 @@ describe('XLN Negative Path Tests', () => {
 					...createFrame(createEntityState(), 1n),
 					hash: '0x1111111111111111111111111111111111111111111111111111111111111111' as Hex,
 					sigs: new Map([['0x1111111111111111111111111111111111111111' as Address, DUMMY_SIGNATURE]]),
+					view: 0,
 				},
 			};
 
 			const command = {
 				type: 'SIGN' as const,
-				addrKey: `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`,
+				addrKey: ADDR_KEY,
 				signer: '0x1111111111111111111111111111111111111111' as Address, // Already signed
+				view: 0,
 				frameHash: '0x1111111111111111111111111111111111111111111111111111111111111111' as Hex,
 				sig: '0x3333333333333333333333333333333333333333333333333333333333333333333333333333333333333333333333' as Hex,
 			};
@@ -324,7 +374,7 @@ describe('XLN Negative Path Tests', () => {
 
 			const command = {
 				type: 'COMMIT' as const,
-				addrKey: `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`,
+				addrKey: ADDR_KEY,
 				frame: createFrame(createEntityState(), 5n), // Wrong height (should be 1)
 				hanko: DUMMY_SIGNATURE,
 				signers: ['0x1111111111111111111111111111111111111111' as Address],
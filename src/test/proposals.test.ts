@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'bun:test';
+import { encodeTxPayload, hexToBuf } from '../codec/rlp';
+import { DEMO_ENTITY_ID, DEMO_JURISDICTION } from '../constants';
+import { applyTx, execFrame, hashTx } from '../core/entity';
+import { DEMO_KEYS, DEMO_PRIVS, createRuntime } from '../core/runtime';
+import { sign } from '../crypto/bls';
+import type { Address, EntityState, Frame, Hex, ProposalAction, Transaction, Vote } from '../types';
+
+const { ADDRS } = createRuntime();
+const [ALICE, BOB, CAROL, DAVE] = ADDRS as Address[];
+const ADDR_KEY = `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`;
+
+const createEntityState = (): EntityState => ({
+	address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
+	quorum: {
+		threshold: 3n,
+		members: {
+			[ALICE]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[ALICE] },
+			[BOB]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[BOB] },
+			[CAROL]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[CAROL] },
+			[DAVE]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[DAVE] },
+		},
+	},
+	chat: [],
+	proposals: {},
+	balances: {},
+	accounts: {},
+	payments: {},
+});
+
+const signTx = (tx: Omit<Transaction, 'sig'>): Transaction => {
+	const privateKey = hexToBuf(DEMO_PRIVS[ADDRS.indexOf(tx.from)]);
+	return { ...tx, sig: sign({ message: encodeTxPayload(ADDR_KEY, tx), privateKey }) } as Transaction;
+};
+
+const propose = (from: Address, nonce: bigint, action: ProposalAction, expiresAt = 10n): Transaction =>
+	signTx({ kind: 'propose', nonce, from, body: { action, expiresAt } } as Omit<Transaction, 'sig'>);
+
+const vote = (from: Address, nonce: bigint, proposalId: Hex, choice: Vote): Transaction =>
+	signTx({ kind: 'vote', nonce, from, body: { proposalId, vote: choice } } as Omit<Transaction, 'sig'>);
+
+const runFrame = (prev: Frame<EntityState>, transactions: Transaction[]): Frame<EntityState> => {
+	const result = execFrame({ prev, transactions, timestamp: Number(prev.height) + 1 });
+	expect(result.ok).toBe(true);
+	return result.ok ? result.value : prev;
+};
+
+const genesis = (): Frame<EntityState> => ({ height: 0n, ts: 0, txs: [], receipts: [], state: createEntityState() });
+
+const collective = (message: string): ProposalAction => ({ kind: 'collectiveMessage', body: { message } });
+
+describe('Proposals and votes', () => {
+	it('opens a pending proposal with the proposer voting yes', () => {
+		const tx = propose(ALICE, 0n, collective('hello'));
+		const frame = runFrame(genesis(), [tx]);
+
+		expect(frame.state.proposals[hashTx(ADDR_KEY, tx)]).toEqual({
+			id: hashTx(ADDR_KEY, tx),
+			proposer: ALICE,
+			action: collective('hello'),
+			votes: { [ALICE]: 'yes' },
+			status: 'pending',
+			expiresAt: 10n,
+		});
+		expect(frame.state.chat).toHaveLength(0);
+	});
+
+	it('executes the action in the frame where yes-shares reach the threshold', () => {
+		const tx = propose(ALICE, 0n, collective('we agree'));
+		const id = hashTx(ADDR_KEY, tx);
+		const opened = runFrame(genesis(), [tx]);
+		const supported = runFrame(opened, [vote(BOB, 0n, id, 'yes')]);
+		expect(supported.state.proposals[id].status).toBe('pending');
+
+		const approved = runFrame(supported, [vote(CAROL, 0n, id, 'yes')]);
+		expect(approved.state.proposals[id].status).toBe('executed');
+		expect(approved.state.chat).toEqual([{ from: ALICE, msg: 'we agree', ts: 3 }]);
+	});
+
+	it('rejects a proposal once no-votes make the threshold unreachable', () => {
+		const tx = propose(ALICE, 0n, collective('controversial'));
+		const id = hashTx(ADDR_KEY, tx);
+		const frame = runFrame(runFrame(genesis(), [tx]), [vote(BOB, 0n, id, 'no'), vote(CAROL, 0n, id, 'no')]);
+
+		expect(frame.state.proposals[id].status).toBe('rejected');
+		expect(frame.state.chat).toHaveLength(0);
+	});
+
+	it('expires a proposal after its last voting height', () => {
+		const tx = propose(ALICE, 0n, collective('too slow'), 2n);
+		const id = hashTx(ADDR_KEY, tx);
+		const first = runFrame(genesis(), [tx]);
+		const second = runFrame(first, [vote(BOB, 0n, id, 'yes')]);
+		expect(second.state.proposals[id].status).toBe('expired');
+
+		const late = applyTx({ state: second.state, transaction: vote(CAROL, 0n, id, 'yes'), timestamp: 3, height: 3n });
+		expect(late).toEqual({ ok: false, error: 'Proposal not pending' });
+	});
+
+	it('executes governance actions approved by vote', () => {
+		const removeDave: ProposalAction = { kind: 'removeMember', body: { address: DAVE } };
+		const tx = propose(ALICE, 0n, removeDave);
+		const id = hashTx(ADDR_KEY, tx);
+		const frame = runFrame(runFrame(genesis(), [tx]), [vote(BOB, 0n, id, 'yes'), vote(CAROL, 0n, id, 'yes')]);
+
+		expect(frame.state.proposals[id].status).toBe('executed');
+		expect(frame.state.quorum.members[DAVE]).toBeUndefined();
+	});
+
+	it('records an approved action that cannot be applied as rejected', () => {
+		const impossible: ProposalAction = { kind: 'setThreshold', body: { threshold: 99n } };
+		const tx = propose(ALICE, 0n, impossible);
+		const id = hashTx(ADDR_KEY, tx);
+		const frame = runFrame(runFrame(genesis(), [tx]), [vote(BOB, 0n, id, 'yes'), vote(CAROL, 0n, id, 'yes')]);
+
+		expect(frame.state.proposals[id].status).toBe('rejected');
+		expect(frame.state.quorum.threshold).toBe(3n);
+	});
+
+	it('rejects invalid votes', () => {
+		const tx = propose(ALICE, 0n, collective('once'));
+		const id = hashTx(ADDR_KEY, tx);
+		const { state } = runFrame(genesis(), [tx]);
+
+		expect(applyTx({ state, transaction: vote(ALICE, 1n, id, 'no'), timestamp: 2, height: 2n })).toEqual({
+			ok: false,
+			error: 'Already voted',
+		});
+		expect(
+			applyTx({ state, transaction: vote(BOB, 0n, `0x${'00'.repeat(32)}`, 'yes'), timestamp: 2, height: 2n }),
+		).toEqual({ ok: false, error: 'Unknown proposal' });
+		expect(
+			applyTx({ state, transaction: propose(BOB, 0n, collective('stale'), 1n), timestamp: 2, height: 2n }),
+		).toEqual({ ok: false, error: 'Proposal already expired' });
+	});
+});
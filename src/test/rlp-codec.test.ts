@@ -1,7 +1,27 @@
 import { describe, expect, it } from '@jest/globals';
 import * as fc from 'fast-check';
-import { convertBigIntToBuffer, decodeFrame, decodeTransaction, encodeFrame, encodeTransaction } from '../codec/rlp';
-import type { Frame, Hex, Transaction } from '../types';
+import { keccak_256 as keccak } from '@noble/hashes/sha3';
+import * as rlp from 'rlp';
+import {
+	convertBigIntToBuffer,
+	decodeFrame,
+	decodeInput,
+	decodeTransaction,
+	encodeFrame,
+	encodeInput,
+	decodeServerFrame,
+	encodeServerFrame,
+	encodeTransaction,
+	encodeValue,
+	hashServerFrame,
+} from '../codec/rlp';
+import { type Item, dynamic } from '../codec/schema';
+import { MIGRATIONS, seal } from '../codec/version';
+import { WIRE_VERSION } from '../constants';
+import type { Address, EntityState, Frame, Hex, Input, ServerFrame, Transaction } from '../types';
+import v0 from './fixtures/wire-v0.json';
+import v1 from './fixtures/wire-v1.json';
+import v4 from './fixtures/wire-v4.json';
 
 describe('RLP Codec Tests', () => {
 	describe('round-trip encoding', () => {
@@ -28,6 +48,7 @@ describe('RLP Codec Tests', () => {
 				height: 42n,
 				ts: Date.now(),
 				txs: [],
+				receipts: [],
 				state: { test: 'state' },
 			};
 
@@ -39,6 +60,355 @@ describe('RLP Codec Tests', () => {
 				expect(decoded.value).toEqual(frame);
 			}
 		});
+
+		it('should keep bigints, numbers and Maps of commands through an input round trip', () => {
+			const member = '0x1234567890123456789012345678901234567890' as Address;
+			const key = ('0x' + 'ef'.repeat(48)) as Hex;
+			const state = {
+				address: { jurisdiction: 'test', entityId: 'codec' },
+				quorum: {
+					threshold: 1n,
+					members: { [member]: { nonce: 3n, shares: 2n, publicKey: key, pop: ('0x' + 'cd'.repeat(96)) as Hex } },
+				},
+				chat: [],
+				proposals: {},
+				balances: { [member]: { USD: 2n ** 200n } },
+				accounts: {},
+				payments: {},
+			};
+			const input: Input = {
+				from: member,
+				to: member,
+				cmd: {
+					type: 'IMPORT',
+					replica: {
+						address: state.address,
+						proposer: member,
+						isAwaitingSignatures: true,
+						view: 2,
+						viewVotes: { [member]: 2 },
+						mempool: { queues: {}, inbound: [] },
+						last: { height: 7n, ts: 1_700_000_000_000, txs: [], receipts: [], state },
+						proposal: {
+							height: 8n,
+							ts: 1_700_000_000_100,
+							txs: [],
+							receipts: [],
+							state,
+							hash: ('0x' + 'ab'.repeat(32)) as Hex,
+							sigs: new Map([[member, ('0x' + 'cd'.repeat(96)) as Hex]]),
+							view: 1,
+						},
+					},
+				},
+			};
+
+			const decoded = decodeInput(encodeInput(input));
+			expect(decoded).toEqual({ ok: true, value: input });
+			if (decoded.ok) expect(encodeInput(decoded.value)).toEqual(encodeInput(input));
+		});
+	});
+
+	describe('typed commands', () => {
+		const alice = '0x1234567890123456789012345678901234567890' as Address;
+		const bob = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Address;
+		const hash = ('0x' + 'ab'.repeat(32)) as Hex;
+		const sig = ('0x' + 'cd'.repeat(96)) as Hex;
+		const key = ('0x' + 'ef'.repeat(48)) as Hex;
+		const left = { jurisdiction: 'test', entityId: 'left' };
+		const right = { jurisdiction: 'test', entityId: 'right' };
+
+		const state = (members: [Address, bigint][]): EntityState => ({
+			address: left,
+			quorum: {
+				threshold: 3n,
+				members: Object.fromEntries(members.map(([a, shares]) => [a, { nonce: 1n, shares, publicKey: key, pop: sig }])),
+			},
+			chat: [{ from: alice, msg: 'hi', ts: 5 }],
+			proposals: {
+				[hash]: {
+					id: hash,
+					proposer: alice,
+					action: { kind: 'setThreshold', body: { threshold: 2n } },
+					votes: { [bob]: 'no' },
+					status: 'pending',
+					expiresAt: 9n,
+				},
+			},
+			balances: { [alice]: { USD: 10n ** 30n } },
+			accounts: {
+				'test:left|test:right': {
+					state: {
+						left,
+						right,
+						height: 4n,
+						ts: 1_700_000_000_000,
+						balances: { USD: { left: -25n, right: 25n } },
+						creditLimits: { USD: { left: 0n, right: 50n } },
+						locks: {
+							[hash]: { sender: 'right', asset: 'USD', amount: 5n, hashlock: hash, expiresAt: 1_000, route: [left] },
+						},
+					},
+					sigs: { right: sig },
+					peerBoard: { threshold: 1n, members: { [bob]: { shares: 1n, publicKey: key, pop: sig } } },
+				},
+			},
+			payments: { [hash]: { forwarded: 'test:left|test:right' } },
+		});
+
+		const commit = (members: [Address, bigint][]): Input => ({
+			from: alice,
+			to: bob,
+			cmd: {
+				type: 'COMMIT',
+				addrKey: 'test:left',
+				hanko: sig,
+				frame: { height: 2n, ts: 7, txs: [], receipts: [], state: state(members), root: hash },
+				signers: [alice, bob],
+			},
+		});
+
+		it('round-trips every command exactly, bigints and signs included', () => {
+			const propose: Transaction = {
+				kind: 'propose',
+				nonce: 3n,
+				from: alice,
+				body: { action: { kind: 'mint', body: { address: bob, asset: 'USD', amount: 2n ** 70n } }, expiresAt: 12n },
+				sig,
+			};
+			const inputs: Input[] = [
+				commit([
+					[alice, 2n],
+					[bob, 1n],
+				]),
+				{ from: alice, to: alice, cmd: { type: 'ADD_TX', addrKey: 'test:left', tx: propose } },
+				{ from: alice, to: alice, cmd: { type: 'PROPOSE', addrKey: 'test:left', ts: 0 } },
+				{
+					from: bob,
+					to: alice,
+					cmd: { type: 'SIGN', addrKey: 'test:left', signer: bob, view: 0, frameHash: hash, sig },
+				},
+				{
+					from: bob,
+					to: bob,
+					cmd: { type: 'VIEW_CHANGE', addrKey: 'test:left', signer: bob, height: 3n, view: 2, sig },
+				},
+				{
+					from: bob,
+					to: alice,
+					cmd: {
+						type: 'ACCOUNT_ACK',
+						addrKey: 'test:right',
+						tx: {
+							kind: 'accountAck',
+							nonce: 0n,
+							from: bob,
+							body: {
+								account: 'test:left|test:right',
+								height: 4n,
+								stateHash: hash,
+								board: { threshold: 1n, members: { [bob]: { shares: 1n, publicKey: key, pop: sig } } },
+							},
+							signers: [bob],
+							sig,
+						},
+					},
+				},
+			];
+
+			inputs.forEach(input => {
+				const decoded = decodeInput(encodeInput(input));
+				expect(decoded).toEqual({ ok: true, value: input });
+				if (decoded.ok) expect(encodeInput(decoded.value)).toEqual(encodeInput(input));
+			});
+		});
+
+		it('encodes records the same whatever order their keys were added in', () => {
+			expect(
+				encodeInput(
+					commit([
+						[bob, 1n],
+						[alice, 2n],
+					]),
+				),
+			).toEqual(
+				encodeInput(
+					commit([
+						[alice, 2n],
+						[bob, 1n],
+					]),
+				),
+			);
+		});
+
+		it('refuses anything but the exact layout', () => {
+			const [from, to, [type, fields]] = rlp.decode(encodeInput(commit([[alice, 2n]])).subarray(1)) as [
+				Uint8Array,
+				Uint8Array,
+				[Uint8Array, Uint8Array[]],
+			];
+			const reencode = (cmd: unknown) => seal([from, to, cmd] as Item);
+
+			expect(decodeInput(reencode([type, [...fields, Buffer.from('extra')]]))).toEqual({
+				ok: false,
+				error: 'Invalid input: cmd: COMMIT: Expected 4 fields but got 5',
+			});
+			expect(decodeInput(reencode([Buffer.from('MINT'), fields]))).toEqual({
+				ok: false,
+				error: "Invalid input: cmd: Unknown type 'MINT'",
+			});
+			// a zero-padded integer would give one value two encodings
+			expect(
+				decodeInput(
+					reencode([
+						type,
+						[fields[0], fields[1], [fields[2][0], Buffer.from([0, 2]), ...fields[2].slice(2)], fields[3]],
+					]),
+				),
+			).toEqual({
+				ok: false,
+				error: 'Invalid input: cmd: COMMIT: frame: ts: Integer with leading zero',
+			});
+			expect(decodeInput(Buffer.concat([encodeInput(commit([[alice, 2n]])), Buffer.from([0])]))).toMatchObject({
+				ok: false,
+			});
+		});
+	});
+
+	describe('wire versions', () => {
+		// the values the fixtures in src/test/fixtures hold, each with its version as the state's note
+		const tx: Transaction = {
+			kind: 'transfer',
+			nonce: 4n,
+			from: '0x1234567890123456789012345678901234567890',
+			body: { to: '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd', asset: 'USD', amount: 250n },
+			sig: `0x${'cd'.repeat(96)}`,
+		};
+		const frame: Frame<{ note: string }> = {
+			height: 3n,
+			ts: 1_700_000_000_000,
+			txs: [tx],
+			receipts: [{ txHash: `0x${'ab'.repeat(32)}`, from: tx.from, nonce: 4n, status: 'applied' }],
+			state: { note: 'v2' },
+		};
+		const input: Input = { from: tx.from, to: tx.from, cmd: { type: 'ADD_TX', addrKey: 'test:wire', tx } };
+		const serverFrame: Omit<ServerFrame, 'hash'> = {
+			height: 7n,
+			ts: 1_700_000_000_100,
+			inputs: [input],
+			root: `0x${'11'.repeat(32)}`,
+			parent: `0x${'22'.repeat(32)}`,
+		};
+
+		it('decodes payloads of previous versions into the current types', () => {
+			const fixtures = { v0, v1, v4 };
+			(Object.keys(fixtures) as (keyof typeof fixtures)[]).forEach(version => {
+				const fixture = (kind: keyof typeof v0) => Buffer.from(fixtures[version][kind], 'hex');
+				expect(decodeTransaction(fixture('transaction'))).toEqual({ ok: true, value: tx });
+				expect(decodeInput(fixture('input'))).toEqual({ ok: true, value: input });
+				// frames went from JSON receipts (v0) to typed receipts (v1) to a typed state (v2), and v4
+				// frames carry on unchanged when they hold no accounts
+				expect(decodeFrame(fixture('frame'))).toEqual({
+					ok: true,
+					value: { ...frame, state: { note: version } },
+				});
+				expect(decodeServerFrame(fixture('serverFrame'))).toEqual({
+					ok: true,
+					value: { ...serverFrame, hash: hashServerFrame(serverFrame) },
+				});
+			});
+			// a server frame keeps the hash it was chained by when it was written
+			expect(hashServerFrame(serverFrame)).toBe(
+				`0x${Buffer.from(keccak(Buffer.from(v0.serverFrame, 'hex'))).toString('hex')}`,
+			);
+		});
+
+		it('writes the current version and reads it back', () => {
+			const encoded = [encodeTransaction(tx), encodeFrame(frame), encodeInput(input)];
+			encoded.forEach(buffer => expect(buffer[0]).toBe(WIRE_VERSION));
+			expect(decodeFrame(encodeFrame({ ...frame, root: serverFrame.root }))).toEqual({
+				ok: true,
+				value: { ...frame, root: serverFrame.root },
+			});
+			// the state is no longer JSON, so bigints and Maps in it survive the round trip
+			const typed = { ...frame, state: { supply: 2n ** 80n, sigs: new Map([[tx.from, tx.sig]]) } };
+			expect(decodeFrame(encodeFrame(typed))).toEqual({ ok: true, value: typed });
+			const hash = hashServerFrame(serverFrame);
+			expect(decodeServerFrame(encodeServerFrame({ ...serverFrame, hash }))).toEqual({
+				ok: true,
+				value: { ...serverFrame, hash },
+			});
+		});
+
+		it('refuses frames of versions before member keys whose state has quorum members', () => {
+			const members = { [tx.from]: { nonce: 0n, shares: 1n } };
+			const board = encodeFrame({ ...frame, state: { quorum: { threshold: 1n, members } } }).subarray(1);
+			const at = (version: number) => decodeFrame(Buffer.concat([Buffer.from([version]), board]));
+			expect(at(2)).toEqual({ ok: false, error: 'Invalid frame: Quorum members predate public keys' });
+			expect(at(3)).toEqual({ ok: false, error: 'Invalid frame: Quorum members predate proofs of possession' });
+
+			const empty = encodeFrame({ ...frame, state: { quorum: { threshold: 1n, members: {} } } }).subarray(1);
+			expect(decodeFrame(Buffer.concat([Buffer.from([2]), empty])).ok).toBe(true);
+		});
+
+		it('refuses version 4 payloads whose layout account boards and proposal views changed', () => {
+			const fixture = (kind: keyof typeof v4) => Buffer.from(v4[kind], 'hex');
+			expect(decodeInput(fixture('sign'))).toEqual({ ok: false, error: 'Invalid input: SIGN predates proposal views' });
+			expect(decodeTransaction(fixture('accountAck'))).toEqual({
+				ok: false,
+				error: 'Invalid transaction: Account messages predate account boards',
+			});
+			expect(decodeFrame(fixture('accountsFrame'))).toEqual({
+				ok: false,
+				error: 'Invalid frame: Accounts predate account boards',
+			});
+
+			// a server frame is refused for an input it embeds, and otherwise keeps its bytes and so its hash
+			const [height, ts, , root, parent] = rlp.decode(fixture('serverFrame').subarray(1)) as Item[];
+			const embedding = (inputs: Buffer[]) =>
+				Buffer.concat([Buffer.from([4]), Buffer.from(rlp.encode([height, ts, inputs, root, parent]))]);
+			expect(decodeServerFrame(embedding([fixture('sign').subarray(1)]))).toEqual({
+				ok: false,
+				error: 'Invalid server frame: SIGN predates proposal views',
+			});
+			expect(decodeServerFrame(embedding([fixture('input').subarray(1)]))).toEqual({
+				ok: true,
+				value: { ...serverFrame, hash: hashServerFrame(serverFrame) },
+			});
+		});
+
+		it('refuses versions it has no migrations for', () => {
+			Object.values(MIGRATIONS).forEach(migrations => expect(migrations).toHaveLength(WIRE_VERSION));
+			const future = Buffer.concat([Buffer.from([WIRE_VERSION + 1]), encodeTransaction(tx).subarray(1)]);
+			expect(decodeTransaction(future)).toEqual({
+				ok: false,
+				error: `Invalid transaction: Unsupported wire version ${WIRE_VERSION + 1}`,
+			});
+			expect(decodeInput(Buffer.alloc(0))).toEqual({ ok: false, error: 'Invalid input: Empty payload' });
+		});
+	});
+
+	describe('typed values', () => {
+		const roundTrip = (value: unknown) => dynamic.decode(rlp.decode(encodeValue(value)) as Item);
+
+		it('never gives values of different types the same bytes', () => {
+			const lookalikes = [5n, '5', 5, [5n], { 5: 5n }, new Map([['5', 5n]]), new Map(), {}, [], null, false, ''];
+			const encodings = new Set(lookalikes.map(value => encodeValue(value).toString('hex')));
+			expect(encodings.size).toBe(lookalikes.length);
+		});
+
+		it('encodes equal plain values the same way and decodes them back', () => {
+			expect(encodeValue({ a: 1n, b: 'x', c: undefined })).toEqual(encodeValue({ b: 'x', a: 1n }));
+			expect(encodeValue(-0)).toEqual(encodeValue(0));
+			const value = { amounts: [2n ** 200n, -3n], ts: 1.5, sigs: new Map([['0xab', { ok: true }]]), note: null };
+			expect(roundTrip(value)).toEqual({ ok: true, value });
+		});
+
+		it('refuses unknown tags and non-canonical numbers', () => {
+			expect(dynamic.decode([Buffer.from([9]), Buffer.alloc(0)])).toEqual({ ok: false, error: 'Unknown type tag 9' });
+			const nan = Buffer.from('7ff8000000000001', 'hex');
+			expect(dynamic.decode([Buffer.from([2]), nan])).toEqual({ ok: false, error: 'Non-canonical number' });
+		});
 	});
 
 	describe('edge cases', () => {
@@ -59,6 +429,7 @@ describe('RLP Codec Tests', () => {
 				height: 1n,
 				ts: 1000,
 				txs: [],
+				receipts: [],
 				state: { value: 'test' },
 			};
 
@@ -119,6 +490,7 @@ describe('RLP Codec Tests', () => {
 							height,
 							ts,
 							txs: [],
+							receipts: [],
 							state: { note },
 						};
 						const encoded = encodeFrame(frame);
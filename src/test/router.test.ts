@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'bun:test';
+import { encodeTxPayload, hexToBuf } from '../codec/rlp';
+import { applyAccountOps, createAccount, getAccountBalance, hashAccountState, hashlockOf } from '../core/account';
+import { findRoute, latestEntityStates, reportPayment } from '../core/router';
+import { DEMO_KEYS, DEMO_PRIVS, type Runtime, createRuntime } from '../core/runtime';
+import { sign } from '../crypto/bls';
+import type {
+	AccountMachine,
+	AccountProposeTx,
+	AccountState,
+	Address,
+	EntityState,
+	Hex,
+	Input,
+	Replica,
+	ReplicaAddr,
+} from '../types';
+import { getAccountKey, getAddrKey } from '../types';
+
+const runtime = createRuntime();
+const ADDRS = runtime.ADDRS as Address[];
+const [ALICE, BOB, CAROL, DAVE, EVE] = ADDRS;
+
+const PAYER: ReplicaAddr = { jurisdiction: 'test', entityId: 'payer' };
+const HUB: ReplicaAddr = { jurisdiction: 'test', entityId: 'hub' };
+const OTHER_HUB: ReplicaAddr = { jurisdiction: 'test', entityId: 'other-hub' };
+const SHOP: ReplicaAddr = { jurisdiction: 'test', entityId: 'shop' };
+
+/** Account where `sender` already holds `deposit` USD, deposited by `receiver`. */
+const fundedAccount = (sender: ReplicaAddr, receiver: ReplicaAddr, deposit: bigint): AccountState => {
+	const account = createAccount(sender, receiver);
+	const side = getAddrKey(account.left) === getAddrKey(receiver) ? 'left' : 'right';
+	const funded = applyAccountOps(account, side, [{ kind: 'deposit', asset: 'USD', amount: deposit }], 0);
+	return funded.ok ? funded.value : account;
+};
+
+const createEntityState = (address: ReplicaAddr, members: Address[], accounts: AccountState[]): EntityState => ({
+	address,
+	quorum: {
+		threshold: 2n,
+		members: Object.fromEntries(members.map(addr => [addr, { nonce: 0n, shares: 1n, ...DEMO_KEYS[addr] }])),
+	},
+	chat: [],
+	proposals: {},
+	balances: {},
+	accounts: Object.fromEntries(
+		accounts
+			.filter(account => [account.left, account.right].some(side => getAddrKey(side) === getAddrKey(address)))
+			.map((account): [string, AccountMachine] => [
+				getAccountKey(account.left, account.right),
+				{ state: account, sigs: {} },
+			]),
+	),
+	payments: {},
+});
+
+const ACCOUNTS = [fundedAccount(PAYER, HUB, 100n), fundedAccount(HUB, SHOP, 100n)];
+
+const importEntity = (rt: Runtime, state: EntityState): void => {
+	const replica: Replica = {
+		address: state.address,
+		proposer: ALICE,
+		isAwaitingSignatures: false,
+		view: 0,
+		viewVotes: {},
+		mempool: { queues: {}, inbound: [] },
+		last: { height: 0n, ts: 0, txs: [], receipts: [], state },
+	};
+	rt.tick({ now: 0, incoming: [{ from: ALICE, to: ALICE, cmd: { type: 'IMPORT', replica } }] });
+};
+
+const createNetwork = (): Runtime => {
+	const rt = createRuntime();
+	importEntity(rt, createEntityState(PAYER, [ALICE, BOB], ACCOUNTS));
+	importEntity(rt, createEntityState(HUB, [CAROL, DAVE], ACCOUNTS));
+	importEntity(rt, createEntityState(SHOP, [EVE, ALICE], ACCOUNTS));
+	return rt;
+};
+
+/** Every replica's copy of the account between `a` and `b`, which must all agree. */
+const agreedAccount = (rt: Runtime, a: ReplicaAddr, b: ReplicaAddr): AccountState => {
+	const parties = [getAddrKey(a), getAddrKey(b)];
+	const copies = [...rt.debugReplicas().values()]
+		.filter(replica => parties.includes(getAddrKey(replica.address)))
+		.map(replica => replica.last.state.accounts[getAccountKey(a, b)]);
+	expect(copies.every(machine => machine.pending === undefined)).toBe(true);
+	expect(new Set(copies.map(machine => hashAccountState(machine.state))).size).toBe(1);
+	return copies[0].state;
+};
+
+describe('Route finding', () => {
+	const states = [
+		createEntityState(PAYER, [ALICE], [...ACCOUNTS, fundedAccount(PAYER, OTHER_HUB, 100n)]),
+		createEntityState(HUB, [ALICE], ACCOUNTS),
+		createEntityState(OTHER_HUB, [ALICE], [fundedAccount(PAYER, OTHER_HUB, 100n), fundedAccount(OTHER_HUB, SHOP, 20n)]),
+		createEntityState(SHOP, [ALICE], ACCOUNTS),
+	];
+
+	it('picks the shortest path with capacity, breaking ties by address key', () => {
+		// both hubs can carry 10; "test:hub" sorts before "test:other-hub"
+		expect(findRoute({ states, from: PAYER, to: SHOP, amount: 10n, asset: 'USD' })).toEqual([PAYER, HUB, SHOP]);
+		expect(
+			findRoute({
+				states: [states[3], states[2], states[1], states[0]],
+				from: PAYER,
+				to: SHOP,
+				amount: 10n,
+				asset: 'USD',
+			}),
+		).toEqual([PAYER, HUB, SHOP]);
+		expect(findRoute({ states, from: PAYER, to: HUB, amount: 10n, asset: 'USD' })).toEqual([PAYER, HUB]);
+	});
+
+	it('skips accounts without enough capacity and reports when no route exists', () => {
+		const capped = states.map(state =>
+			getAddrKey(state.address) === getAddrKey(HUB)
+				? createEntityState(HUB, [ALICE], [ACCOUNTS[0], fundedAccount(HUB, SHOP, 5n)])
+				: state,
+		);
+		expect(findRoute({ states: capped, from: PAYER, to: SHOP, amount: 10n, asset: 'USD' })).toEqual([
+			PAYER,
+			OTHER_HUB,
+			SHOP,
+		]);
+		expect(findRoute({ states, from: PAYER, to: SHOP, amount: 200n, asset: 'USD' })).toBeUndefined();
+		expect(findRoute({ states, from: SHOP, to: PAYER, amount: 1n, asset: 'USD' })).toBeUndefined();
+		expect(findRoute({ states, from: PAYER, to: PAYER, amount: 1n, asset: 'USD' })).toBeUndefined();
+	});
+});
+
+describe('Multi-hop payments through the server', () => {
+	it('settles every hop of a routed payment', () => {
+		const rt = createNetwork();
+		const report = rt.pay(PAYER, SHOP, 30n, 'USD');
+
+		expect(report.ok).toBe(true);
+		if (!report.ok) return;
+		expect(report.value.route).toEqual([PAYER, HUB, SHOP]);
+		expect(report.value.hops.map(hop => hop.status)).toEqual(['settled', 'settled']);
+
+		const payerHub = agreedAccount(rt, PAYER, HUB);
+		const hubShop = agreedAccount(rt, HUB, SHOP);
+		expect(payerHub.locks).toEqual({});
+		expect(hubShop.locks).toEqual({});
+		// "test:hub" sorts before "test:payer", so the payer is the right side
+		expect(getAccountBalance(payerHub, 'right', 'USD')).toBe(70n);
+		expect(getAccountBalance(hubShop, 'left', 'USD')).toBe(70n);
+		expect(getAccountBalance(hubShop, 'right', 'USD')).toBe(30n);
+
+		// the hub now has 70 left towards the shop
+		expect(rt.pay(PAYER, SHOP, 80n, 'USD')).toEqual({ ok: false, error: 'No route' });
+	});
+
+	it('rolls every hop back when the payee does not know the preimage', () => {
+		const rt = createNetwork();
+		const preimage: Hex = `0x${'09'.repeat(32)}`;
+		const hashlock = hashlockOf(preimage);
+		const lock = { kind: 'lock' as const, asset: 'USD', amount: 30n, hashlock, expiresAt: 20_000, route: [SHOP] };
+		const unsigned = {
+			kind: 'accountPropose' as const,
+			nonce: 0n,
+			from: ALICE,
+			body: { counterparty: HUB, ops: [lock] },
+		};
+		const tx: AccountProposeTx = {
+			...unsigned,
+			sig: sign({ message: encodeTxPayload(getAddrKey(PAYER), unsigned), privateKey: hexToBuf(DEMO_PRIVS[0]) }),
+		};
+
+		const runUntilIdle = (incoming: Input[], now: number): void =>
+			incoming.length === 0 ? undefined : runUntilIdle(rt.tick({ now, incoming }).outbox, now + 100);
+		runUntilIdle([{ from: ALICE, to: ALICE, cmd: { type: 'ADD_TX', addrKey: getAddrKey(PAYER), tx } }], 100);
+
+		const report = reportPayment(latestEntityStates(rt.debugReplicas()), [PAYER, HUB, SHOP], hashlock);
+		expect(report.hops.map(hop => hop.status)).toEqual(['failed', 'failed']);
+		expect(agreedAccount(rt, HUB, SHOP).locks).toEqual({});
+		expect(getAccountBalance(agreedAccount(rt, HUB, SHOP), 'left', 'USD')).toBe(100n);
+		const payerHub = agreedAccount(rt, PAYER, HUB);
+		expect(payerHub.locks).toEqual({});
+		expect(getAccountBalance(payerHub, 'right', 'USD')).toBe(100n);
+	});
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'bun:test';
+import { bufToHex, encodeViewChangePayload, hexToBuf } from '../codec/rlp';
+import { EMPTY_HASH } from '../constants';
+import { execFrame, hashFrame } from '../core/entity';
+import { entityRoot } from '../core/merkle';
+import { createSigner } from '../core/signer';
+import { randomPriv, verify } from '../crypto/bls';
+import type { ChatTx, EntityState, Frame, Result } from '../types';
+import { getAddrKey } from '../types';
+
+const signer = createSigner(randomPriv());
+
+const state: EntityState = {
+	address: { jurisdiction: 'test', entityId: 'signer' },
+	quorum: {
+		threshold: 1n,
+		members: {
+			[signer.address]: {
+				nonce: 0n,
+				shares: 1n,
+				publicKey: bufToHex(Buffer.from(signer.publicKey)),
+				pop: signer.provePossession(),
+			},
+		},
+	},
+	chat: [],
+	proposals: {},
+	balances: {},
+	accounts: {},
+	payments: {},
+};
+const genesis: Frame<EntityState> = { height: 0n, ts: 0, txs: [], receipts: [], state };
+/** A proposal from the first view to a signer that never asked for another. */
+const views = { view: 0, votedView: 0 };
+
+const propose = (timestamp = 10): Frame<EntityState> => {
+	const tx = signer.signTx<ChatTx>(getAddrKey(state.address), {
+		kind: 'chat',
+		nonce: 0n,
+		from: signer.address,
+		body: { message: 'hi' },
+	});
+	const proposal = execFrame({ prev: genesis, transactions: [tx], timestamp });
+	return (proposal as Extract<Result<Frame<EntityState>>, { ok: true }>).value;
+};
+
+describe('Signer', () => {
+	it('signs a proposal that replays to the hash it is asked for', () => {
+		const proposal = propose();
+		const frameHash = hashFrame(proposal);
+		const sig = signer.signFrame({ last: genesis, proposal, frameHash, ...views });
+
+		expect(sig.ok).toBe(true);
+		if (sig.ok) {
+			expect(verify({ message: hexToBuf(frameHash), signature: sig.value, publicKey: signer.publicKey })).toBe(true);
+		}
+	});
+
+	it('refuses a proposal its own replay does not reproduce', () => {
+		const proposal = propose();
+		const richer = { ...proposal.state, balances: { [signer.address]: { USD: 1_000n } } };
+		const forged = { ...proposal, state: richer, root: entityRoot(richer) };
+		// a signer that has signed nothing at this height, so only its replay stands in the way
+		const unlocked = createSigner(randomPriv());
+
+		// a state the txs do not lead to, even under a root that matches it
+		expect(unlocked.signFrame({ last: genesis, proposal: forged, frameHash: hashFrame(forged), ...views })).toEqual({
+			ok: false,
+			error: 'Frame hash mismatch',
+		});
+		// a replica on another height replays to another frame
+		expect(unlocked.signFrame({ last: proposal, proposal, frameHash: hashFrame(proposal), ...views })).toMatchObject({
+			ok: false,
+		});
+		expect(
+			unlocked.signFrame({
+				last: genesis,
+				proposal: { ...proposal, root: EMPTY_HASH },
+				frameHash: hashFrame(proposal),
+				...views,
+			}),
+		).toEqual({ ok: false, error: 'State root mismatch' });
+	});
+
+	it('refuses a proposal from a view it has asked to leave', () => {
+		const proposal = propose();
+		const frameHash = hashFrame(proposal);
+		expect(signer.signFrame({ last: genesis, proposal, frameHash, view: 0, votedView: 1 })).toEqual({
+			ok: false,
+			error: 'Proposal from an abandoned view',
+		});
+		expect(signer.signFrame({ last: genesis, proposal, frameHash, view: 1, votedView: 1 }).ok).toBe(true);
+	});
+
+	it('signs one frame per height in any view, and names it when asking for a new view', () => {
+		const locker = createSigner(randomPriv());
+		const addrKey = getAddrKey(state.address);
+		const proposal = propose();
+		const frameHash = hashFrame(proposal);
+		expect(locker.signViewChange(addrKey, 1n, 1).locked).toBeUndefined();
+		expect(locker.signFrame({ last: genesis, proposal, frameHash, view: 0, votedView: 0 }).ok).toBe(true);
+
+		// another proposer's frame at the same height, even in a later view
+		const rival = propose(20);
+		expect(
+			locker.signFrame({ last: genesis, proposal: rival, frameHash: hashFrame(rival), view: 1, votedView: 1 }),
+		).toEqual({ ok: false, error: 'Already signed another frame at this height' });
+		expect(locker.signFrame({ last: genesis, proposal, frameHash, view: 1, votedView: 1 }).ok).toBe(true);
+
+		const { locked, sig } = locker.signViewChange(addrKey, 1n, 2);
+		expect(locked).toEqual({ view: 1, frame: proposal });
+		const message = encodeViewChangePayload(addrKey, 1n, 2, frameHash);
+		expect(verify({ message, signature: sig, publicKey: locker.publicKey })).toBe(true);
+		expect(locker.signViewChange(addrKey, 2n, 1).locked).toBeUndefined();
+	});
+});
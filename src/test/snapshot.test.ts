@@ -1,21 +1,24 @@
+import { encodeTxPayload } from '../codec/rlp';
 import { DEMO_ENTITY_ID, DEMO_JURISDICTION, QUORUM_THRESHOLD } from '../constants';
-import { createRuntime } from '../core/runtime';
+import { selectProposer } from '../core/entity';
+import { mempoolSize } from '../core/mempool';
+import { DEMO_KEYS, DEMO_PRIVS, createRuntime } from '../core/runtime';
 import { sign } from '../crypto/bls';
-import type { Address, EntityState, Frame, Input, Quorum, Replica, SignerRecord, Transaction } from '../types';
+import type { Address, ChatTx, EntityState, Frame, Input, Quorum, Replica, SignerRecord, Transaction } from '../types';
 
 describe('XLN Consensus Snapshot Test', () => {
 	test('single tick happy path produces expected state', () => {
 		// Initialize runtime
 		const runtime = createRuntime();
 		const fromAddr = runtime.ADDRS[0];
-		const privKey = runtime.PRIVS[0];
+		const privKey = DEMO_PRIVS[0];
 
 		// Helper to create the genesis replica for IMPORT
 		const createGenesisReplica = (): Replica => {
 			const members = runtime.ADDRS.reduce<Record<Address, SignerRecord>>(
 				(acc, addr) => ({
 					...acc,
-					[addr as Address]: { nonce: 0n, shares: 100n },
+					[addr as Address]: { nonce: 0n, shares: 100n, ...DEMO_KEYS[addr as Address] },
 				}),
 				{},
 			);
@@ -25,11 +28,20 @@ describe('XLN Consensus Snapshot Test', () => {
 				members,
 			};
 
-			const initState: EntityState = { quorum, chat: [] };
+			const initState: EntityState = {
+				address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
+				quorum,
+				chat: [],
+				proposals: {},
+				balances: {},
+				accounts: {},
+				payments: {},
+			};
 			const initFrame: Frame<EntityState> = {
 				height: 0n,
 				ts: 0,
 				txs: [],
+				receipts: [],
 				state: initState,
 			};
 
@@ -37,7 +49,9 @@ describe('XLN Consensus Snapshot Test', () => {
 				address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
 				proposer: runtime.ADDRS[0] as Address,
 				isAwaitingSignatures: false,
-				mempool: [],
+				view: 0,
+				viewVotes: {},
+				mempool: { queues: {}, inbound: [] },
 				last: initFrame,
 			};
 		};
@@ -55,41 +69,41 @@ describe('XLN Consensus Snapshot Test', () => {
 		// Process IMPORT command
 		runtime.tick({ now: Date.now(), incoming: [importInput] });
 
+		// Submit to the replica of the member designated to propose height 1
+		const proposer = selectProposer(createGenesisReplica().last.state.quorum, 1n, 0);
+		const ofType = (outbox: Input[], type: Input['cmd']['type']) => outbox.filter(msg => msg.cmd.type === type);
+
 		// Create and sign a chat transaction
-		const baseChatTx: Omit<Transaction, 'sig'> = {
+		const baseChatTx: Omit<ChatTx, 'sig'> = {
 			kind: 'chat',
 			nonce: 0n, // Starting nonce after import
 			from: fromAddr as `0x${string}`,
 			body: { message: 'Test message' },
 		};
 
-		const msgToSign = Buffer.from(
-			JSON.stringify({
-				kind: baseChatTx.kind,
-				nonce: baseChatTx.nonce.toString(),
-				from: baseChatTx.from,
-				body: baseChatTx.body,
-			}),
-		);
-		const signature = sign({ message: msgToSign, privateKey: Buffer.from(privKey.slice(2), 'hex') });
+		const signature = sign({
+			message: encodeTxPayload(`${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`, baseChatTx),
+			privateKey: Buffer.from(privKey.slice(2), 'hex'),
+		});
 		const chatTx: Transaction = { ...baseChatTx, sig: signature };
 
 		// Create ADD_TX input
 		const addTxInput: Input = {
 			from: fromAddr as `0x${string}`,
-			to: fromAddr as `0x${string}`,
+			to: proposer,
 			cmd: { type: 'ADD_TX', addrKey: `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`, tx: chatTx },
 		};
 
-		// Tick 1: Add transaction
+		// Tick 1: Add transaction, relayed to the other members' replicas
 		const tick1Result = runtime.tick({ now: Date.now(), incoming: [addTxInput] });
-		expect(tick1Result.outbox.length).toBe(1);
-		expect(tick1Result.outbox[0].cmd.type).toBe('PROPOSE');
+		expect(ofType(tick1Result.outbox, 'PROPOSE')).toHaveLength(1);
+		expect(ofType(tick1Result.outbox, 'RELAY')).toHaveLength(4);
 
-		// Tick 2: Process PROPOSE
+		// Tick 2: Process PROPOSE; the relayed copies go no further
 		const tick2Result = runtime.tick({ now: Date.now() + 100, incoming: tick1Result.outbox });
-		expect(tick2Result.outbox.length).toBe(5); // One SIGN request per signer
-		expect(tick2Result.outbox.every(msg => msg.cmd.type === 'SIGN')).toBe(true);
+		expect(ofType(tick2Result.outbox, 'SIGN')).toHaveLength(5); // One SIGN request per signer
+		expect(ofType(tick2Result.outbox, 'RELAY')).toHaveLength(0);
+		expect(ofType(tick2Result.outbox, 'PROPOSE')).toHaveLength(0);
 
 		// Tick 3: Process SIGN commands
 		const tick3Result = runtime.tick({ now: Date.now() + 200, incoming: tick2Result.outbox });
@@ -118,7 +132,7 @@ describe('XLN Consensus Snapshot Test', () => {
 			chatMessages: firstReplica.last.state.chat.length,
 			firstMessage: firstChat?.msg,
 			isAwaitingSignatures: firstReplica.isAwaitingSignatures,
-			mempoolLength: firstReplica.mempool.length,
+			mempoolLength: mempoolSize(firstReplica.mempool),
 		}).toMatchInlineSnapshot(`
 {
   "chatMessages": 1,
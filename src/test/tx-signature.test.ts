@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'bun:test';
+import { encodeTxPayload, hexToBuf } from '../codec/rlp';
+import { DEMO_ENTITY_ID, DEMO_JURISDICTION, DUMMY_SIGNATURE, EMPTY_HASH } from '../constants';
+import { applyCommand, applyTx, execFrame, hashTx, verifyTxSignature } from '../core/entity';
+import { mempoolSize } from '../core/mempool';
+import { DEMO_KEYS, DEMO_PRIVS, createRuntime } from '../core/runtime';
+import { sign } from '../crypto/bls';
+import type { AccountAckTx, Address, ChatTx, EntityState, Frame, Hex, Replica, Transaction } from '../types';
+
+const { ADDRS } = createRuntime();
+const [ALICE, BOB, CAROL] = ADDRS as Address[];
+const ADDR_KEY = `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`;
+
+const createEntityState = (): EntityState => ({
+	address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
+	quorum: {
+		threshold: 2n,
+		members: {
+			[ALICE]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[ALICE] },
+			[BOB]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[BOB] },
+		},
+	},
+	chat: [],
+	proposals: {},
+	balances: {},
+	accounts: {},
+	payments: {},
+});
+
+const createFrame = (state: EntityState): Frame<EntityState> => ({ height: 0n, ts: 0, txs: [], receipts: [], state });
+
+const signChat = (from: Address, privateKey: Hex, message: string): ChatTx => {
+	const base: Omit<ChatTx, 'sig'> = { kind: 'chat', nonce: 0n, from, body: { message } };
+	return { ...base, sig: sign({ message: encodeTxPayload(ADDR_KEY, base), privateKey: hexToBuf(privateKey) }) };
+};
+
+describe('Transaction signatures', () => {
+	it('produces a reproducible signing payload', () => {
+		const base: Omit<ChatTx, 'sig'> = { kind: 'chat', nonce: 3n, from: ALICE, body: { message: 'hi' } };
+		expect(
+			encodeTxPayload(ADDR_KEY, base).equals(encodeTxPayload(ADDR_KEY, { ...base, body: { message: 'hi' } })),
+		).toBe(true);
+		expect(
+			encodeTxPayload(ADDR_KEY, { ...base, sig: DUMMY_SIGNATURE } as Transaction).equals(
+				encodeTxPayload(ADDR_KEY, base),
+			),
+		).toBe(true);
+		expect(encodeTxPayload('demo:other', base).equals(encodeTxPayload(ADDR_KEY, base))).toBe(false);
+	});
+
+	it('rejects a transaction signed for another entity the sender is also a member of', () => {
+		const tx = signChat(ALICE, DEMO_PRIVS[0], 'hello');
+		const other = { ...createEntityState(), address: { jurisdiction: DEMO_JURISDICTION, entityId: 'other' } };
+		expect(applyTx({ state: createEntityState(), transaction: tx, timestamp: 1, height: 1n }).ok).toBe(true);
+		expect(applyTx({ state: other, transaction: tx, timestamp: 1, height: 1n })).toEqual({
+			ok: false,
+			error: 'Invalid signature',
+		});
+	});
+
+	it('accepts a transaction signed by the sender', () => {
+		const tx = signChat(ALICE, DEMO_PRIVS[0], 'hello');
+		expect(verifyTxSignature(createEntityState(), tx).ok).toBe(true);
+
+		const result = applyTx({ state: createEntityState(), transaction: tx, timestamp: 1, height: 1n });
+		expect(result.ok).toBe(true);
+		if (result.ok) expect(result.value.chat).toEqual([{ from: ALICE, msg: 'hello', ts: 1 }]);
+	});
+
+	it('rejects a transaction whose body was tampered with', () => {
+		const tx = signChat(ALICE, DEMO_PRIVS[0], 'hello');
+		const result = applyTx({
+			state: createEntityState(),
+			transaction: { ...tx, body: { message: 'goodbye' } },
+			timestamp: 1,
+			height: 1n,
+		});
+		expect(result).toEqual({ ok: false, error: 'Invalid signature' });
+	});
+
+	it('rejects a transaction forged with another member as sender', () => {
+		const forged = signChat(ALICE, DEMO_PRIVS[1], 'I am Alice');
+		const result = applyTx({ state: createEntityState(), transaction: forged, timestamp: 1, height: 1n });
+		expect(result).toEqual({ ok: false, error: 'Invalid signature' });
+	});
+
+	it('rejects a malformed signature', () => {
+		const tx = { ...signChat(ALICE, DEMO_PRIVS[0], 'hello'), sig: DUMMY_SIGNATURE };
+		expect(verifyTxSignature(createEntityState(), tx)).toEqual({ ok: false, error: 'Invalid signature' });
+	});
+
+	it('checks a sender only against the key its committed quorum records', () => {
+		const state = createEntityState();
+		const rekeyed = {
+			...state,
+			quorum: {
+				...state.quorum,
+				members: {
+					...state.quorum.members,
+					[ALICE]: { ...state.quorum.members[ALICE], publicKey: DEMO_KEYS[BOB].publicKey },
+				},
+			},
+		};
+		expect(verifyTxSignature(rekeyed, signChat(ALICE, DEMO_PRIVS[0], 'hello'))).toEqual({
+			ok: false,
+			error: 'Invalid signature',
+		});
+		expect(verifyTxSignature(state, signChat(CAROL, DEMO_PRIVS[2], 'hello'))).toEqual({
+			ok: false,
+			error: 'Unknown signer key',
+		});
+	});
+
+	it('accepts an account message only from a board whose keys derive their addresses', () => {
+		const ack = (publicKey: Hex): AccountAckTx => {
+			const board = { threshold: 1n, members: { [CAROL]: { shares: 1n, ...DEMO_KEYS[CAROL], publicKey } } };
+			const tx: AccountAckTx = {
+				kind: 'accountAck',
+				nonce: 1n,
+				from: CAROL,
+				body: { account: 'a|b', height: 1n, stateHash: EMPTY_HASH, board },
+				signers: [CAROL],
+				sig: DUMMY_SIGNATURE,
+			};
+			const message = hexToBuf(hashTx(ADDR_KEY, tx));
+			return { ...tx, sig: sign({ message, privateKey: hexToBuf(DEMO_PRIVS[2]) }) };
+		};
+		// the counterparty's members are in no quorum of ours
+		expect(verifyTxSignature(createEntityState(), ack(DEMO_KEYS[CAROL].publicKey)).ok).toBe(true);
+		expect(verifyTxSignature(createEntityState(), ack(DEMO_KEYS[ALICE].publicKey))).toEqual({
+			ok: false,
+			error: `Address ${CAROL} does not match its public key`,
+		});
+	});
+
+	it('rejects a forged transaction in the frame while the rest still apply', () => {
+		const forged = signChat(BOB, DEMO_PRIVS[0], 'I am Bob');
+		const genuine = signChat(ALICE, DEMO_PRIVS[0], 'I am Alice');
+		const result = execFrame({
+			prev: createFrame(createEntityState()),
+			transactions: [forged, genuine],
+			timestamp: 1,
+		});
+		expect(result.ok).toBe(true);
+		if (!result.ok) return;
+		expect(new Set(result.value.txs)).toEqual(new Set([forged, genuine]));
+		expect(result.value.state.chat.map(message => message.msg)).toEqual(['I am Alice']);
+		expect(result.value.receipts.find(receipt => receipt.from === BOB)).toMatchObject({
+			status: 'rejected',
+			reason: 'Invalid signature',
+		});
+	});
+
+	it('keeps forged transactions out of the mempool', () => {
+		const replica: Replica = {
+			address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
+			proposer: ALICE,
+			isAwaitingSignatures: false,
+			view: 0,
+			viewVotes: {},
+			mempool: { queues: {}, inbound: [] },
+			last: createFrame(createEntityState()),
+		};
+		const addrKey = `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`;
+
+		const forged = applyCommand({
+			replica,
+			command: { type: 'ADD_TX', addrKey, tx: signChat(BOB, DEMO_PRIVS[0], 'forged') },
+		});
+		expect(mempoolSize(forged.replica.mempool)).toBe(0);
+		expect(forged.admission).toMatchObject({ status: 'rejected', reason: 'Invalid signature' });
+
+		const genuine = applyCommand({
+			replica,
+			command: { type: 'ADD_TX', addrKey, tx: signChat(BOB, DEMO_PRIVS[1], 'genuine') },
+		});
+		expect(mempoolSize(genuine.replica.mempool)).toBe(1);
+		expect(genuine.admission?.status).toBe('ready');
+	});
+});
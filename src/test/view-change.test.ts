@@ -0,0 +1,218 @@
+import { describe, expect, it } from 'bun:test';
+import { encodeTxPayload, encodeViewChangePayload, hexToBuf } from '../codec/rlp';
+import { DEMO_ENTITY_ID, DEMO_JURISDICTION, DUMMY_SIGNATURE } from '../constants';
+import { applyCommand, hashFrame, selectProposer } from '../core/entity';
+import { mempoolSize } from '../core/mempool';
+import { DEMO_KEYS, DEMO_PRIVS, type Runtime, createRuntime } from '../core/runtime';
+import { sign } from '../crypto/bls';
+import type { Address, ChatTx, EntityState, Frame, Hex, Input, Replica } from '../types';
+
+const runtime = createRuntime();
+const ADDRS = runtime.ADDRS as Address[];
+const [ALICE, BOB, CAROL] = ADDRS;
+const ADDR_KEY = `${DEMO_JURISDICTION}:${DEMO_ENTITY_ID}`;
+
+const createEntityState = (): EntityState => ({
+	address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
+	quorum: {
+		threshold: 2n,
+		members: {
+			[ALICE]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[ALICE] },
+			[BOB]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[BOB] },
+			[CAROL]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[CAROL] },
+		},
+	},
+	chat: [],
+	proposals: {},
+	balances: {},
+	accounts: {},
+	payments: {},
+});
+
+const createFrame = (state: EntityState, height = 0n): Frame<EntityState> => ({
+	height,
+	ts: 0,
+	txs: [],
+	receipts: [],
+	state,
+});
+
+const createReplica = (proposer: Address): Replica => ({
+	address: { jurisdiction: DEMO_JURISDICTION, entityId: DEMO_ENTITY_ID },
+	proposer,
+	isAwaitingSignatures: false,
+	view: 0,
+	viewVotes: {},
+	mempool: { queues: {}, inbound: [] },
+	last: createFrame(createEntityState()),
+});
+
+const chatTx = (from: Address, message: string): ChatTx => {
+	const base = { kind: 'chat' as const, nonce: 0n, from, body: { message } };
+	return {
+		...base,
+		sig: sign({ message: encodeTxPayload(ADDR_KEY, base), privateKey: hexToBuf(DEMO_PRIVS[ADDRS.indexOf(from)]) }),
+	};
+};
+
+const viewChange = (signer: Address, view: number, height = 1n) =>
+	({
+		type: 'VIEW_CHANGE',
+		addrKey: ADDR_KEY,
+		signer,
+		height,
+		view,
+		sig: sign({
+			message: encodeViewChangePayload(ADDR_KEY, height, view),
+			privateKey: hexToBuf(DEMO_PRIVS[ADDRS.indexOf(signer)]),
+		}),
+	}) as const;
+
+describe('Proposer rotation', () => {
+	it('rotates the proposer across heights and views in address order', () => {
+		const { quorum } = createEntityState();
+		// eslint-disable-next-line fp/no-mutating-methods
+		const sorted = [ALICE, BOB, CAROL].sort();
+
+		expect([0n, 1n, 2n, 3n].map(height => selectProposer(quorum, height, 0))).toEqual([...sorted, sorted[0]]);
+		expect([0, 1, 2].map(view => selectProposer(quorum, 1n, view))).toEqual([sorted[1], sorted[2], sorted[0]]);
+	});
+});
+
+describe('View change', () => {
+	const stale = chatTx(ALICE, 'stuck');
+	const awaiting: Replica = {
+		...createReplica(BOB),
+		isAwaitingSignatures: true,
+		proposal: {
+			...createFrame(createEntityState(), 1n),
+			txs: [stale],
+			hash: `0x${'ab'.repeat(32)}`,
+			sigs: new Map<Address, Hex>(),
+			view: 0,
+		},
+	};
+
+	it('moves to the next view once threshold shares ask for it, dropping the stale proposal', () => {
+		const first = applyCommand({ replica: awaiting, command: viewChange(ALICE, 1) });
+		expect(first.replica.view).toBe(0);
+		expect(first.replica.viewVotes).toEqual({ [ALICE]: 1 });
+		expect(first.replica.isAwaitingSignatures).toBe(true);
+
+		const { replica } = applyCommand({ replica: first.replica, command: viewChange(CAROL, 1) });
+		expect(replica.view).toBe(1);
+		expect(replica.isAwaitingSignatures).toBe(false);
+		expect(replica.proposal).toBeUndefined();
+		expect(replica.mempool).toEqual({ queues: { [ALICE]: [stale] }, inbound: [] });
+	});
+
+	it('ignores forged, stale and repeated requests', () => {
+		const forged = { ...viewChange(ALICE, 1), sig: DUMMY_SIGNATURE };
+		expect(applyCommand({ replica: awaiting, command: forged }).replica.viewVotes).toEqual({});
+		expect(applyCommand({ replica: awaiting, command: viewChange(ALICE, 1, 2n) }).replica.viewVotes).toEqual({});
+		expect(
+			applyCommand({ replica: { ...awaiting, view: 1 }, command: viewChange(ALICE, 1) }).replica.viewVotes,
+		).toEqual({});
+
+		const voted = applyCommand({ replica: awaiting, command: viewChange(ALICE, 2) }).replica;
+		expect(applyCommand({ replica: voted, command: viewChange(ALICE, 1) }).replica).toBe(voted);
+	});
+
+	it('counts a signature only for the view its proposal was made in', () => {
+		const signIn = (view: number) =>
+			applyCommand({
+				replica: awaiting,
+				command: {
+					type: 'SIGN',
+					addrKey: ADDR_KEY,
+					signer: ALICE,
+					view,
+					frameHash: `0x${'ab'.repeat(32)}`,
+					sig: DUMMY_SIGNATURE,
+				},
+			}).replica.proposal?.sigs.size;
+		expect(signIn(1)).toBe(0);
+		expect(signIn(0)).toBe(1);
+	});
+});
+
+describe('Replacing a silent proposer through the server', () => {
+	/** Tick until `until`, dropping every message from or to `silent`. */
+	const drive = (rt: Runtime, incoming: Input[], now: number, until: number, silent?: Address): void => {
+		if (now > until) return;
+		const delivered = incoming.filter(input => input.from !== silent && input.to !== silent);
+		drive(rt, rt.tick({ now, incoming: delivered }).outbox, now + 100, until, silent);
+	};
+
+	it('commits through the next proposer after the designated one stops answering', () => {
+		const rt = createRuntime();
+		rt.tick({ now: 0, incoming: [{ from: ALICE, to: ALICE, cmd: { type: 'IMPORT', replica: createReplica(ALICE) } }] });
+
+		const designated = selectProposer(createEntityState().quorum, 1n, 0);
+		const tx = chatTx(designated, 'still alive');
+		const submit: Input = { from: designated, to: designated, cmd: { type: 'ADD_TX', addrKey: ADDR_KEY, tx } };
+
+		// the designated proposer takes the tx, relays it and proposes, then goes silent
+		const { outbox } = rt.tick({ now: 100, incoming: [submit] });
+		expect(outbox.some(input => input.cmd.type === 'PROPOSE' && input.from === designated)).toBe(true);
+		const proposed = rt.tick({ now: 200, incoming: outbox }).outbox;
+		drive(rt, proposed, 300, 3_000, designated);
+
+		const replicas = rt.debugReplicas();
+		const stuck = replicas.get(`${ADDR_KEY}:${designated}`);
+		expect(stuck?.isAwaitingSignatures).toBe(true);
+		expect(stuck?.last.height).toBe(0n);
+
+		const live = [...replicas.values()].filter(replica => replica.proposer !== designated);
+		expect(live).toHaveLength(2);
+		expect(live.every(replica => replica.last.height === 1n)).toBe(true);
+		expect(live.every(replica => replica.last.state.chat[0]?.msg === 'still alive')).toBe(true);
+		expect(live.every(replica => replica.view === 0 && mempoolSize(replica.mempool) === 0)).toBe(true);
+	});
+
+	it('re-proposes a frame signed before the view change, so a late quorum in the old view agrees', () => {
+		const rt = createRuntime();
+		rt.tick({ now: 0, incoming: [{ from: ALICE, to: ALICE, cmd: { type: 'IMPORT', replica: createReplica(ALICE) } }] });
+
+		const designated = selectProposer(createEntityState().quorum, 1n, 0);
+		const tx = chatTx(designated, 'split');
+		const submit: Input = { from: designated, to: designated, cmd: { type: 'ADD_TX', addrKey: ADDR_KEY, tx } };
+
+		// every member signs the view-0 proposal, but the signatures reach its proposer only after the view change
+		const { outbox } = rt.tick({ now: 100, incoming: [submit] });
+		const signed = rt.tick({ now: 200, incoming: outbox }).outbox;
+		const late = signed.filter(input => input.cmd.type === 'SIGN' && input.to === designated);
+		expect(late).toHaveLength(3);
+		drive(rt, signed, 300, 3_000, designated);
+
+		const [frameHash] = late.flatMap(input => (input.cmd.type === 'SIGN' ? [input.cmd.frameHash] : []));
+		const live = [...rt.debugReplicas().values()].filter(replica => replica.proposer !== designated);
+		expect(live.every(replica => replica.last.height === 1n && hashFrame(replica.last) === frameHash)).toBe(true);
+		expect(live.every(replica => replica.view === 0 && replica.locked === undefined)).toBe(true);
+
+		// the old proposer's quorum completes at last, on the same frame the others committed in view 1
+		const commits = rt.tick({ now: 3_100, incoming: late }).outbox;
+		expect(commits.some(input => input.cmd.type === 'COMMIT')).toBe(true);
+		rt.tick({ now: 3_200, incoming: commits });
+		const stale = rt.debugReplicas().get(`${ADDR_KEY}:${designated}`);
+		expect(stale?.last.height).toBe(1n);
+		expect(stale ? hashFrame(stale.last) : undefined).toBe(frameHash);
+	});
+
+	it("keeps a member that asked to leave a view from signing that view's proposal", () => {
+		const rt = createRuntime();
+		rt.tick({ now: 0, incoming: [{ from: ALICE, to: ALICE, cmd: { type: 'IMPORT', replica: createReplica(ALICE) } }] });
+
+		const designated = selectProposer(createEntityState().quorum, 1n, 0);
+		const [voter] = [ALICE, BOB, CAROL].filter(member => member !== designated);
+		const tx = chatTx(designated, 'late');
+		const submit: Input = { from: designated, to: designated, cmd: { type: 'ADD_TX', addrKey: ADDR_KEY, tx } };
+		const votes = [ALICE, BOB, CAROL].map(to => ({ from: voter, to, cmd: viewChange(voter, 1) }));
+
+		// one vote is short of the threshold, so every replica stays in view 0 and the proposal goes out
+		const { outbox } = rt.tick({ now: 100, incoming: [...votes, submit] });
+		const requests = rt.tick({ now: 200, incoming: outbox }).outbox.filter(input => input.cmd.type === 'SIGN');
+		expect(requests).toHaveLength(2);
+		expect(requests.some(input => input.from === voter)).toBe(false);
+	});
+});
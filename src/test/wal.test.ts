@@ -0,0 +1,205 @@
+import { afterAll, describe, expect, it } from 'bun:test';
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { canonical, encodeTxPayload, hexToBuf } from '../codec/rlp';
+import { EMPTY_HASH, INITIAL_HEIGHT } from '../constants';
+import { selectProposer } from '../core/entity';
+import { createMempool } from '../core/mempool';
+import { DEMO_KEYS, DEMO_PRIVS, type Runtime, createRuntime, recoverRuntime } from '../core/runtime';
+import { type SnapshotPolicy, decodeSnapshot, encodeSnapshot, listSnapshots, readSnapshot } from '../core/snapshot';
+import { type Wal, openWal, replayWal } from '../core/wal';
+import { sign } from '../crypto/bls';
+import type {
+	Address,
+	ChatTx,
+	EntityState,
+	Hex,
+	Input,
+	ProposedFrame,
+	Replica,
+	Result,
+	ServerFrame,
+	ServerState,
+} from '../types';
+
+const { ADDRS } = createRuntime();
+const [ALICE, BOB, CAROL] = ADDRS as Address[];
+const ADDR_KEY = 'test:wal';
+
+const state: EntityState = {
+	address: { jurisdiction: 'test', entityId: 'wal' },
+	quorum: {
+		threshold: 2n,
+		members: {
+			[ALICE]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[ALICE] },
+			[BOB]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[BOB] },
+			[CAROL]: { nonce: 0n, shares: 1n, ...DEMO_KEYS[CAROL] },
+		},
+	},
+	chat: [],
+	proposals: {},
+	balances: {},
+	accounts: {},
+	payments: {},
+};
+
+const replica: Replica = {
+	address: state.address,
+	proposer: ALICE,
+	isAwaitingSignatures: false,
+	view: 0,
+	viewVotes: {},
+	mempool: createMempool(),
+	last: { height: 0n, ts: 0, txs: [], receipts: [], state },
+};
+
+const chat = (message: string, nonce: bigint): Input => {
+	const base = { kind: 'chat' as const, nonce, from: ALICE, body: { message } };
+	const tx: ChatTx = {
+		...base,
+		sig: sign({ message: encodeTxPayload(ADDR_KEY, base), privateKey: hexToBuf(DEMO_PRIVS[0]) }),
+	};
+	return {
+		from: ALICE,
+		to: selectProposer(state.quorum, nonce + 1n, 0),
+		cmd: { type: 'ADD_TX', addrKey: ADDR_KEY, tx },
+	};
+};
+
+/** Tick until the outbox runs dry, returning the time of the next tick. */
+const drain = (rt: Runtime, incoming: Input[], now: number): number =>
+	incoming.length === 0 ? now : drain(rt, rt.tick({ now, incoming }).outbox, now + 100);
+
+const unwrap = <T>(result: Result<T>): T => {
+	expect(result).toMatchObject({ ok: true });
+	return (result as Extract<Result<T>, { ok: true }>).value;
+};
+
+const replicaStates = (rt: Runtime): string =>
+	canonical([...rt.debugReplicas().entries()].map(([key, r]) => [key, r.last, r.mempool, r.view]));
+
+/** Run an entity through two commits on a fresh log and close it, as a server that then crashes. */
+const runAndCrash = (path: string, snapshots?: SnapshotPolicy): { states: string; lastHash: Hex; now: number } => {
+	const wal = unwrap(openWal(path));
+	const rt = unwrap(recoverRuntime(wal, snapshots));
+	rt.tick({ now: 0, incoming: [{ from: ALICE, to: ALICE, cmd: { type: 'IMPORT', replica } }] });
+	const afterFirst = drain(rt, [chat('before the crash', 0n)], 100);
+	const now = drain(rt, [chat('still before the crash', 1n)], afterFirst);
+	wal.close();
+	return { states: replicaStates(rt), lastHash: wal.frames[wal.frames.length - 1].hash, now };
+};
+
+describe('Write-ahead log', () => {
+	const dir = mkdtempSync(join(tmpdir(), 'xln-wal-'));
+	afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+	it('recovers the exact server state and keeps extending the hash chain', () => {
+		const path = join(dir, 'recover');
+		const before = runAndCrash(path);
+
+		const wal: Wal = unwrap(openWal(path));
+		const rt = unwrap(recoverRuntime(wal));
+		expect(replicaStates(rt)).toBe(before.states);
+		expect(wal.frames[wal.frames.length - 1].hash).toBe(before.lastHash);
+
+		const { frame } = rt.tick({ now: before.now, incoming: [] });
+		expect(frame.parent).toBe(before.lastHash);
+		drain(rt, [chat('after the crash', 2n)], before.now + 100);
+		wal.close();
+
+		const chatLog = [...rt.debugReplicas().values()][0].last.state.chat.map(message => message.msg);
+		expect(chatLog).toEqual(['before the crash', 'still before the crash', 'after the crash']);
+	});
+
+	it('drops a record cut short by a crash while it was being written', () => {
+		const path = join(dir, 'torn');
+		const before = runAndCrash(path);
+		appendFileSync(join(path, '00000000000000000001.wal'), Buffer.from([0, 0, 1, 0, 0xde, 0xad]));
+
+		const wal = unwrap(openWal(path));
+		const rt = unwrap(recoverRuntime(wal));
+		expect(replicaStates(rt)).toBe(before.states);
+
+		// the torn bytes are gone, so what is appended next still reads back
+		rt.tick({ now: before.now, incoming: [] });
+		wal.close();
+		expect(unwrap(openWal(path)).frames.map(frame => frame.parent)).toContain(before.lastHash);
+	});
+
+	it('refuses a log whose frames no longer link or hash to what was logged', () => {
+		const path = join(dir, 'tampered');
+		runAndCrash(path);
+		const { frames } = unwrap(openWal(path));
+		const genesis = { replicas: new Map(), height: INITIAL_HEIGHT, lastHash: EMPTY_HASH };
+
+		expect(replayWal([frames[0], ...frames.slice(2)], genesis)).toEqual({
+			ok: false,
+			error: 'WAL height gap at 3',
+		});
+		expect(replayWal([frames[0], { ...frames[1], height: 2n, parent: EMPTY_HASH }], genesis)).toEqual({
+			ok: false,
+			error: 'WAL parent link broken at height 2',
+		});
+		const tamper = (changes: Partial<ServerFrame>) =>
+			frames.map((frame, i) => (i === 1 ? { ...frame, ...changes } : frame));
+		expect(replayWal(tamper({ root: EMPTY_HASH }), genesis)).toEqual({
+			ok: false,
+			error: 'WAL state root mismatch at height 2',
+		});
+		// the submission tick leaves entity state alone, so only the hash gives a changed time away
+		expect(replayWal(tamper({ ts: frames[1].ts + 1 }), genesis)).toEqual({
+			ok: false,
+			error: 'WAL hash mismatch at height 2',
+		});
+	});
+});
+
+describe('Snapshots', () => {
+	const dir = mkdtempSync(join(tmpdir(), 'xln-snapshot-'));
+	afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+	it('round-trips Maps and bigints exactly', () => {
+		const proposal: ProposedFrame<EntityState> = {
+			...replica.last,
+			height: 1n,
+			hash: `0x${'ab'.repeat(32)}`,
+			sigs: new Map<Address, Hex>([[BOB, `0x${'cd'.repeat(96)}`]]),
+			view: 0,
+		};
+		const state: ServerState = {
+			height: 2n ** 70n,
+			lastHash: `0x${'ef'.repeat(32)}`,
+			replicas: new Map([[`${ADDR_KEY}:${ALICE}`, { ...replica, isAwaitingSignatures: true, proposal }]]),
+		};
+
+		const decoded = decodeSnapshot(encodeSnapshot(state));
+		expect(decoded).toEqual({ ok: true, value: state });
+		expect(unwrap(decoded).replicas.get(`${ADDR_KEY}:${ALICE}`)?.proposal?.sigs).toBeInstanceOf(Map);
+		expect(encodeSnapshot(unwrap(decoded))).toEqual(encodeSnapshot(state));
+	});
+
+	it('restores the latest snapshot, replays the log after it and prunes what it covers', () => {
+		const walDir = join(dir, 'wal');
+		const policy: SnapshotPolicy = { dir: join(dir, 'snapshots'), interval: 3, keep: 2 };
+		const before = runAndCrash(walDir, policy);
+
+		const snapshots = listSnapshots(policy.dir);
+		expect(snapshots).toHaveLength(2);
+		const [newest, oldest] = snapshots;
+		expect(newest.height - oldest.height).toBe(3n);
+
+		const wal = unwrap(openWal(walDir));
+		// segments up to the oldest kept snapshot are gone, the rest still reach back to it
+		expect(wal.frames[0].height).toBe(oldest.height + 1n);
+		expect(replicaStates(unwrap(recoverRuntime(wal, policy)))).toBe(before.states);
+		wal.close();
+
+		// a damaged newest snapshot is skipped in favour of the older one and a longer replay
+		writeFileSync(newest.path, 'not a snapshot');
+		expect(readSnapshot(newest)).toEqual({ ok: false, error: `Snapshot hash mismatch at height ${newest.height}` });
+		const fallback = unwrap(openWal(walDir));
+		expect(replicaStates(unwrap(recoverRuntime(fallback, policy)))).toBe(before.states);
+		fallback.close();
+	});
+});
@@ -3,19 +3,133 @@ export type Address = Hex;
 export type UInt64 = bigint;
 export type Nonce = UInt64;
 export type TS = number;
+export type AssetId = string;
 
-export interface SignerRecord {
+/** BLS public key a member signs with, and the proof of possession it entered the quorum with. */
+export interface MemberKey {
+	/** The member's address is derived from it. */
+	publicKey: Hex;
+	pop: Hex;
+}
+/** Who signs for an entity and with what weight: its members' keys and shares and the threshold. */
+export interface Board {
+	threshold: bigint;
+	members: Record<Address, MemberKey & { shares: bigint }>;
+}
+export interface SignerRecord extends MemberKey {
 	nonce: Nonce;
 	shares: bigint;
 }
-export interface Quorum {
-	threshold: bigint;
+export interface Quorum extends Board {
 	members: Record<Address, SignerRecord>;
 }
 
+export type Vote = 'yes' | 'no';
+export type ProposalStatus = 'pending' | 'executed' | 'rejected' | 'expired';
+
+export interface Proposal {
+	id: Hex;
+	proposer: Address;
+	action: ProposalAction;
+	votes: Record<Address, Vote>;
+	status: ProposalStatus;
+	/** Last frame height at which votes are still accepted. */
+	expiresAt: UInt64;
+}
+
+/** Token ledger: balance of every holder per asset. */
+export type Balances = Record<Address, Record<AssetId, bigint>>;
+
+export type AccountSide = 'left' | 'right';
+/** Hash time-locked amount taken from `sender`'s balance until it is settled or refunded. */
+export interface HtlcLock {
+	sender: AccountSide;
+	asset: AssetId;
+	amount: bigint;
+	/** keccak256 of the preimage that releases the amount to the receiver. */
+	hashlock: Hex;
+	/** Account frame timestamp from which only a refund to the sender is possible. */
+	expiresAt: TS;
+	/**
+	 * Hops left after the receiver for a routed payment, which the receiver settles, forwards or
+	 * cancels by itself. Locks without a route are left to members to settle.
+	 */
+	route?: ReplicaAddr[];
+}
+
+/**
+ * An update one side makes to a bilateral account: `pay` moves value to the other side, `deposit` funds
+ * the other side from the proposing member's ledger balance, `creditLimit`
+ * sets how far below zero the other side's balance may go, and `lock`/`settle`/`refund` drive HTLCs.
+ * `cancel` lets the receiver release a lock back to its sender before the timeout.
+ */
+export type AccountOp =
+	| { kind: 'deposit' | 'pay'; asset: AssetId; amount: bigint }
+	| { kind: 'creditLimit'; asset: AssetId; limit: bigint }
+	| ({ kind: 'lock' } & Omit<HtlcLock, 'sender'>)
+	| { kind: 'settle'; hashlock: Hex; preimage: Hex }
+	| { kind: 'refund' | 'cancel'; hashlock: Hex };
+
+export interface CreditLine {
+	limit: bigint;
+	used: bigint;
+}
+
+/** Bilateral account between two entities. Both entities hold an identical copy. */
+export interface AccountState {
+	left: ReplicaAddr;
+	right: ReplicaAddr;
+	height: UInt64;
+	/** Time of the last frame, which no later frame may go back before. */
+	ts: TS;
+	balances: Record<AssetId, Record<AccountSide, bigint>>;
+	/** Credit each side extends to the other. */
+	creditLimits: Record<AssetId, Record<AccountSide, bigint>>;
+	/** Open HTLCs keyed by hashlock. */
+	locks: Record<Hex, HtlcLock>;
+}
+export interface AccountFrame {
+	height: UInt64;
+	/** Time the ops are evaluated at; a counterparty accepts no frame from its future or far past. */
+	ts: TS;
+	proposer: AccountSide;
+	ops: AccountOp[];
+	/** Account state after applying `ops`. */
+	state: AccountState;
+}
+export interface AccountMachine {
+	/** Last state both sides agreed on. */
+	state: AccountState;
+	/** Counterparty hanko over the message that brought the account to `state`. */
+	sigs: Partial<Record<AccountSide, Hex>>;
+	/** Our frame awaiting the counterparty's acknowledgement. */
+	pending?: AccountFrame;
+	/**
+	 * Counterparty board, bound from the first message it sent on this account. Its later messages
+	 * need a hanko of this board at its threshold, and only such a message may rebind it to another.
+	 */
+	peerBoard?: Board;
+	/** Member whose ledger balance funded the deposits in `pending`, credited back if they are dropped. */
+	funder?: Address;
+}
+
+export interface PaymentRecord {
+	/** Known from an invoice of ours or from the next hop settling our lock. */
+	preimage?: Hex;
+	/** Account key the payment was forwarded on. */
+	forwarded?: string;
+}
+
 export interface EntityState {
+	address: ReplicaAddr;
 	quorum: Quorum;
 	chat: { from: Address; msg: string; ts: TS }[];
+	proposals: Record<Hex, Proposal>;
+	balances: Balances;
+	/** Bilateral accounts keyed by `getAccountKey`. */
+	accounts: Record<string, AccountMachine>;
+	/** Routed payments we take part in, keyed by hashlock. */
+	payments: Record<Hex, PaymentRecord>;
 }
 
 export type Result<T, E = string> = { ok: true; value: T } | { ok: false; error: E };
@@ -23,7 +137,23 @@ export type Result<T, E = string> = { ok: true; value: T } | { ok: false; error:
 export const ok = <T>(value: T): Result<T, never> => ({ ok: true, value });
 export const err = <E>(error: E): Result<never, E> => ({ ok: false, error });
 
-export type TxKind = 'chat';
+export type TxKind =
+	| 'chat'
+	| 'addMember'
+	| 'removeMember'
+	| 'setShares'
+	| 'setThreshold'
+	| 'propose'
+	| 'vote'
+	| 'transfer'
+	| 'mint'
+	| 'burn'
+	| 'accountPropose'
+	| 'accountFrame'
+	| 'accountAck'
+	| 'setCreditLimit'
+	| 'lowerCreditLimit'
+	| 'invoice';
 export interface BaseTx<K extends TxKind = TxKind> {
 	kind: K;
 	nonce: Nonce;
@@ -32,17 +162,113 @@ export interface BaseTx<K extends TxKind = TxKind> {
 	sig: Hex;
 }
 export type ChatTx = BaseTx<'chat'> & { body: { message: string } };
-export type Transaction = ChatTx;
+
+/* Quorum governance: committed only with the signatures of the previous frame's quorum. */
+export type AddMemberTx = BaseTx<'addMember'> & { body: MemberKey & { address: Address; shares: bigint } };
+export type RemoveMemberTx = BaseTx<'removeMember'> & { body: { address: Address } };
+export type SetSharesTx = BaseTx<'setShares'> & { body: { address: Address; shares: bigint } };
+export type SetThresholdTx = BaseTx<'setThreshold'> & { body: { threshold: bigint } };
+export type GovernanceTx = AddMemberTx | RemoveMemberTx | SetSharesTx | SetThresholdTx;
+
+export type TransferTx = BaseTx<'transfer'> & { body: { to: Address; asset: AssetId; amount: bigint } };
+
+/* Supply changes: applied directly only when the sender alone holds `threshold` shares, else via proposal. */
+export type MintTx = BaseTx<'mint'> & { body: { address: Address; asset: AssetId; amount: bigint } };
+export type BurnTx = BaseTx<'burn'> & { body: { address: Address; asset: AssetId; amount: bigint } };
+export type SupplyTx = MintTx | BurnTx;
+
+type ActionOf<T extends Transaction> = {
+	[K in T['kind']]: { kind: K; body: Extract<T, { kind: K }>['body'] };
+}[T['kind']];
+export type GovernanceAction = ActionOf<GovernanceTx>;
+export type SupplyAction = ActionOf<SupplyTx>;
+/** An action a proposal executes once members holding `threshold` shares vote yes. */
+export type ProposalAction = { kind: 'collectiveMessage'; body: { message: string } } | GovernanceAction | SupplyAction;
+
+export type ProposeTx = BaseTx<'propose'> & { body: { action: ProposalAction; expiresAt: UInt64 } };
+export type VoteTx = BaseTx<'vote'> & { body: { proposalId: Hex; vote: Vote } };
+
+/* Bilateral accounts: a member proposes ops on our side; frames and acknowledgements from the
+   counterparty carry a hanko of its board in `sig`, sealed by `signers`, and are ordered by account
+   height instead of a member nonce. Each message carries the sending entity's board, which the
+   receiver binds the account to. */
+export type AccountProposeTx = BaseTx<'accountPropose'> & { body: { counterparty: ReplicaAddr; ops: AccountOp[] } };
+export type AccountFrameTx = BaseTx<'accountFrame'> & {
+	body: { frame: AccountFrame; board: Board };
+	signers: Address[];
+};
+export type AccountAckTx = BaseTx<'accountAck'> & {
+	body: { account: string; height: UInt64; stateHash: Hex; board: Board };
+	signers: Address[];
+};
+/* Credit lines: raising a limit never fails, lowering it must leave room for the credit already used. */
+export type SetCreditLimitTx = BaseTx<'setCreditLimit'> & {
+	body: { counterparty: ReplicaAddr; asset: AssetId; limit: bigint };
+};
+export type LowerCreditLimitTx = BaseTx<'lowerCreditLimit'> & {
+	body: { counterparty: ReplicaAddr; asset: AssetId; limit: bigint };
+};
+/* Routed payments: the payee registers the preimage so locks arriving under its hash are settled. */
+export type InvoiceTx = BaseTx<'invoice'> & { body: { preimage: Hex } };
+export type AccountTx =
+	| AccountProposeTx
+	| AccountFrameTx
+	| AccountAckTx
+	| SetCreditLimitTx
+	| LowerCreditLimitTx
+	| InvoiceTx;
+
+export type Transaction = ChatTx | GovernanceTx | ProposeTx | VoteTx | TransferTx | SupplyTx | AccountTx;
+
+/** Outcome of one mempool tx a frame considered. */
+export interface TxReceipt {
+	txHash: Hex;
+	from: Address;
+	nonce: Nonce;
+	status: 'applied' | 'rejected';
+	/** Why a rejected tx was left out of the frame. */
+	reason?: string;
+}
+
+/**
+ * How a replica's mempool took a submitted tx: `ready` to be proposed, `queued` behind a nonce gap,
+ * `replaced` a queued tx with the same sender and nonce, or not at all.
+ */
+export interface TxAdmission {
+	txHash: Hex;
+	from: Address;
+	nonce: Nonce;
+	/** Replica that answered, as `addrKey:signer`. */
+	replica: string;
+	status: 'ready' | 'queued' | 'replaced' | 'duplicate' | 'rejected';
+	/** Why a rejected tx was not admitted. */
+	reason?: string;
+}
 
 export interface Frame<T = unknown> {
 	height: UInt64;
 	ts: TS;
+	/** Every tx the frame executed, in execution order: those applied to `state` and those rejected. */
 	txs: Transaction[];
+	/** One receipt per tx in `txs`, in the same order, saying whether it applied or why it was rejected. */
+	receipts: TxReceipt[];
 	state: T;
+	/**
+	 * Merkle root of an entity `state` (see `entityRoot`), set on every frame an entity executes so a
+	 * single member, message or balance can be proven against it. Hand-built genesis frames may omit it.
+	 */
+	root?: Hex;
 }
 export interface ProposedFrame<T = unknown> extends Frame<T> {
 	sigs: Map<Address, Hex>;
 	hash: Hex;
+	/** View the proposer held the turn in, which signers check against the views they asked to leave. */
+	view: number;
+}
+/** A frame a member signed at its height, and the latest view it signed it in. */
+export interface LockedFrame {
+	view: number;
+	frame: Frame<EntityState>;
 }
 export type Hanko = Hex;
 
@@ -52,22 +278,55 @@ export interface ReplicaAddr {
 	signerId?: string;
 }
 export const getAddrKey = (a: ReplicaAddr) => `${a.jurisdiction}:${a.entityId}`;
+/** Key of the account between two entities: both address keys, lower one first. */
+export const getAccountKey = (a: ReplicaAddr, b: ReplicaAddr) =>
+	getAddrKey(a) < getAddrKey(b) ? `${getAddrKey(a)}|${getAddrKey(b)}` : `${getAddrKey(b)}|${getAddrKey(a)}`;
+
+/** Txs a replica holds until they are proposed. */
+export interface Mempool {
+	/** Member txs by sender, each queue ordered by nonce without duplicates. */
+	queues: Record<Address, Transaction[]>;
+	/** Counterparty account messages, which their account sequences instead of a member nonce. */
+	inbound: Transaction[];
+}
 
 export interface Replica {
 	address: ReplicaAddr;
 	proposer: Address;
 	isAwaitingSignatures: boolean;
-	mempool: Transaction[];
+	mempool: Mempool;
 	last: Frame<EntityState>;
 	proposal?: ProposedFrame<EntityState>;
+	/** View at height `last.height + 1`; every view change hands the proposer role to the next member. */
+	view: number;
+	/** Highest view each member asked to move to at this height. */
+	viewVotes: Record<Address, number>;
+	/** Frame from the latest view that a member asking to leave a view signed at this height; proposed again. */
+	locked?: LockedFrame;
+	/** Server time since which this replica has had work that no commit has cleared. */
+	pendingSince?: TS;
 }
 
 export type Command =
 	| { type: 'IMPORT'; replica: Replica }
 	| { type: 'ADD_TX'; addrKey: string; tx: Transaction }
+	/** A tx or account message another member's replica admitted, passed on without being relayed again. */
+	| { type: 'RELAY'; addrKey: string; tx: Transaction }
 	| { type: 'PROPOSE'; addrKey: string; ts: TS }
-	| { type: 'SIGN'; addrKey: string; signer: Address; frameHash: Hex; sig: Hex }
-	| { type: 'COMMIT'; addrKey: string; hanko: Hanko; frame: Frame<EntityState>; signers: Address[] };
+	| { type: 'SIGN'; addrKey: string; signer: Address; view: number; frameHash: Hex; sig: Hex }
+	| { type: 'COMMIT'; addrKey: string; hanko: Hanko; frame: Frame<EntityState>; signers: Address[] }
+	| { type: 'ACCOUNT_PROPOSE'; addrKey: string; tx: AccountFrameTx }
+	| { type: 'ACCOUNT_ACK'; addrKey: string; tx: AccountAckTx }
+	| {
+			type: 'VIEW_CHANGE';
+			addrKey: string;
+			signer: Address;
+			height: UInt64;
+			view: number;
+			/** The frame the signer signed at `height`, if any, which its signature covers by hash. */
+			locked?: LockedFrame;
+			sig: Hex;
+	  };
 
 export interface Input {
 	from: Address;